@@ -2,9 +2,14 @@ import { sql } from 'drizzle-orm';
 import type { PgDatabase } from 'drizzle-orm/pg-core';
 import { IWorkflowDbAdapter } from '../interfaces/workflow-db-adapter.interface';
 import {
+  ExpiredWorkflowRecord,
   WorkflowRecord,
   HistoryRecord,
+  OutboxFilter,
+  OutboxRecord,
+  TimerRecord,
 } from '../interfaces/workflow-records.interface';
+import { toNestedStatePattern } from '../utils/state-paths';
 
 const TABLE_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
@@ -42,7 +47,7 @@ export class DrizzleWorkflowAdapter implements IWorkflowDbAdapter {
     this.validateTableName(tableName);
     const lockClause = lock ? sql` FOR UPDATE` : sql``;
     const result = await this.db.execute(
-      sql`SELECT id, state_value, snapshot, expires_at, updated_at FROM ${sql.raw(tableName)} WHERE id = ${id}${lockClause}`,
+      sql`SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${sql.raw(tableName)} WHERE id = ${id}${lockClause}`,
     );
 
     const rows = extractRows(result);
@@ -58,6 +63,8 @@ export class DrizzleWorkflowAdapter implements IWorkflowDbAdapter {
           : row.snapshot,
       expiresAt: row.expires_at ? new Date(row.expires_at) : null,
       updatedAt: new Date(row.updated_at),
+      parentTable: row.parent_table ?? null,
+      parentId: row.parent_id ?? null,
     };
   }
 
@@ -70,8 +77,8 @@ export class DrizzleWorkflowAdapter implements IWorkflowDbAdapter {
     const snapshotJson = JSON.stringify(data.snapshot);
 
     await this.db.execute(
-      sql`INSERT INTO ${sql.raw(tableName)} (id, state_value, snapshot, expires_at, updated_at)
-          VALUES (${id}, ${data.stateValue}, ${snapshotJson}::jsonb, ${data.expiresAt}, CURRENT_TIMESTAMP)
+      sql`INSERT INTO ${sql.raw(tableName)} (id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id)
+          VALUES (${id}, ${data.stateValue}, ${snapshotJson}::jsonb, ${data.expiresAt}, CURRENT_TIMESTAMP, ${data.parentTable ?? null}, ${data.parentId ?? null})
           ON CONFLICT (id) DO UPDATE SET
             state_value = ${data.stateValue},
             snapshot = ${snapshotJson}::jsonb,
@@ -90,18 +97,146 @@ export class DrizzleWorkflowAdapter implements IWorkflowDbAdapter {
     const payloadJson = JSON.stringify(data.eventPayload);
 
     await this.db.execute(
-      sql`INSERT INTO ${sql.raw(historyTable)} (workflow_id, from_state, to_state, event_type, event_payload)
-          VALUES (${data.workflowId}, ${data.fromState}, ${data.toState}, ${data.eventType}, ${payloadJson}::jsonb)`,
+      sql`INSERT INTO ${sql.raw(historyTable)} (workflow_id, from_state, to_state, event_type, event_payload, transition_id)
+          VALUES (${data.workflowId}, ${data.fromState}, ${data.toState}, ${data.eventType}, ${payloadJson}::jsonb, ${data.transitionId ?? null})`,
     );
   }
 
-  async findExpired(tableName: string): Promise<{ id: string }[]> {
+  async findHistory(
+    tableName: string,
+    workflowId: string,
+  ): Promise<HistoryRecord[]> {
+    this.validateTableName(tableName);
+    const historyTable = `${tableName}_history`;
+    this.validateTableName(historyTable);
+    const result = await this.db.execute(
+      sql`SELECT id, workflow_id, from_state, to_state, event_type, event_payload, transitioned_at, transition_id FROM ${sql.raw(historyTable)} WHERE workflow_id = ${workflowId} ORDER BY transitioned_at, id`,
+    );
+
+    return extractRows(result).map((row: any) => ({
+      id: row.id,
+      workflowId: row.workflow_id,
+      fromState: row.from_state,
+      toState: row.to_state,
+      eventType: row.event_type,
+      eventPayload:
+        typeof row.event_payload === 'string'
+          ? JSON.parse(row.event_payload)
+          : row.event_payload,
+      transitionedAt: new Date(row.transitioned_at),
+      transitionId: row.transition_id,
+    }));
+  }
+
+  async findExpired(tableName: string): Promise<ExpiredWorkflowRecord[]> {
+    this.validateTableName(tableName);
+    const result = await this.db.execute(
+      sql`SELECT id, state_value, (snapshot->>'definitionVersion')::int AS definition_version, snapshot->'deadlines' AS deadlines FROM ${sql.raw(tableName)} WHERE expires_at < CURRENT_TIMESTAMP`,
+    );
+
+    return extractRows(result).map((row: any) => ({
+      id: row.id,
+      stateValue: row.state_value,
+      definitionVersion: row.definition_version ?? undefined,
+      deadlines:
+        typeof row.deadlines === 'string'
+          ? JSON.parse(row.deadlines)
+          : (row.deadlines ?? undefined),
+    }));
+  }
+
+  async replaceTimers(
+    tableName: string,
+    workflowId: string,
+    timers: Omit<TimerRecord, 'workflowId'>[],
+  ): Promise<void> {
+    this.validateTableName(tableName);
+    const timersTable = `${tableName}_timers`;
+    this.validateTableName(timersTable);
+
+    await this.db.execute(
+      sql`DELETE FROM ${sql.raw(timersTable)} WHERE workflow_id = ${workflowId}`,
+    );
+
+    for (const timer of timers) {
+      await this.db.execute(
+        sql`INSERT INTO ${sql.raw(timersTable)} (workflow_id, event_type, due_at) VALUES (${workflowId}, ${timer.eventType}, ${timer.dueAt})`,
+      );
+    }
+  }
+
+  async findDueTimers(tableName: string): Promise<TimerRecord[]> {
     this.validateTableName(tableName);
+    const timersTable = `${tableName}_timers`;
+    this.validateTableName(timersTable);
+    const result = await this.db.execute(
+      sql`SELECT workflow_id, event_type, due_at FROM ${sql.raw(timersTable)} WHERE due_at <= CURRENT_TIMESTAMP ORDER BY due_at`,
+    );
+
+    return extractRows(result).map((row: any) => ({
+      workflowId: row.workflow_id,
+      eventType: row.event_type,
+      dueAt: new Date(row.due_at),
+    }));
+  }
+
+  async insertOutbox(
+    tableName: string,
+    data: Pick<OutboxRecord, 'workflowId' | 'eventType' | 'payload'>,
+  ): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+    const payloadJson = JSON.stringify(data.payload);
+
+    await this.db.execute(
+      sql`INSERT INTO ${sql.raw(outboxTable)} (workflow_id, event_type, payload)
+          VALUES (${data.workflowId}, ${data.eventType}, ${payloadJson}::jsonb)`,
+    );
+  }
+
+  async findPendingOutbox(
+    tableName: string,
+    limit: number,
+    filter?: OutboxFilter,
+  ): Promise<OutboxRecord[]> {
+    const outboxTable = this.getOutboxTable(tableName);
+    const eventTypeCondition = filter
+      ? sql` AND event_type ${sql.raw(filter.exclude ? '<>' : '=')} ${filter.eventType}`
+      : sql``;
     const result = await this.db.execute(
-      sql`SELECT id FROM ${sql.raw(tableName)} WHERE expires_at < CURRENT_TIMESTAMP`,
+      sql`SELECT id, workflow_id, event_type, payload, created_at, dispatched_at, attempts, last_error FROM ${sql.raw(outboxTable)} WHERE dispatched_at IS NULL${eventTypeCondition} ORDER BY created_at, id LIMIT ${limit} FOR UPDATE SKIP LOCKED`,
     );
 
-    return extractRows(result).map((row: any) => ({ id: row.id }));
+    return extractRows(result).map((row: any) => ({
+      id: row.id,
+      workflowId: row.workflow_id,
+      eventType: row.event_type,
+      payload:
+        typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      createdAt: new Date(row.created_at),
+      dispatchedAt: row.dispatched_at ? new Date(row.dispatched_at) : null,
+      attempts: Number(row.attempts),
+      lastError: row.last_error,
+    }));
+  }
+
+  async markOutboxDispatched(tableName: string, id: string): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+
+    await this.db.execute(
+      sql`UPDATE ${sql.raw(outboxTable)} SET dispatched_at = CURRENT_TIMESTAMP WHERE id = ${id}`,
+    );
+  }
+
+  async markOutboxFailed(
+    tableName: string,
+    id: string,
+    error: string,
+  ): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+
+    await this.db.execute(
+      sql`UPDATE ${sql.raw(outboxTable)} SET attempts = attempts + 1, last_error = ${error} WHERE id = ${id}`,
+    );
   }
 
   async findByState(
@@ -110,7 +245,7 @@ export class DrizzleWorkflowAdapter implements IWorkflowDbAdapter {
   ): Promise<WorkflowRecord[]> {
     this.validateTableName(tableName);
     const result = await this.db.execute(
-      sql`SELECT id, state_value, snapshot, expires_at, updated_at FROM ${sql.raw(tableName)} WHERE state_value = ${stateValue}`,
+      sql`SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${sql.raw(tableName)} WHERE state_value = ${stateValue} OR state_value LIKE ${toNestedStatePattern(stateValue)} OR (state_value LIKE '%,%' AND EXISTS (SELECT 1 FROM unnest(string_to_array(state_value, ',')) AS leaf WHERE leaf = ${stateValue} OR starts_with(leaf, ${`${stateValue}.`})))`,
     );
 
     return extractRows(result).map((row: any) => ({
@@ -122,6 +257,55 @@ export class DrizzleWorkflowAdapter implements IWorkflowDbAdapter {
           : row.snapshot,
       expiresAt: row.expires_at ? new Date(row.expires_at) : null,
       updatedAt: new Date(row.updated_at),
+      parentTable: row.parent_table ?? null,
+      parentId: row.parent_id ?? null,
+    }));
+  }
+
+  async findByStates(
+    tableName: string,
+    statePaths: string[],
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+    if (statePaths.length === 0) return [];
+    const result = await this.db.execute(
+      sql`SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${sql.raw(tableName)} WHERE state_value IN ${statePaths} OR (state_value LIKE '%,%' AND EXISTS (SELECT 1 FROM unnest(string_to_array(state_value, ',')) AS leaf WHERE leaf IN ${statePaths}))`,
+    );
+
+    return extractRows(result).map((row: any) => ({
+      id: row.id,
+      stateValue: row.state_value,
+      snapshot:
+        typeof row.snapshot === 'string'
+          ? JSON.parse(row.snapshot)
+          : row.snapshot,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      updatedAt: new Date(row.updated_at),
+      parentTable: row.parent_table ?? null,
+      parentId: row.parent_id ?? null,
+    }));
+  }
+
+  async findOutdated(
+    tableName: string,
+    definitionVersion: number,
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+    const result = await this.db.execute(
+      sql`SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${sql.raw(tableName)} WHERE COALESCE((snapshot->>'definitionVersion')::int, 1) < ${definitionVersion}`,
+    );
+
+    return extractRows(result).map((row: any) => ({
+      id: row.id,
+      stateValue: row.state_value,
+      snapshot:
+        typeof row.snapshot === 'string'
+          ? JSON.parse(row.snapshot)
+          : row.snapshot,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      updatedAt: new Date(row.updated_at),
+      parentTable: row.parent_table ?? null,
+      parentId: row.parent_id ?? null,
     }));
   }
 
@@ -137,6 +321,13 @@ export class DrizzleWorkflowAdapter implements IWorkflowDbAdapter {
     });
   }
 
+  private getOutboxTable(tableName: string): string {
+    this.validateTableName(tableName);
+    const outboxTable = `${tableName}_outbox`;
+    this.validateTableName(outboxTable);
+    return outboxTable;
+  }
+
   private validateTableName(tableName: string): void {
     if (!TABLE_NAME_REGEX.test(tableName)) {
       throw new Error(
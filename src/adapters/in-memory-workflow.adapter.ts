@@ -1,15 +1,23 @@
 import { randomUUID } from 'crypto';
 import { IWorkflowDbAdapter } from '../interfaces/workflow-db-adapter.interface';
 import {
+  ExpiredWorkflowRecord,
   HistoryRecord,
+  OutboxFilter,
+  OutboxRecord,
+  TimerRecord,
   WorkflowRecord,
 } from '../interfaces/workflow-records.interface';
+import { getSnapshotDefinitionVersion } from '../utils/definition-version';
+import { parseStateValue } from '../utils/state-paths';
 
 const TABLE_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
 interface InMemoryState {
   liveByTable: Map<string, Map<string, WorkflowRecord>>;
   historyByTable: Map<string, HistoryRecord[]>;
+  timersByTable: Map<string, TimerRecord[]>;
+  outboxByTable: Map<string, OutboxRecord[]>;
 }
 
 function cloneJson(value: Record<string, unknown>): Record<string, unknown> {
@@ -23,6 +31,8 @@ function cloneWorkflowRecord(record: WorkflowRecord): WorkflowRecord {
     snapshot: cloneJson(record.snapshot),
     expiresAt: record.expiresAt ? new Date(record.expiresAt) : null,
     updatedAt: new Date(record.updatedAt),
+    parentTable: record.parentTable ?? null,
+    parentId: record.parentId ?? null,
   };
 }
 
@@ -35,6 +45,28 @@ function cloneHistoryRecord(record: HistoryRecord): HistoryRecord {
     eventType: record.eventType,
     eventPayload: cloneJson(record.eventPayload),
     transitionedAt: new Date(record.transitionedAt),
+    transitionId: record.transitionId ?? null,
+  };
+}
+
+function cloneTimerRecord(record: TimerRecord): TimerRecord {
+  return {
+    workflowId: record.workflowId,
+    eventType: record.eventType,
+    dueAt: new Date(record.dueAt),
+  };
+}
+
+function cloneOutboxRecord(record: OutboxRecord): OutboxRecord {
+  return {
+    id: record.id,
+    workflowId: record.workflowId,
+    eventType: record.eventType,
+    payload: cloneJson(record.payload),
+    createdAt: new Date(record.createdAt),
+    dispatchedAt: record.dispatchedAt ? new Date(record.dispatchedAt) : null,
+    attempts: record.attempts,
+    lastError: record.lastError,
   };
 }
 
@@ -42,6 +74,8 @@ function createEmptyState(): InMemoryState {
   return {
     liveByTable: new Map<string, Map<string, WorkflowRecord>>(),
     historyByTable: new Map<string, HistoryRecord[]>(),
+    timersByTable: new Map<string, TimerRecord[]>(),
+    outboxByTable: new Map<string, OutboxRecord[]>(),
   };
 }
 
@@ -63,11 +97,28 @@ function cloneState(state: InMemoryState): InMemoryState {
     );
   }
 
-  return { liveByTable, historyByTable };
+  const timersByTable = new Map<string, TimerRecord[]>();
+  for (const [tableName, rows] of state.timersByTable.entries()) {
+    timersByTable.set(
+      tableName,
+      rows.map((row) => cloneTimerRecord(row)),
+    );
+  }
+
+  const outboxByTable = new Map<string, OutboxRecord[]>();
+  for (const [tableName, rows] of state.outboxByTable.entries()) {
+    outboxByTable.set(
+      tableName,
+      rows.map((row) => cloneOutboxRecord(row)),
+    );
+  }
+
+  return { liveByTable, historyByTable, timersByTable, outboxByTable };
 }
 
 export class InMemoryWorkflowAdapter implements IWorkflowDbAdapter {
   private state: InMemoryState;
+  private lastTransaction: Promise<unknown> = Promise.resolve();
 
   constructor(
     private readonly defaultTableName: string,
@@ -94,12 +145,18 @@ export class InMemoryWorkflowAdapter implements IWorkflowDbAdapter {
     data: Omit<WorkflowRecord, 'id' | 'updatedAt'>,
   ): Promise<void> {
     this.validateTableName(tableName);
-    this.getLiveTable(tableName).set(id, {
+    const liveTable = this.getLiveTable(tableName);
+    const existing = liveTable.get(id);
+
+    // The parent link is only written when the row is inserted
+    liveTable.set(id, {
       id,
       stateValue: data.stateValue,
       snapshot: cloneJson(data.snapshot),
       expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
       updatedAt: new Date(),
+      parentTable: existing ? existing.parentTable : (data.parentTable ?? null),
+      parentId: existing ? existing.parentId : (data.parentId ?? null),
     });
   }
 
@@ -119,24 +176,136 @@ export class InMemoryWorkflowAdapter implements IWorkflowDbAdapter {
       eventType: data.eventType,
       eventPayload: cloneJson(data.eventPayload),
       transitionedAt: new Date(),
+      transitionId: data.transitionId ?? null,
     });
   }
 
-  async findExpired(tableName: string): Promise<{ id: string }[]> {
+  async findHistory(
+    tableName: string,
+    workflowId: string,
+  ): Promise<HistoryRecord[]> {
+    this.validateTableName(tableName);
+
+    return this.getHistoryTable(tableName)
+      .filter((row) => row.workflowId === workflowId)
+      .map((row) => cloneHistoryRecord(row));
+  }
+
+  async findExpired(tableName: string): Promise<ExpiredWorkflowRecord[]> {
     this.validateTableName(tableName);
     const now = Date.now();
     const rows = this.getLiveTable(tableName).values();
 
-    const expired: { id: string }[] = [];
+    const expired: ExpiredWorkflowRecord[] = [];
     for (const row of rows) {
       if (row.expiresAt && row.expiresAt.getTime() < now) {
-        expired.push({ id: row.id });
+        expired.push({
+          id: row.id,
+          stateValue: row.stateValue,
+          definitionVersion:
+            typeof row.snapshot.definitionVersion === 'number'
+              ? row.snapshot.definitionVersion
+              : undefined,
+          deadlines: row.snapshot.deadlines
+            ? { ...(row.snapshot.deadlines as Record<string, string>) }
+            : undefined,
+        });
       }
     }
 
     return expired;
   }
 
+  async replaceTimers(
+    tableName: string,
+    workflowId: string,
+    timers: Omit<TimerRecord, 'workflowId'>[],
+  ): Promise<void> {
+    this.validateTableName(tableName);
+    const timersTable = `${tableName}_timers`;
+    this.validateTableName(timersTable);
+
+    const rows = this.getTimersTable(tableName).filter(
+      (row) => row.workflowId !== workflowId,
+    );
+    for (const timer of timers) {
+      rows.push({
+        workflowId,
+        eventType: timer.eventType,
+        dueAt: new Date(timer.dueAt),
+      });
+    }
+    this.state.timersByTable.set(tableName, rows);
+  }
+
+  async findDueTimers(tableName: string): Promise<TimerRecord[]> {
+    this.validateTableName(tableName);
+    const now = Date.now();
+
+    return this.getTimersTable(tableName)
+      .filter((row) => row.dueAt.getTime() <= now)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+      .map((row) => cloneTimerRecord(row));
+  }
+
+  async insertOutbox(
+    tableName: string,
+    data: Pick<OutboxRecord, 'workflowId' | 'eventType' | 'payload'>,
+  ): Promise<void> {
+    this.validateTableName(tableName);
+    const outboxTable = `${tableName}_outbox`;
+    this.validateTableName(outboxTable);
+
+    this.getOutboxTable(tableName).push({
+      id: randomUUID(),
+      workflowId: data.workflowId,
+      eventType: data.eventType,
+      payload: cloneJson(data.payload),
+      createdAt: new Date(),
+      dispatchedAt: null,
+      attempts: 0,
+      lastError: null,
+    });
+  }
+
+  async findPendingOutbox(
+    tableName: string,
+    limit: number,
+    filter?: OutboxFilter,
+  ): Promise<OutboxRecord[]> {
+    this.validateTableName(tableName);
+
+    return this.getOutboxTable(tableName)
+      .filter(
+        (row) =>
+          row.dispatchedAt === null &&
+          (!filter || (row.eventType === filter.eventType) === !filter.exclude),
+      )
+      .slice(0, limit)
+      .map((row) => cloneOutboxRecord(row));
+  }
+
+  async markOutboxDispatched(tableName: string, id: string): Promise<void> {
+    this.validateTableName(tableName);
+    const row = this.getOutboxTable(tableName).find((entry) => entry.id === id);
+    if (row) {
+      row.dispatchedAt = new Date();
+    }
+  }
+
+  async markOutboxFailed(
+    tableName: string,
+    id: string,
+    error: string,
+  ): Promise<void> {
+    this.validateTableName(tableName);
+    const row = this.getOutboxTable(tableName).find((entry) => entry.id === id);
+    if (row) {
+      row.attempts += 1;
+      row.lastError = error;
+    }
+  }
+
   async findByState(
     tableName: string,
     stateValue: string,
@@ -145,7 +314,45 @@ export class InMemoryWorkflowAdapter implements IWorkflowDbAdapter {
 
     const matches: WorkflowRecord[] = [];
     for (const row of this.getLiveTable(tableName).values()) {
-      if (row.stateValue === stateValue) {
+      const leaves = parseStateValue(row.stateValue);
+      if (
+        leaves.some(
+          (leaf) => leaf === stateValue || leaf.startsWith(`${stateValue}.`),
+        )
+      ) {
+        matches.push(cloneWorkflowRecord(row));
+      }
+    }
+
+    return matches;
+  }
+
+  async findByStates(
+    tableName: string,
+    statePaths: string[],
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+
+    const wanted = new Set(statePaths);
+    const matches: WorkflowRecord[] = [];
+    for (const row of this.getLiveTable(tableName).values()) {
+      if (parseStateValue(row.stateValue).some((leaf) => wanted.has(leaf))) {
+        matches.push(cloneWorkflowRecord(row));
+      }
+    }
+
+    return matches;
+  }
+
+  async findOutdated(
+    tableName: string,
+    definitionVersion: number,
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+
+    const matches: WorkflowRecord[] = [];
+    for (const row of this.getLiveTable(tableName).values()) {
+      if (getSnapshotDefinitionVersion(row.snapshot) < definitionVersion) {
         matches.push(cloneWorkflowRecord(row));
       }
     }
@@ -160,16 +367,23 @@ export class InMemoryWorkflowAdapter implements IWorkflowDbAdapter {
       return cb(this);
     }
 
-    const txState = cloneState(this.state);
-    const txAdapter = new InMemoryWorkflowAdapter(
-      this.defaultTableName,
-      txState,
-      true,
-    );
+    // Transactions commit by replacing the whole state, so they run one at
+    // a time; a transaction started by an event listener would otherwise be
+    // overwritten by the transaction that published the event
+    const run = this.lastTransaction.then(async () => {
+      const txState = cloneState(this.state);
+      const txAdapter = new InMemoryWorkflowAdapter(
+        this.defaultTableName,
+        txState,
+        true,
+      );
 
-    const result = await cb(txAdapter);
-    this.state = txState;
-    return result;
+      const result = await cb(txAdapter);
+      this.state = txState;
+      return result;
+    });
+    this.lastTransaction = run.catch(() => undefined);
+    return run;
   }
 
   private getLiveTable(tableName: string): Map<string, WorkflowRecord> {
@@ -190,6 +404,19 @@ export class InMemoryWorkflowAdapter implements IWorkflowDbAdapter {
     return next;
   }
 
+  private getOutboxTable(tableName: string): OutboxRecord[] {
+    const table = this.state.outboxByTable.get(tableName);
+    if (table) return table;
+
+    const next: OutboxRecord[] = [];
+    this.state.outboxByTable.set(tableName, next);
+    return next;
+  }
+
+  private getTimersTable(tableName: string): TimerRecord[] {
+    return this.state.timersByTable.get(tableName) ?? [];
+  }
+
   private validateTableName(tableName: string): void {
     if (!TABLE_NAME_REGEX.test(tableName)) {
       throw new Error(
@@ -1,9 +1,14 @@
 import type { Pool, PoolClient } from 'pg';
 import { IWorkflowDbAdapter } from '../interfaces/workflow-db-adapter.interface';
 import {
+  ExpiredWorkflowRecord,
   HistoryRecord,
+  OutboxFilter,
+  OutboxRecord,
+  TimerRecord,
   WorkflowRecord,
 } from '../interfaces/workflow-records.interface';
+import { toNestedStatePattern } from '../utils/state-paths';
 
 const TABLE_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
@@ -13,10 +18,43 @@ interface PgLiveWorkflowRow {
   snapshot: unknown;
   expires_at: Date | string | null;
   updated_at: Date | string;
+  parent_table?: string | null;
+  parent_id?: string | null;
 }
 
-interface PgIdRow {
+interface PgHistoryRow {
   id: string;
+  workflow_id: string;
+  from_state: string;
+  to_state: string;
+  event_type: string;
+  event_payload: unknown;
+  transitioned_at: Date | string;
+  transition_id: string | null;
+}
+
+interface PgExpiredRow {
+  id: string;
+  state_value: string;
+  definition_version: number | null;
+  deadlines: Record<string, string> | null;
+}
+
+interface PgTimerRow {
+  workflow_id: string;
+  event_type: string;
+  due_at: Date | string;
+}
+
+interface PgOutboxRow {
+  id: string;
+  workflow_id: string;
+  event_type: string;
+  payload: unknown;
+  created_at: Date | string;
+  dispatched_at: Date | string | null;
+  attempts: number;
+  last_error: string | null;
 }
 
 type PgQueryable = Pick<Pool, 'query'> | Pick<PoolClient, 'query'>;
@@ -44,7 +82,7 @@ export class PgWorkflowAdapter implements IWorkflowDbAdapter {
     const lockClause = lock ? ' FOR UPDATE' : '';
 
     const result = await conn.query<PgLiveWorkflowRow>(
-      `SELECT id, state_value, snapshot, expires_at, updated_at
+      `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id
        FROM ${tableName}
        WHERE id = $1::uuid${lockClause}`,
       [id],
@@ -64,14 +102,21 @@ export class PgWorkflowAdapter implements IWorkflowDbAdapter {
     const snapshotJson = JSON.stringify(data.snapshot);
 
     await conn.query(
-      `INSERT INTO ${tableName} (id, state_value, snapshot, expires_at, updated_at)
-       VALUES ($1::uuid, $2, $3::jsonb, $4, CURRENT_TIMESTAMP)
+      `INSERT INTO ${tableName} (id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id)
+       VALUES ($1::uuid, $2, $3::jsonb, $4, CURRENT_TIMESTAMP, $5, $6::uuid)
        ON CONFLICT (id) DO UPDATE SET
          state_value = $2,
          snapshot = $3::jsonb,
          expires_at = $4,
          updated_at = CURRENT_TIMESTAMP`,
-      [id, data.stateValue, snapshotJson, data.expiresAt],
+      [
+        id,
+        data.stateValue,
+        snapshotJson,
+        data.expiresAt,
+        data.parentTable ?? null,
+        data.parentId ?? null,
+      ],
     );
   }
 
@@ -87,26 +132,179 @@ export class PgWorkflowAdapter implements IWorkflowDbAdapter {
 
     await conn.query(
       `INSERT INTO ${historyTable}
-       (workflow_id, from_state, to_state, event_type, event_payload)
-       VALUES ($1::uuid, $2, $3, $4, $5::jsonb)`,
+       (workflow_id, from_state, to_state, event_type, event_payload, transition_id)
+       VALUES ($1::uuid, $2, $3, $4, $5::jsonb, $6)`,
       [
         data.workflowId,
         data.fromState,
         data.toState,
         data.eventType,
         payloadJson,
+        data.transitionId ?? null,
       ],
     );
   }
 
-  async findExpired(tableName: string): Promise<{ id: string }[]> {
+  async findHistory(
+    tableName: string,
+    workflowId: string,
+  ): Promise<HistoryRecord[]> {
+    this.validateTableName(tableName);
+    const historyTable = `${tableName}_history`;
+    this.validateTableName(historyTable);
+    const conn = this.getConn();
+    const result = await conn.query<PgHistoryRow>(
+      `SELECT id, workflow_id, from_state, to_state, event_type, event_payload, transitioned_at, transition_id
+       FROM ${historyTable}
+       WHERE workflow_id = $1::uuid
+       ORDER BY transitioned_at, id`,
+      [workflowId],
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      workflowId: row.workflow_id,
+      fromState: row.from_state,
+      toState: row.to_state,
+      eventType: row.event_type,
+      eventPayload:
+        typeof row.event_payload === 'string'
+          ? (JSON.parse(row.event_payload) as Record<string, unknown>)
+          : (row.event_payload as Record<string, unknown>),
+      transitionedAt: new Date(row.transitioned_at),
+      transitionId: row.transition_id,
+    }));
+  }
+
+  async findExpired(tableName: string): Promise<ExpiredWorkflowRecord[]> {
     this.validateTableName(tableName);
     const conn = this.getConn();
-    const result = await conn.query<PgIdRow>(
-      `SELECT id FROM ${tableName} WHERE expires_at < CURRENT_TIMESTAMP`,
+    const result = await conn.query<PgExpiredRow>(
+      `SELECT id, state_value, (snapshot->>'definitionVersion')::int AS definition_version, snapshot->'deadlines' AS deadlines FROM ${tableName} WHERE expires_at < CURRENT_TIMESTAMP`,
     );
 
-    return result.rows.map((row) => ({ id: row.id }));
+    return result.rows.map((row) => ({
+      id: row.id,
+      stateValue: row.state_value,
+      definitionVersion: row.definition_version ?? undefined,
+      deadlines: row.deadlines ?? undefined,
+    }));
+  }
+
+  async replaceTimers(
+    tableName: string,
+    workflowId: string,
+    timers: Omit<TimerRecord, 'workflowId'>[],
+  ): Promise<void> {
+    this.validateTableName(tableName);
+    const timersTable = `${tableName}_timers`;
+    this.validateTableName(timersTable);
+    const conn = this.getConn();
+
+    await conn.query(
+      `DELETE FROM ${timersTable} WHERE workflow_id = $1::uuid`,
+      [workflowId],
+    );
+
+    for (const timer of timers) {
+      await conn.query(
+        `INSERT INTO ${timersTable} (workflow_id, event_type, due_at)
+         VALUES ($1::uuid, $2, $3)`,
+        [workflowId, timer.eventType, timer.dueAt],
+      );
+    }
+  }
+
+  async findDueTimers(tableName: string): Promise<TimerRecord[]> {
+    this.validateTableName(tableName);
+    const timersTable = `${tableName}_timers`;
+    this.validateTableName(timersTable);
+    const conn = this.getConn();
+    const result = await conn.query<PgTimerRow>(
+      `SELECT workflow_id, event_type, due_at
+       FROM ${timersTable}
+       WHERE due_at <= CURRENT_TIMESTAMP
+       ORDER BY due_at`,
+    );
+
+    return result.rows.map((row) => ({
+      workflowId: row.workflow_id,
+      eventType: row.event_type,
+      dueAt: new Date(row.due_at),
+    }));
+  }
+
+  async insertOutbox(
+    tableName: string,
+    data: Pick<OutboxRecord, 'workflowId' | 'eventType' | 'payload'>,
+  ): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+    const conn = this.getConn();
+
+    await conn.query(
+      `INSERT INTO ${outboxTable} (workflow_id, event_type, payload)
+       VALUES ($1::uuid, $2, $3::jsonb)`,
+      [data.workflowId, data.eventType, JSON.stringify(data.payload)],
+    );
+  }
+
+  async findPendingOutbox(
+    tableName: string,
+    limit: number,
+    filter?: OutboxFilter,
+  ): Promise<OutboxRecord[]> {
+    const outboxTable = this.getOutboxTable(tableName);
+    const conn = this.getConn();
+    const eventTypeCondition = filter
+      ? ` AND event_type ${filter.exclude ? '<>' : '='} $2`
+      : '';
+    const result = await conn.query<PgOutboxRow>(
+      `SELECT id, workflow_id, event_type, payload, created_at, dispatched_at, attempts, last_error
+       FROM ${outboxTable}
+       WHERE dispatched_at IS NULL${eventTypeCondition}
+       ORDER BY created_at, id
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED`,
+      filter ? [limit, filter.eventType] : [limit],
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      workflowId: row.workflow_id,
+      eventType: row.event_type,
+      payload:
+        typeof row.payload === 'string'
+          ? (JSON.parse(row.payload) as Record<string, unknown>)
+          : (row.payload as Record<string, unknown>),
+      createdAt: new Date(row.created_at),
+      dispatchedAt: row.dispatched_at ? new Date(row.dispatched_at) : null,
+      attempts: row.attempts,
+      lastError: row.last_error,
+    }));
+  }
+
+  async markOutboxDispatched(tableName: string, id: string): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+    const conn = this.getConn();
+
+    await conn.query(
+      `UPDATE ${outboxTable} SET dispatched_at = CURRENT_TIMESTAMP WHERE id = $1::uuid`,
+      [id],
+    );
+  }
+
+  async markOutboxFailed(
+    tableName: string,
+    id: string,
+    error: string,
+  ): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+    const conn = this.getConn();
+
+    await conn.query(
+      `UPDATE ${outboxTable} SET attempts = attempts + 1, last_error = $2 WHERE id = $1::uuid`,
+      [id, error],
+    );
   }
 
   async findByState(
@@ -116,10 +314,52 @@ export class PgWorkflowAdapter implements IWorkflowDbAdapter {
     this.validateTableName(tableName);
     const conn = this.getConn();
     const result = await conn.query<PgLiveWorkflowRow>(
-      `SELECT id, state_value, snapshot, expires_at, updated_at
+      `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id
+       FROM ${tableName}
+       WHERE state_value = $1
+          OR state_value LIKE $2
+          OR (state_value LIKE '%,%' AND EXISTS (
+            SELECT 1 FROM unnest(string_to_array(state_value, ',')) AS leaf
+            WHERE leaf = $1 OR starts_with(leaf, $1 || '.')
+          ))`,
+      [stateValue, toNestedStatePattern(stateValue)],
+    );
+
+    return result.rows.map((row) => this.toWorkflowRecord(row));
+  }
+
+  async findByStates(
+    tableName: string,
+    statePaths: string[],
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+    if (statePaths.length === 0) return [];
+    const conn = this.getConn();
+    const result = await conn.query<PgLiveWorkflowRow>(
+      `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id
+       FROM ${tableName}
+       WHERE state_value = ANY($1::text[])
+          OR (state_value LIKE '%,%' AND EXISTS (
+            SELECT 1 FROM unnest(string_to_array(state_value, ',')) AS leaf
+            WHERE leaf = ANY($1::text[])
+          ))`,
+      [statePaths],
+    );
+
+    return result.rows.map((row) => this.toWorkflowRecord(row));
+  }
+
+  async findOutdated(
+    tableName: string,
+    definitionVersion: number,
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+    const conn = this.getConn();
+    const result = await conn.query<PgLiveWorkflowRow>(
+      `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id
        FROM ${tableName}
-       WHERE state_value = $1`,
-      [stateValue],
+       WHERE COALESCE((snapshot->>'definitionVersion')::int, 1) < $1`,
+      [definitionVersion],
     );
 
     return result.rows.map((row) => this.toWorkflowRecord(row));
@@ -155,6 +395,13 @@ export class PgWorkflowAdapter implements IWorkflowDbAdapter {
     return this.client ?? this.pool;
   }
 
+  private getOutboxTable(tableName: string): string {
+    this.validateTableName(tableName);
+    const outboxTable = `${tableName}_outbox`;
+    this.validateTableName(outboxTable);
+    return outboxTable;
+  }
+
   private toWorkflowRecord(row: PgLiveWorkflowRow): WorkflowRecord {
     return {
       id: row.id,
@@ -165,6 +412,8 @@ export class PgWorkflowAdapter implements IWorkflowDbAdapter {
           : (row.snapshot as Record<string, unknown>),
       expiresAt: row.expires_at ? new Date(row.expires_at) : null,
       updatedAt: new Date(row.updated_at),
+      parentTable: row.parent_table ?? null,
+      parentId: row.parent_id ?? null,
     };
   }
 
@@ -1,8 +1,13 @@
 import { IWorkflowDbAdapter } from '../interfaces/workflow-db-adapter.interface';
 import {
+  ExpiredWorkflowRecord,
   HistoryRecord,
+  OutboxFilter,
+  OutboxRecord,
+  TimerRecord,
   WorkflowRecord,
 } from '../interfaces/workflow-records.interface';
+import { toNestedStatePattern } from '../utils/state-paths';
 
 const TABLE_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
@@ -21,10 +26,43 @@ interface LiveWorkflowRow {
   snapshot: unknown;
   expires_at: Date | string | null;
   updated_at: Date | string;
+  parent_table?: string | null;
+  parent_id?: string | null;
+}
+
+interface HistoryRow {
+  id: string;
+  workflow_id: string;
+  from_state: string;
+  to_state: string;
+  event_type: string;
+  event_payload: unknown;
+  transitioned_at: Date | string;
+  transition_id: string | null;
 }
 
 interface ExpiredRow {
   id: string;
+  state_value: string;
+  definition_version: number | null;
+  deadlines: Record<string, string> | null;
+}
+
+interface TimerRow {
+  workflow_id: string;
+  event_type: string;
+  due_at: Date | string;
+}
+
+interface OutboxRow {
+  id: string;
+  workflow_id: string;
+  event_type: string;
+  payload: unknown;
+  created_at: Date | string;
+  dispatched_at: Date | string | null;
+  attempts: number;
+  last_error: string | null;
 }
 
 function hasTransactionRunner(
@@ -60,7 +98,7 @@ export class PrismaWorkflowAdapter implements IWorkflowDbAdapter {
   ): Promise<WorkflowRecord | null> {
     this.validateTableName(tableName);
 
-    const query = `SELECT id, state_value, snapshot, expires_at, updated_at FROM ${tableName} WHERE id = $1::uuid${lock ? ' FOR UPDATE' : ''}`;
+    const query = `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${tableName} WHERE id = $1::uuid${lock ? ' FOR UPDATE' : ''}`;
     const rows = await this.executor.$queryRawUnsafe<LiveWorkflowRow[]>(
       query,
       id,
@@ -79,8 +117,8 @@ export class PrismaWorkflowAdapter implements IWorkflowDbAdapter {
     const snapshotJson = JSON.stringify(data.snapshot);
 
     await this.executor.$executeRawUnsafe(
-      `INSERT INTO ${tableName} (id, state_value, snapshot, expires_at, updated_at)
-       VALUES ($1::uuid, $2, $3::jsonb, $4, CURRENT_TIMESTAMP)
+      `INSERT INTO ${tableName} (id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id)
+       VALUES ($1::uuid, $2, $3::jsonb, $4, CURRENT_TIMESTAMP, $5, $6::uuid)
        ON CONFLICT (id) DO UPDATE SET
          state_value = $2,
          snapshot = $3::jsonb,
@@ -90,6 +128,8 @@ export class PrismaWorkflowAdapter implements IWorkflowDbAdapter {
       data.stateValue,
       snapshotJson,
       data.expiresAt,
+      data.parentTable ?? null,
+      data.parentId ?? null,
     );
   }
 
@@ -103,23 +143,164 @@ export class PrismaWorkflowAdapter implements IWorkflowDbAdapter {
     const payloadJson = JSON.stringify(data.eventPayload);
 
     await this.executor.$executeRawUnsafe(
-      `INSERT INTO ${historyTable} (workflow_id, from_state, to_state, event_type, event_payload)
-       VALUES ($1::uuid, $2, $3, $4, $5::jsonb)`,
+      `INSERT INTO ${historyTable} (workflow_id, from_state, to_state, event_type, event_payload, transition_id)
+       VALUES ($1::uuid, $2, $3, $4, $5::jsonb, $6)`,
       data.workflowId,
       data.fromState,
       data.toState,
       data.eventType,
       payloadJson,
+      data.transitionId ?? null,
+    );
+  }
+
+  async findHistory(
+    tableName: string,
+    workflowId: string,
+  ): Promise<HistoryRecord[]> {
+    this.validateTableName(tableName);
+    const historyTable = `${tableName}_history`;
+    this.validateTableName(historyTable);
+    const rows = await this.executor.$queryRawUnsafe<HistoryRow[]>(
+      `SELECT id, workflow_id, from_state, to_state, event_type, event_payload, transitioned_at, transition_id FROM ${historyTable} WHERE workflow_id = $1::uuid ORDER BY transitioned_at, id`,
+      workflowId,
     );
+
+    return rows.map((row) => ({
+      id: row.id,
+      workflowId: row.workflow_id,
+      fromState: row.from_state,
+      toState: row.to_state,
+      eventType: row.event_type,
+      eventPayload:
+        typeof row.event_payload === 'string'
+          ? (JSON.parse(row.event_payload) as Record<string, unknown>)
+          : (row.event_payload as Record<string, unknown>),
+      transitionedAt: new Date(row.transitioned_at),
+      transitionId: row.transition_id,
+    }));
   }
 
-  async findExpired(tableName: string): Promise<{ id: string }[]> {
+  async findExpired(tableName: string): Promise<ExpiredWorkflowRecord[]> {
     this.validateTableName(tableName);
     const rows = await this.executor.$queryRawUnsafe<ExpiredRow[]>(
-      `SELECT id FROM ${tableName} WHERE expires_at < CURRENT_TIMESTAMP`,
+      `SELECT id, state_value, (snapshot->>'definitionVersion')::int AS definition_version, snapshot->'deadlines' AS deadlines FROM ${tableName} WHERE expires_at < CURRENT_TIMESTAMP`,
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      stateValue: row.state_value,
+      definitionVersion: row.definition_version ?? undefined,
+      deadlines: row.deadlines ?? undefined,
+    }));
+  }
+
+  async replaceTimers(
+    tableName: string,
+    workflowId: string,
+    timers: Omit<TimerRecord, 'workflowId'>[],
+  ): Promise<void> {
+    this.validateTableName(tableName);
+    const timersTable = `${tableName}_timers`;
+    this.validateTableName(timersTable);
+
+    await this.executor.$executeRawUnsafe(
+      `DELETE FROM ${timersTable} WHERE workflow_id = $1::uuid`,
+      workflowId,
+    );
+
+    for (const timer of timers) {
+      await this.executor.$executeRawUnsafe(
+        `INSERT INTO ${timersTable} (workflow_id, event_type, due_at)
+         VALUES ($1::uuid, $2, $3)`,
+        workflowId,
+        timer.eventType,
+        timer.dueAt,
+      );
+    }
+  }
+
+  async findDueTimers(tableName: string): Promise<TimerRecord[]> {
+    this.validateTableName(tableName);
+    const timersTable = `${tableName}_timers`;
+    this.validateTableName(timersTable);
+    const rows = await this.executor.$queryRawUnsafe<TimerRow[]>(
+      `SELECT workflow_id, event_type, due_at FROM ${timersTable} WHERE due_at <= CURRENT_TIMESTAMP ORDER BY due_at`,
     );
 
-    return rows.map((row) => ({ id: row.id }));
+    return rows.map((row) => ({
+      workflowId: row.workflow_id,
+      eventType: row.event_type,
+      dueAt: new Date(row.due_at),
+    }));
+  }
+
+  async insertOutbox(
+    tableName: string,
+    data: Pick<OutboxRecord, 'workflowId' | 'eventType' | 'payload'>,
+  ): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+
+    await this.executor.$executeRawUnsafe(
+      `INSERT INTO ${outboxTable} (workflow_id, event_type, payload)
+       VALUES ($1::uuid, $2, $3::jsonb)`,
+      data.workflowId,
+      data.eventType,
+      JSON.stringify(data.payload),
+    );
+  }
+
+  async findPendingOutbox(
+    tableName: string,
+    limit: number,
+    filter?: OutboxFilter,
+  ): Promise<OutboxRecord[]> {
+    const outboxTable = this.getOutboxTable(tableName);
+    const eventTypeCondition = filter
+      ? ` AND event_type ${filter.exclude ? '<>' : '='} $2`
+      : '';
+    const rows = await this.executor.$queryRawUnsafe<OutboxRow[]>(
+      `SELECT id, workflow_id, event_type, payload, created_at, dispatched_at, attempts, last_error FROM ${outboxTable} WHERE dispatched_at IS NULL${eventTypeCondition} ORDER BY created_at, id LIMIT $1 FOR UPDATE SKIP LOCKED`,
+      limit,
+      ...(filter ? [filter.eventType] : []),
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      workflowId: row.workflow_id,
+      eventType: row.event_type,
+      payload:
+        typeof row.payload === 'string'
+          ? (JSON.parse(row.payload) as Record<string, unknown>)
+          : (row.payload as Record<string, unknown>),
+      createdAt: new Date(row.created_at),
+      dispatchedAt: row.dispatched_at ? new Date(row.dispatched_at) : null,
+      attempts: Number(row.attempts),
+      lastError: row.last_error,
+    }));
+  }
+
+  async markOutboxDispatched(tableName: string, id: string): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+
+    await this.executor.$executeRawUnsafe(
+      `UPDATE ${outboxTable} SET dispatched_at = CURRENT_TIMESTAMP WHERE id = $1::uuid`,
+      id,
+    );
+  }
+
+  async markOutboxFailed(
+    tableName: string,
+    id: string,
+    error: string,
+  ): Promise<void> {
+    const outboxTable = this.getOutboxTable(tableName);
+
+    await this.executor.$executeRawUnsafe(
+      `UPDATE ${outboxTable} SET attempts = attempts + 1, last_error = $2 WHERE id = $1::uuid`,
+      id,
+      error,
+    );
   }
 
   async findByState(
@@ -128,8 +309,36 @@ export class PrismaWorkflowAdapter implements IWorkflowDbAdapter {
   ): Promise<WorkflowRecord[]> {
     this.validateTableName(tableName);
     const rows = await this.executor.$queryRawUnsafe<LiveWorkflowRow[]>(
-      `SELECT id, state_value, snapshot, expires_at, updated_at FROM ${tableName} WHERE state_value = $1`,
+      `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${tableName} WHERE state_value = $1 OR state_value LIKE $2 OR (state_value LIKE '%,%' AND EXISTS (SELECT 1 FROM unnest(string_to_array(state_value, ',')) AS leaf WHERE leaf = $1 OR starts_with(leaf, $1 || '.')))`,
       stateValue,
+      toNestedStatePattern(stateValue),
+    );
+
+    return rows.map((row) => this.toWorkflowRecord(row));
+  }
+
+  async findByStates(
+    tableName: string,
+    statePaths: string[],
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+    if (statePaths.length === 0) return [];
+    const rows = await this.executor.$queryRawUnsafe<LiveWorkflowRow[]>(
+      `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${tableName} WHERE state_value = ANY($1::text[]) OR (state_value LIKE '%,%' AND EXISTS (SELECT 1 FROM unnest(string_to_array(state_value, ',')) AS leaf WHERE leaf = ANY($1::text[])))`,
+      statePaths,
+    );
+
+    return rows.map((row) => this.toWorkflowRecord(row));
+  }
+
+  async findOutdated(
+    tableName: string,
+    definitionVersion: number,
+  ): Promise<WorkflowRecord[]> {
+    this.validateTableName(tableName);
+    const rows = await this.executor.$queryRawUnsafe<LiveWorkflowRow[]>(
+      `SELECT id, state_value, snapshot, expires_at, updated_at, parent_table, parent_id FROM ${tableName} WHERE COALESCE((snapshot->>'definitionVersion')::int, 1) < $1`,
+      definitionVersion,
     );
 
     return rows.map((row) => this.toWorkflowRecord(row));
@@ -158,9 +367,18 @@ export class PrismaWorkflowAdapter implements IWorkflowDbAdapter {
           : (row.snapshot as Record<string, unknown>),
       expiresAt: row.expires_at ? new Date(row.expires_at) : null,
       updatedAt: new Date(row.updated_at),
+      parentTable: row.parent_table ?? null,
+      parentId: row.parent_id ?? null,
     };
   }
 
+  private getOutboxTable(tableName: string): string {
+    this.validateTableName(tableName);
+    const outboxTable = `${tableName}_outbox`;
+    this.validateTableName(outboxTable);
+    return outboxTable;
+  }
+
   private validateTableName(tableName: string): void {
     if (!TABLE_NAME_REGEX.test(tableName)) {
       throw new Error(
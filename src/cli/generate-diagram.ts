@@ -0,0 +1,112 @@
+import { createRequire } from 'module';
+import * as path from 'path';
+import type { DeclarativeWorkflowDefinition } from '../interfaces/declarative-workflow-definition.interface';
+import type { WorkflowDiagramOptions } from '../interfaces/workflow-diagram.interface';
+import { generateDiagram } from '../utils/generate-diagram';
+import { loadWorkflowDefinition } from '../utils/load-workflow-definition';
+
+function isWorkflowDefinition(
+  value: unknown,
+): value is DeclarativeWorkflowDefinition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>).id === 'string' &&
+    typeof (value as Record<string, unknown>).states === 'object'
+  );
+}
+
+/**
+ * Reads the definition to render: a JSON or YAML declarative definition, or
+ * a compiled module exporting one (by `exportName`, or the first export that
+ * looks like a definition).
+ */
+function loadDiagramDefinition(
+  filePath: string,
+  exportName?: string,
+): DeclarativeWorkflowDefinition {
+  const extension = path.extname(filePath).toLowerCase();
+  if (['.json', '.yaml', '.yml'].includes(extension)) {
+    return loadWorkflowDefinition(filePath);
+  }
+
+  const exported = createRequire(__filename)(path.resolve(filePath)) as Record<
+    string,
+    unknown
+  >;
+  const candidates =
+    exportName === undefined
+      ? [exported.default, exported, ...Object.values(exported)]
+      : [exported[exportName]];
+  const definition = candidates.find(isWorkflowDefinition);
+  if (!definition) {
+    throw new Error(
+      exportName === undefined
+        ? `${filePath} does not export a workflow definition`
+        : `${filePath} does not export a workflow definition named "${exportName}"`,
+    );
+  }
+  return definition;
+}
+
+export const DIAGRAM_USAGE =
+  'Usage: nestjs-durable-workflows generate-diagram <definitionFile> [--format mermaid|dot] [--state <stateValue>] [--export <name>]';
+
+/** Runs `generate-diagram` and prints the diagram to stdout. */
+export function runDiagramCommand(args: string[]): void {
+  const options: WorkflowDiagramOptions = {};
+  let filePath: string | undefined;
+  let exportName: string | undefined;
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--format' || arg === '--state' || arg === '--export') {
+      const value = args[++index];
+      if (value === undefined) {
+        console.error(`Error: ${arg} requires a value.`);
+        console.error(DIAGRAM_USAGE);
+        process.exit(1);
+      }
+      if (arg === '--format') {
+        if (value !== 'mermaid' && value !== 'dot') {
+          console.error(
+            `Error: unknown format "${value}". Use mermaid or dot.`,
+          );
+          process.exit(1);
+        }
+        options.format = value;
+      } else if (arg === '--state') {
+        options.currentState = value;
+      } else {
+        exportName = value;
+      }
+    } else if (arg.startsWith('--') || filePath !== undefined) {
+      console.error(`Error: unexpected argument "${arg}".`);
+      console.error(DIAGRAM_USAGE);
+      process.exit(1);
+    } else {
+      filePath = arg;
+    }
+  }
+
+  if (filePath === undefined) {
+    console.error('Error: definitionFile argument is required.');
+    console.error(DIAGRAM_USAGE);
+    process.exit(1);
+  }
+
+  let diagram: string;
+  try {
+    diagram = generateDiagram(
+      loadDiagramDefinition(filePath, exportName),
+      options,
+    );
+  } catch (error) {
+    console.error(
+      `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(1);
+  }
+
+  process.stdout.write(diagram);
+}
@@ -2,15 +2,20 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { DIAGRAM_USAGE, runDiagramCommand } from './generate-diagram';
 
 const TABLE_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
-export function generateMigration(tableName: string): string {
+function assertTableName(tableName: string): void {
   if (!TABLE_NAME_REGEX.test(tableName)) {
     throw new Error(
       `Invalid table name "${tableName}". Only alphanumeric characters and underscores are allowed.`,
     );
   }
+}
+
+export function generateMigration(tableName: string): string {
+  assertTableName(tableName);
 
   return `-- migrate:up
 CREATE TABLE ${tableName} (
@@ -18,7 +23,9 @@ CREATE TABLE ${tableName} (
     state_value TEXT NOT NULL,
     snapshot JSONB NOT NULL,
     expires_at TIMESTAMPTZ,
-    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    parent_table TEXT,
+    parent_id UUID
 );
 
 CREATE INDEX idx_${tableName}_expires_at
@@ -26,11 +33,19 @@ CREATE INDEX idx_${tableName}_expires_at
     WHERE expires_at IS NOT NULL;
 
 CREATE INDEX idx_${tableName}_state_value
-    ON ${tableName} (state_value);
+    ON ${tableName} (state_value text_pattern_ops);
+
+CREATE INDEX idx_${tableName}_state_value_parallel
+    ON ${tableName} (state_value)
+    WHERE state_value LIKE '%,%';
 
 CREATE INDEX idx_${tableName}_snapshot_gin
     ON ${tableName} USING gin (snapshot);
 
+CREATE INDEX idx_${tableName}_parent
+    ON ${tableName} (parent_table, parent_id)
+    WHERE parent_id IS NOT NULL;
+
 CREATE TABLE ${tableName}_history (
     id UUID PRIMARY KEY DEFAULT uuidv7(),
     workflow_id UUID NOT NULL REFERENCES ${tableName}(id),
@@ -38,7 +53,8 @@ CREATE TABLE ${tableName}_history (
     to_state TEXT NOT NULL,
     event_type TEXT NOT NULL,
     event_payload JSONB NOT NULL,
-    transitioned_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+    transitioned_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    transition_id TEXT
 );
 
 CREATE INDEX idx_${tableName}_history_workflow_id
@@ -50,44 +66,154 @@ CREATE INDEX idx_${tableName}_history_transitioned_at
 CREATE INDEX idx_${tableName}_history_event_payload_gin
     ON ${tableName}_history USING gin (event_payload);
 
+CREATE TABLE ${tableName}_timers (
+    id UUID PRIMARY KEY DEFAULT uuidv7(),
+    workflow_id UUID NOT NULL REFERENCES ${tableName}(id),
+    event_type TEXT NOT NULL,
+    due_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_${tableName}_timers_due_at
+    ON ${tableName}_timers (due_at);
+
+CREATE INDEX idx_${tableName}_timers_workflow_id
+    ON ${tableName}_timers (workflow_id);
+
+CREATE TABLE ${tableName}_outbox (
+    id UUID PRIMARY KEY DEFAULT uuidv7(),
+    workflow_id UUID NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    dispatched_at TIMESTAMPTZ,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT
+);
+
+CREATE INDEX idx_${tableName}_outbox_pending
+    ON ${tableName}_outbox (created_at)
+    WHERE dispatched_at IS NULL;
+
 -- migrate:down
+DROP TABLE IF EXISTS ${tableName}_outbox;
+DROP TABLE IF EXISTS ${tableName}_timers;
 DROP TABLE IF EXISTS ${tableName}_history;
 DROP TABLE IF EXISTS ${tableName};
 `;
 }
 
+/**
+ * Brings tables created by an earlier version of `generateMigration` up to
+ * the current schema. Every statement is idempotent, so the migration can
+ * run against tables of any earlier version.
+ */
+export function generateUpgradeMigration(tableName: string): string {
+  assertTableName(tableName);
+
+  return `-- migrate:up
+ALTER TABLE ${tableName}
+    ADD COLUMN IF NOT EXISTS parent_table TEXT,
+    ADD COLUMN IF NOT EXISTS parent_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_${tableName}_parent
+    ON ${tableName} (parent_table, parent_id)
+    WHERE parent_id IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_${tableName}_state_value;
+CREATE INDEX idx_${tableName}_state_value
+    ON ${tableName} (state_value text_pattern_ops);
+
+CREATE INDEX IF NOT EXISTS idx_${tableName}_state_value_parallel
+    ON ${tableName} (state_value)
+    WHERE state_value LIKE '%,%';
+
+ALTER TABLE ${tableName}_history
+    ADD COLUMN IF NOT EXISTS transition_id TEXT;
+
+CREATE TABLE IF NOT EXISTS ${tableName}_timers (
+    id UUID PRIMARY KEY DEFAULT uuidv7(),
+    workflow_id UUID NOT NULL REFERENCES ${tableName}(id),
+    event_type TEXT NOT NULL,
+    due_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_${tableName}_timers_due_at
+    ON ${tableName}_timers (due_at);
+
+CREATE INDEX IF NOT EXISTS idx_${tableName}_timers_workflow_id
+    ON ${tableName}_timers (workflow_id);
+
+CREATE TABLE IF NOT EXISTS ${tableName}_outbox (
+    id UUID PRIMARY KEY DEFAULT uuidv7(),
+    workflow_id UUID NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    dispatched_at TIMESTAMPTZ,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_${tableName}_outbox_pending
+    ON ${tableName}_outbox (created_at)
+    WHERE dispatched_at IS NULL;
+
+-- migrate:down
+-- The upgrade only adds columns, tables and indexes and is not rolled back.
+`;
+}
+
 function main(): void {
   const args = process.argv.slice(2);
 
   if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
     console.log(
-      'Usage: nestjs-durable-workflows generate-migration <tableName>\n\n' +
+      'Usage: nestjs-durable-workflows generate-migration <tableName> [--upgrade]\n\n' +
         'Generates a dbmate-compatible SQL migration file for a workflow entity.\n\n' +
         'Arguments:\n' +
-        '  tableName    The database table name (alphanumeric and underscores only)\n\n' +
+        '  tableName    The database table name (alphanumeric and underscores only)\n' +
+        '  --upgrade    Upgrade tables created by an earlier version instead\n\n' +
         'Example:\n' +
-        '  npx nestjs-durable-workflows generate-migration orders',
+        '  npx nestjs-durable-workflows generate-migration orders\n\n' +
+        `${DIAGRAM_USAGE}\n\n` +
+        'Prints a Mermaid (default) or Graphviz DOT diagram of a workflow definition.\n\n' +
+        'Arguments:\n' +
+        '  definitionFile    A .json/.yaml definition or a compiled module exporting one\n' +
+        '  --format          mermaid or dot\n' +
+        '  --state           State value of an instance to highlight\n' +
+        '  --export          Name of the exported definition in a module\n\n' +
+        'Example:\n' +
+        '  npx nestjs-durable-workflows generate-diagram dist/order.workflow.js --state pending',
     );
     process.exit(args.length === 0 ? 1 : 0);
   }
 
   const command = args[0];
+  if (command === 'generate-diagram') {
+    runDiagramCommand(args.slice(1));
+    return;
+  }
   if (command !== 'generate-migration') {
     console.error(`Unknown command: ${command}`);
-    console.error('Available commands: generate-migration');
+    console.error('Available commands: generate-migration, generate-diagram');
     process.exit(1);
   }
 
-  const tableName = args[1];
+  const upgrade = args.includes('--upgrade');
+  const tableName = args.slice(1).find((arg) => arg !== '--upgrade');
   if (!tableName) {
     console.error('Error: tableName argument is required.');
     console.error(
-      'Usage: nestjs-durable-workflows generate-migration <tableName>',
+      'Usage: nestjs-durable-workflows generate-migration <tableName> [--upgrade]',
     );
     process.exit(1);
   }
 
-  const sql = generateMigration(tableName);
+  const sql = upgrade
+    ? generateUpgradeMigration(tableName)
+    : generateMigration(tableName);
 
   const migrationsDir = path.resolve('db', 'migrations');
   if (!fs.existsSync(migrationsDir)) {
@@ -95,7 +221,7 @@ function main(): void {
   }
 
   const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
-  const fileName = `${timestamp}_create_${tableName}.sql`;
+  const fileName = `${timestamp}_${upgrade ? 'upgrade' : 'create'}_${tableName}.sql`;
   const filePath = path.join(migrationsDir, fileName);
 
   fs.writeFileSync(filePath, sql, 'utf-8');
@@ -1,18 +1,23 @@
 import { SetMetadata } from '@nestjs/common';
 import { WORKFLOW_ENTITY_METADATA } from '../workflow.constants';
 import { deriveTableName } from '../utils/derive-table-name';
-import type { DurableWorkflowDefinition } from '../interfaces/durable-workflow-definition.interface';
+import type { DeclarativeWorkflowDefinition } from '../interfaces/declarative-workflow-definition.interface';
 
 export interface WorkflowEntityOptions {
   /** Database table name. If omitted, derived from class name. */
   tableName?: string;
-  /** Durable workflow definition consumed by runtime engine */
-  definition: DurableWorkflowDefinition;
+  /**
+   * Durable workflow definition consumed by runtime engine, or every version
+   * of it that still has live instances. New instances use the highest
+   * `version`; existing instances keep the version they were created with.
+   * Guards and actions may be referenced by name (see `implementations`).
+   */
+  definition: DeclarativeWorkflowDefinition | DeclarativeWorkflowDefinition[];
 }
 
 export interface WorkflowEntityMetadata {
   tableName: string;
-  definition: DurableWorkflowDefinition;
+  definition: DeclarativeWorkflowDefinition | DeclarativeWorkflowDefinition[];
 }
 
 export function WorkflowEntity(options: WorkflowEntityOptions): ClassDecorator {
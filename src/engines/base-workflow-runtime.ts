@@ -0,0 +1,1167 @@
+import { randomUUID } from 'crypto';
+import { RecursiveTransitionError } from '../errors/recursive-transition.error';
+import { GuardTimeoutError } from '../errors/guard-timeout.error';
+import {
+  DONE_CHILD_EVENT_PREFIX,
+  WORKFLOW_ERROR_EVENT,
+  WORKFLOW_INIT_EVENT,
+  WORKFLOW_RETRY_EVENT_PREFIX,
+  WILDCARD_EVENT,
+} from '../workflow.constants';
+import type {
+  DurableChildRef,
+  DurableSnapshotV2,
+  DurableTimer,
+  SpawnChildOptions,
+  DurableWorkflowDefinition,
+  RetryPolicy,
+  TransitionConfig,
+  TransitionRule,
+  WorkflowAction,
+  WorkflowActionEntry,
+  WorkflowErrorInfo,
+  WorkflowEventPayload,
+  WorkflowGuard,
+  WorkflowStatus,
+} from '../interfaces/durable-workflow-definition.interface';
+import type {
+  IWorkflowRuntime,
+  RuntimeCompensationStep,
+  RuntimeError,
+  RuntimeSendResult,
+  RuntimeMessage,
+  RuntimeSpawnedChild,
+  RuntimeTransition,
+} from '../interfaces/workflow-engine.interface';
+import { hydrateSnapshot, isFinalState } from '../utils/hydrate-snapshot';
+import { getAfterEventType, parseDelay } from '../utils/delayed-transitions';
+import { getDefinitionHash } from '../utils/definition-hash';
+import { getDefinitionVersion } from '../utils/definition-version';
+import { isContextAction } from '../utils/assign';
+import {
+  getRetryDelay,
+  getRetryEventType,
+  getRetryPolicy,
+} from '../utils/retry-policies';
+import {
+  formatStateValue,
+  getAncestorPaths,
+  getEventHandlers,
+  getParentPath,
+  getRegionPath,
+  getStateNode,
+  isCompoundState,
+  isDescendantPath,
+  isFinalNode,
+  isParallelState,
+  joinStatePath,
+  listStatePaths,
+  parseStateValue,
+  resolveInitialLeaves,
+  resolveTargetPath,
+  sortStatePaths,
+} from '../utils/state-paths';
+
+export interface CompiledTransition {
+  /**
+   * Stable identifier derived from the declaring state, the handler key and
+   * the rule index (e.g. "pending:PAY:0"). Recorded in history rows.
+   */
+  id: string;
+  /** State path that declared the transition (the leaf or one of its ancestors). */
+  source: string;
+  /** Resolved target state path, which may be a compound state. */
+  target?: string;
+  /** Only states below the domain are exited and entered. */
+  domain: string;
+  /** Region whose machine performs the transition ("" for the root region). */
+  region: string;
+  /** State the region rests in once the target is entered. */
+  to?: string;
+  /** Atomic states entered by the transition, across all regions. */
+  enteredLeaves: string[];
+  guard?: WorkflowGuard;
+  actions: WorkflowActionEntry[];
+  /** Transition-level error handlers, tried before the state `onError`. */
+  onError: CompiledTransition[];
+  compensate: WorkflowAction[];
+}
+
+interface StateTransitions {
+  on: Map<string, CompiledTransition[]>;
+  always: CompiledTransition[];
+}
+
+/** Current state of one region, moved by the transitions it performs. */
+export interface RegionMachine {
+  readonly state: string;
+  /** Moves the region to `transition.to`. */
+  take(transition: CompiledTransition, event: WorkflowEventPayload): void;
+}
+
+interface ProcessResult {
+  handled: boolean;
+  transitioned: boolean;
+}
+
+/** Runtime state captured before each step so a failed step can be undone. */
+interface RuntimeCheckpoint {
+  stateValue: string;
+  context: Record<string, unknown>;
+  timers: DurableTimer[];
+  deadlines: Record<string, string>;
+  children: DurableChildRef[];
+  spawned: number;
+  messages: number;
+  transitions: number;
+  internalQueue: WorkflowEventPayload[];
+}
+
+/** Wraps errors thrown by workflow actions, as opposed to engine errors. */
+class ActionFailure extends Error {
+  constructor(
+    readonly original: unknown,
+    readonly retry?: RetryPolicy,
+  ) {
+    super('Workflow action failed');
+  }
+}
+
+/** Stops the current send once an action failure is left unhandled. */
+class UnhandledActionFailure extends Error {}
+
+const ALWAYS_EVENT = '__always__';
+const DONE_STATE_EVENT_PREFIX = 'done.state.';
+/** Handles `done.child.<id>` for any child without a more specific handler. */
+const DONE_CHILD_EVENT = 'done.child';
+
+function toArray<T>(value?: T | T[]): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toConfig(rule: TransitionRule): TransitionConfig {
+  return typeof rule === 'string' ? { target: rule } : rule;
+}
+
+function toActions(
+  action?: WorkflowActionEntry | WorkflowActionEntry[],
+): WorkflowActionEntry[] {
+  return toArray(action);
+}
+
+function getPathsBelow(leaf: string, domain: string): string[] {
+  return getAncestorPaths(leaf).filter(
+    (path) => path !== domain && isDescendantPath(path, domain),
+  );
+}
+
+function toErrorInfo(error: unknown): WorkflowErrorInfo {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
+}
+
+function cloneContext(
+  context: Record<string, unknown>,
+): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(context)) as Record<string, unknown>;
+}
+
+/**
+ * Interprets a definition with one machine per active region. Without
+ * parallel states only the root region exists and its machine state is the
+ * active leaf; each parallel state opens one extra machine per child region.
+ * Engines only decide how a region machine moves between its states.
+ */
+export abstract class BaseWorkflowRuntime implements IWorkflowRuntime {
+  protected abstract readonly engine: DurableSnapshotV2['engine'];
+  private readonly machines = new Map<string, RegionMachine>();
+  private readonly compiled = new Map<string, StateTransitions>();
+  private readonly compiledById = new Map<string, CompiledTransition>();
+  /** State-changing transitions performed by each region's machine. */
+  private readonly regionTransitions = new Map<string, CompiledTransition[]>();
+  private readonly transitions: RuntimeTransition[] = [];
+  private readonly internalQueue: WorkflowEventPayload[] = [];
+  /** Queued events raised by actions, as opposed to `done.state.*` events. */
+  private readonly raisedEvents = new WeakSet<WorkflowEventPayload>();
+  /** Raised event being processed, recorded on the transitions it leads to. */
+  private raisedEvent?: WorkflowEventPayload;
+  private readonly afterEvents = new Set<string>();
+  private readonly spawned: RuntimeSpawnedChild[] = [];
+  private readonly messages: RuntimeMessage[] = [];
+  private context: Record<string, unknown>;
+  private status: WorkflowStatus;
+  private lastError?: RuntimeError;
+  private timers: DurableTimer[];
+  private deadlines: Record<string, string>;
+  private children: DurableChildRef[];
+  private readonly createdAt: string | null;
+  private lastEventType: string | null;
+  private sequence: number;
+
+  constructor(
+    protected readonly definition: DurableWorkflowDefinition,
+    private readonly workflowId: string,
+    snapshot: Record<string, unknown> | undefined,
+    private readonly maxTransitionDepth: number,
+    private readonly guardTimeoutMs: number,
+    private readonly actionStub?: WorkflowAction,
+  ) {
+    const seed = hydrateSnapshot(workflowId, definition, snapshot);
+    this.context = cloneContext(seed.context);
+    this.status = seed.status;
+    this.children = seed.children ?? [];
+    this.createdAt =
+      seed.metadata?.createdAt ?? (snapshot ? null : new Date().toISOString());
+    this.lastEventType = seed.metadata?.lastEventType ?? null;
+    this.sequence = seed.metadata?.sequence ?? 0;
+
+    this.buildCompiledTransitions();
+    this.createRegionMachines(parseStateValue(seed.state), '');
+
+    this.timers = seed.timers ?? [];
+    if (!seed.timers && this.status === 'active') {
+      this.startTimers(this.getActiveStates());
+    }
+
+    // Migrated snapshots may keep deadlines of states that are not active
+    const activeStates = this.getActiveStates();
+    this.deadlines = Object.fromEntries(
+      Object.entries(seed.deadlines ?? {}).filter(([statePath]) =>
+        activeStates.includes(statePath),
+      ),
+    );
+    if (!seed.deadlines && this.status === 'active') {
+      this.startDeadlines(activeStates);
+    }
+  }
+
+  async send(event: WorkflowEventPayload): Promise<RuntimeSendResult> {
+    if (this.status !== 'active') {
+      return {
+        stateValue: this.getStateValue(),
+        done: this.status === 'done',
+        transitions: [],
+      };
+    }
+
+    this.transitions.length = 0;
+    this.internalQueue.length = 0;
+    this.raisedEvent = undefined;
+    this.spawned.length = 0;
+    this.messages.length = 0;
+    this.lastError = undefined;
+    let depth = 0;
+    let handled: boolean;
+
+    if (event.type.startsWith(DONE_CHILD_EVENT_PREFIX)) {
+      const childId = event.type.slice(DONE_CHILD_EVENT_PREFIX.length);
+      this.children = this.children.filter((child) => child.id !== childId);
+    }
+
+    // Delayed events and retries only fire through a pending timer that is due
+    let retryTimer: DurableTimer | undefined;
+    if (
+      this.afterEvents.has(event.type) ||
+      event.type.startsWith(WORKFLOW_RETRY_EVENT_PREFIX)
+    ) {
+      const timer = this.timers.find((pending) => pending.event === event.type);
+      if (!timer || Date.parse(timer.dueAt) > Date.now()) {
+        return {
+          stateValue: this.getStateValue(),
+          done: false,
+          transitions: [],
+        };
+      }
+      this.timers = this.timers.filter((pending) => pending !== timer);
+      if (timer.retryEvent) {
+        retryTimer = timer;
+      }
+    }
+
+    this.lastEventType = event.type;
+    const onStateTransition = () => {
+      depth += 1;
+      if (depth > this.maxTransitionDepth) {
+        throw new RecursiveTransitionError(
+          this.workflowId,
+          depth,
+          this.maxTransitionDepth,
+        );
+      }
+    };
+
+    try {
+      if (retryTimer) {
+        await this.processRetry(retryTimer, onStateTransition);
+        handled = true;
+      } else {
+        ({ handled } = await this.processEvent(
+          event.type,
+          event,
+          onStateTransition,
+        ));
+      }
+
+      let current = retryTimer?.retryEvent ?? event;
+      for (;;) {
+        while (
+          (await this.processEvent(ALWAYS_EVENT, current, onStateTransition))
+            .transitioned
+        ) {
+          // drain internal transitions until stable
+        }
+
+        const next = this.internalQueue.shift();
+        if (!next) break;
+        current = next;
+        if (this.raisedEvents.has(next)) {
+          // Each raised event is a step, so raise loops hit the depth limit
+          onStateTransition();
+          this.raisedEvent = next;
+        }
+        await this.processEvent(next.type, next, onStateTransition);
+      }
+    } catch (error) {
+      if (!(error instanceof UnhandledActionFailure)) {
+        throw error;
+      }
+      // Only a selected transition runs actions that can fail
+      handled = true;
+    }
+
+    const stateValue = this.getStateValue();
+    if (this.status === 'active') {
+      this.status = isFinalState(this.definition, stateValue)
+        ? 'done'
+        : 'active';
+    }
+    if (this.status !== 'active') {
+      this.timers = [];
+      this.deadlines = {};
+    }
+    this.sequence += this.transitions.length;
+
+    return {
+      stateValue,
+      done: this.status === 'done',
+      transitions: [...this.transitions],
+      spawned: [...this.spawned],
+      messages: [...this.messages],
+      error: this.lastError,
+      handled,
+    };
+  }
+
+  async compensate(step: RuntimeCompensationStep): Promise<boolean> {
+    const transition = this.compiledById.get(step.transitionId);
+    if (!transition || transition.compensate.length === 0) {
+      return false;
+    }
+
+    // Compensations run backwards: from the step's target to its source
+    for (const action of transition.compensate) {
+      await action({
+        context: this.context,
+        event: step.event,
+        fromState: step.toState,
+        toState: step.fromState,
+        spawn: () => {
+          throw new Error(
+            `Workflow ${this.workflowId} cannot spawn children while compensating`,
+          );
+        },
+        raise: () => {
+          throw new Error(
+            `Workflow ${this.workflowId} cannot raise events while compensating`,
+          );
+        },
+        sendTo: () => {
+          throw new Error(
+            `Workflow ${this.workflowId} cannot send messages while compensating`,
+          );
+        },
+      });
+    }
+
+    return true;
+  }
+
+  getSnapshot(): {
+    stateValue: string;
+    done: boolean;
+    context: Record<string, unknown>;
+  } {
+    return {
+      stateValue: this.getStateValue(),
+      done: this.status === 'done',
+      context: this.context,
+    };
+  }
+
+  dehydrate(): DurableSnapshotV2 {
+    return {
+      schema: 'durable-workflow-snapshot',
+      version: 2,
+      engine: this.engine,
+      state: this.getStateValue(),
+      status: this.status,
+      context: this.context,
+      timers: this.timers,
+      deadlines: this.deadlines,
+      children: this.children,
+      definitionVersion: getDefinitionVersion(this.definition),
+      definitionId: this.definition.id,
+      definitionHash: getDefinitionHash(this.definition),
+      createdAt: this.createdAt,
+      lastEventType: this.lastEventType,
+      sequence: this.sequence,
+    };
+  }
+
+  /**
+   * Creates the machine of a region resting in `init`. `transitions` are
+   * the state-changing transitions the region performs.
+   */
+  protected abstract createMachine(
+    region: string,
+    init: string,
+    transitions: CompiledTransition[],
+  ): RegionMachine;
+
+  private buildCompiledTransitions(): void {
+    const compile = (
+      source: string,
+      rule: TransitionConfig,
+      id: string,
+    ): CompiledTransition => {
+      const target = rule.target
+        ? resolveTargetPath(this.definition, source, rule.target)
+        : undefined;
+
+      if (!target) {
+        return register({
+          id,
+          source,
+          domain: source,
+          region: getRegionPath(this.definition, source),
+          enteredLeaves: [],
+          guard: rule.guard,
+          actions: toActions(rule.actions),
+          onError: compileRules(source, rule.onError, `${id}:onError`),
+          compensate: toArray(rule.compensate),
+        });
+      }
+
+      const domain = this.getTransitionDomain(source, target);
+      const region =
+        domain === '' ? '' : getRegionPath(this.definition, domain);
+      const enteredLeaves = this.getEntryLeaves(target, domain);
+      const to = getPathsBelow(enteredLeaves[0], domain).find(
+        (path) =>
+          this.isRegionState(path) &&
+          getRegionPath(this.definition, path) === region,
+      )!;
+
+      const transition = register({
+        id,
+        source,
+        target,
+        domain,
+        region,
+        to,
+        enteredLeaves,
+        guard: rule.guard,
+        actions: toActions(rule.actions),
+        onError: compileRules(source, rule.onError, `${id}:onError`),
+        compensate: toArray(rule.compensate),
+      });
+      const regionTransitions = this.regionTransitions.get(region) ?? [];
+      regionTransitions.push(transition);
+      this.regionTransitions.set(region, regionTransitions);
+      return transition;
+    };
+
+    const register = (transition: CompiledTransition): CompiledTransition => {
+      this.compiledById.set(transition.id, transition);
+      return transition;
+    };
+
+    const compileRules = (
+      source: string,
+      rules: TransitionRule | TransitionRule[] | undefined,
+      key: string,
+    ): CompiledTransition[] =>
+      toArray(rules).map((rule, index) =>
+        compile(source, toConfig(rule), `${key}:${index}`),
+      );
+
+    for (const statePath of listStatePaths(this.definition)) {
+      const stateDef = getStateNode(this.definition, statePath)!;
+      const stateTransitions: StateTransitions = {
+        on: new Map<string, CompiledTransition[]>(),
+        always: [],
+      };
+
+      for (const [eventType, rulesInput] of Object.entries(
+        getEventHandlers(this.definition, statePath),
+      )) {
+        stateTransitions.on.set(
+          eventType,
+          compileRules(statePath, rulesInput, `${statePath}:${eventType}`),
+        );
+      }
+
+      if (stateDef.onDone) {
+        const doneEvent = `${DONE_STATE_EVENT_PREFIX}${statePath}`;
+        stateTransitions.on.set(doneEvent, [
+          ...(stateTransitions.on.get(doneEvent) ?? []),
+          ...compileRules(statePath, stateDef.onDone, `${statePath}:onDone`),
+        ]);
+      }
+
+      if (stateDef.onError) {
+        stateTransitions.on.set(WORKFLOW_ERROR_EVENT, [
+          ...(stateTransitions.on.get(WORKFLOW_ERROR_EVENT) ?? []),
+          ...compileRules(statePath, stateDef.onError, `${statePath}:onError`),
+        ]);
+      }
+
+      for (const [delay, rulesInput] of Object.entries(stateDef.after ?? {})) {
+        const afterEvent = getAfterEventType(statePath, delay);
+        this.afterEvents.add(afterEvent);
+        stateTransitions.on.set(
+          afterEvent,
+          compileRules(statePath, rulesInput, `${statePath}:after.${delay}`),
+        );
+      }
+
+      stateTransitions.always.push(
+        ...compileRules(statePath, stateDef.always, `${statePath}:always`),
+      );
+
+      this.compiled.set(statePath, stateTransitions);
+    }
+  }
+
+  /**
+   * Nearest compound state that is a proper ancestor of both the source and
+   * the target. Parallel states are skipped, so a transition between two
+   * regions exits and re-enters the whole parallel state.
+   */
+  private getTransitionDomain(source: string, target: string): string {
+    let domain = getParentPath(source);
+    while (
+      domain !== '' &&
+      (domain === target ||
+        !isDescendantPath(target, domain) ||
+        isParallelState(getStateNode(this.definition, domain)))
+    ) {
+      domain = getParentPath(domain);
+    }
+    return domain;
+  }
+
+  /**
+   * Atomic states entered when entering `target` from `domain`, including
+   * the initial states of sibling regions of any parallel ancestor on the way.
+   */
+  private getEntryLeaves(target: string, domain: string): string[] {
+    const leaves = resolveInitialLeaves(this.definition, target);
+
+    for (const ancestor of getPathsBelow(target, domain)) {
+      const node = getStateNode(this.definition, ancestor);
+      if (ancestor === target || !isParallelState(node)) continue;
+
+      for (const key of Object.keys(node!.states!)) {
+        const region = joinStatePath(ancestor, key);
+        if (!isDescendantPath(target, region)) {
+          leaves.push(...resolveInitialLeaves(this.definition, region));
+        }
+      }
+    }
+
+    return sortStatePaths(this.definition, leaves);
+  }
+
+  private isRegionState(path: string): boolean {
+    const node = getStateNode(this.definition, path);
+    return !isCompoundState(node) || isParallelState(node);
+  }
+
+  private createRegionMachines(leaves: string[], domain: string): void {
+    for (const leaf of leaves) {
+      for (const path of getPathsBelow(leaf, domain)) {
+        if (!this.isRegionState(path)) continue;
+
+        const region = getRegionPath(this.definition, path);
+        if (!this.machines.has(region)) {
+          this.machines.set(
+            region,
+            this.createMachine(
+              region,
+              path,
+              this.regionTransitions.get(region) ?? [],
+            ),
+          );
+        }
+      }
+    }
+  }
+
+  private getActiveLeaves(): string[] {
+    const leaves = Array.from(this.machines.values())
+      .map((machine) => machine.state)
+      .filter((path) => !isParallelState(getStateNode(this.definition, path)));
+    return sortStatePaths(this.definition, leaves);
+  }
+
+  private getActiveStates(): string[] {
+    return sortStatePaths(
+      this.definition,
+      this.getActiveLeaves().flatMap(getAncestorPaths),
+    );
+  }
+
+  private getStateValue(): string {
+    return formatStateValue(this.definition, this.getActiveLeaves());
+  }
+
+  private isActive(path: string): boolean {
+    return this.getActiveLeaves().some((leaf) => isDescendantPath(leaf, path));
+  }
+
+  private isStateDone(path: string): boolean {
+    const node = getStateNode(this.definition, path);
+    if (!node || !this.isActive(path)) return false;
+
+    if (isParallelState(node)) {
+      return Object.keys(node.states!).every((key) =>
+        this.isStateDone(joinStatePath(path, key)),
+      );
+    }
+
+    if (isCompoundState(node)) {
+      return Object.entries(node.states!).some(
+        ([key, child]) =>
+          isFinalNode(child) && this.isActive(joinStatePath(path, key)),
+      );
+    }
+
+    return isFinalNode(node);
+  }
+
+  private raise(event: WorkflowEventPayload): void {
+    if (!this.internalQueue.some((queued) => queued.type === event.type)) {
+      this.internalQueue.push(event);
+    }
+  }
+
+  /**
+   * Queues `done.state.<path>` for compound states that reached a final
+   * child and for parallel states whose regions are all done.
+   */
+  private raiseDoneEvents(enteredLeaves: string[]): void {
+    for (const leaf of enteredLeaves) {
+      if (!isFinalNode(getStateNode(this.definition, leaf))) continue;
+
+      const parent = getParentPath(leaf);
+      if (parent === '') continue;
+
+      const parentIsParallel = isParallelState(
+        getStateNode(this.definition, parent),
+      );
+      if (!parentIsParallel) {
+        this.raise({ type: `${DONE_STATE_EVENT_PREFIX}${parent}` });
+      }
+
+      const parallel = parentIsParallel ? parent : getParentPath(parent);
+      if (
+        parallel !== '' &&
+        isParallelState(getStateNode(this.definition, parallel)) &&
+        this.isStateDone(parallel)
+      ) {
+        this.raise({ type: `${DONE_STATE_EVENT_PREFIX}${parallel}` });
+      }
+    }
+  }
+
+  private async processEvent(
+    eventType: string,
+    event: WorkflowEventPayload,
+    onStateTransition: () => void,
+  ): Promise<ProcessResult> {
+    const result: ProcessResult = { handled: false, transitioned: false };
+    const handledSources = new Set<string>();
+
+    // Every active region gets the event, in declaration order
+    for (const leaf of this.getActiveLeaves()) {
+      if (!this.isActive(leaf)) continue;
+
+      const candidate = await this.selectTransition(leaf, eventType, event);
+      if (!candidate || handledSources.has(candidate.source)) continue;
+      handledSources.add(candidate.source);
+
+      result.handled = true;
+      if (await this.take(candidate, leaf, event, onStateTransition)) {
+        result.transitioned = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs one selected transition. If one of its actions throws, the step is
+   * undone and either retried later under the action's retry policy or
+   * routed to the `onError` handlers.
+   */
+  private async take(
+    candidate: CompiledTransition,
+    leaf: string,
+    event: WorkflowEventPayload,
+    onStateTransition: () => void,
+    attempt = 1,
+  ): Promise<boolean> {
+    // Taking the transition again supersedes any retry still pending for it
+    const retryEvent = getRetryEventType(candidate.id);
+    this.timers = this.timers.filter((timer) => timer.event !== retryEvent);
+    const checkpoint = this.checkpoint();
+
+    try {
+      if (!candidate.to) {
+        await this.runActions(candidate.actions, leaf, leaf, event);
+        return false;
+      }
+
+      onStateTransition();
+      await this.runStateTransition(candidate, event);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ActionFailure)) {
+        throw error;
+      }
+      this.restore(checkpoint);
+
+      if (error.retry && attempt < error.retry.attempts) {
+        this.scheduleRetry(
+          candidate,
+          event,
+          toErrorInfo(error.original),
+          error.retry,
+          attempt,
+        );
+        return false;
+      }
+
+      return this.handleFailure(
+        candidate,
+        leaf,
+        event,
+        toErrorInfo(error.original),
+        onStateTransition,
+      );
+    }
+  }
+
+  /**
+   * Stores the error in `context.error` and raises `error.execution`, first
+   * to the failed transition's `onError`, then to the active states. Failures
+   * inside error handlers, or with no handler, put the instance in `error`.
+   */
+  private async handleFailure(
+    candidate: CompiledTransition,
+    leaf: string,
+    event: WorkflowEventPayload,
+    error: WorkflowErrorInfo,
+    onStateTransition: () => void,
+  ): Promise<boolean> {
+    const state = this.getStateValue();
+    this.context.error = error;
+
+    if (event.type !== WORKFLOW_ERROR_EVENT) {
+      this.lastError = {
+        ...error,
+        state,
+        eventType: event.type,
+        handled: true,
+      };
+      const errorEvent: WorkflowEventPayload = {
+        type: WORKFLOW_ERROR_EVENT,
+        error,
+        event,
+      };
+
+      for (const handler of candidate.onError) {
+        if (await this.passesGuard(handler, leaf, errorEvent)) {
+          return this.take(handler, leaf, errorEvent, onStateTransition);
+        }
+      }
+
+      const result = await this.processEvent(
+        WORKFLOW_ERROR_EVENT,
+        errorEvent,
+        onStateTransition,
+      );
+      if (result.handled) {
+        return result.transitioned;
+      }
+    }
+
+    this.lastError = { ...error, state, eventType: event.type, handled: false };
+    this.status = 'error';
+    throw new UnhandledActionFailure();
+  }
+
+  /**
+   * Keeps the source state and schedules the next attempt as a timer, so
+   * the retry survives restarts and is cancelled when the state is exited.
+   */
+  private scheduleRetry(
+    candidate: CompiledTransition,
+    event: WorkflowEventPayload,
+    error: WorkflowErrorInfo,
+    retry: RetryPolicy,
+    attempt: number,
+  ): void {
+    const dueAt = new Date(
+      Date.now() + getRetryDelay(retry, attempt),
+    ).toISOString();
+
+    this.context.error = error;
+    this.timers.push({
+      event: getRetryEventType(candidate.id),
+      state: candidate.source,
+      dueAt,
+      retryEvent: event,
+      attempt: attempt + 1,
+    });
+    this.lastError = {
+      ...error,
+      state: this.getStateValue(),
+      eventType: event.type,
+      handled: true,
+      retryAt: dueAt,
+    };
+  }
+
+  /** Takes a retried transition again if its source state is still active. */
+  private async processRetry(
+    timer: DurableTimer,
+    onStateTransition: () => void,
+  ): Promise<void> {
+    const candidate = this.compiledById.get(
+      timer.event.slice(WORKFLOW_RETRY_EVENT_PREFIX.length),
+    );
+    const leaf = candidate
+      ? this.getActiveLeaves().find((active) =>
+          isDescendantPath(active, candidate.source),
+        )
+      : undefined;
+    if (
+      !candidate ||
+      !leaf ||
+      !(await this.passesGuard(candidate, leaf, timer.retryEvent!))
+    ) {
+      return;
+    }
+
+    await this.take(
+      candidate,
+      leaf,
+      timer.retryEvent!,
+      onStateTransition,
+      timer.attempt,
+    );
+  }
+
+  private checkpoint(): RuntimeCheckpoint {
+    return {
+      stateValue: this.getStateValue(),
+      context: cloneContext(this.context),
+      timers: [...this.timers],
+      deadlines: { ...this.deadlines },
+      children: [...this.children],
+      spawned: this.spawned.length,
+      messages: this.messages.length,
+      transitions: this.transitions.length,
+      internalQueue: [...this.internalQueue],
+    };
+  }
+
+  private restore(checkpoint: RuntimeCheckpoint): void {
+    this.machines.clear();
+    this.createRegionMachines(parseStateValue(checkpoint.stateValue), '');
+    this.context = checkpoint.context;
+    this.timers = checkpoint.timers;
+    this.deadlines = checkpoint.deadlines;
+    this.children = checkpoint.children;
+    this.spawned.length = checkpoint.spawned;
+    this.messages.length = checkpoint.messages;
+    this.transitions.length = checkpoint.transitions;
+    this.internalQueue.splice(
+      0,
+      this.internalQueue.length,
+      ...checkpoint.internalQueue,
+    );
+  }
+
+  private async selectTransition(
+    leaf: string,
+    eventType: string,
+    event: WorkflowEventPayload,
+  ): Promise<CompiledTransition | undefined> {
+    const lookups: ((
+      current: StateTransitions,
+    ) => CompiledTransition[] | undefined)[] =
+      eventType === ALWAYS_EVENT
+        ? [(current) => current.always]
+        : [
+            (current) =>
+              current.on.get(eventType) ??
+              (eventType.startsWith(DONE_CHILD_EVENT_PREFIX)
+                ? current.on.get(DONE_CHILD_EVENT)
+                : undefined),
+          ];
+    // Explicit handlers on any ancestor take priority over `'*'` handlers
+    if (eventType !== ALWAYS_EVENT && !this.isInternalEvent(eventType)) {
+      lookups.push((current) => current.on.get(WILDCARD_EVENT));
+    }
+
+    for (const lookup of lookups) {
+      // Events bubble from the active leaf up through its ancestors
+      for (const statePath of getAncestorPaths(leaf).reverse()) {
+        const current = this.compiled.get(statePath);
+        if (!current) continue;
+
+        // Guards are evaluated one at a time, in declaration order
+        for (const candidate of lookup(current) ?? []) {
+          if (await this.passesGuard(candidate, leaf, event)) {
+            return candidate;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private isInternalEvent(eventType: string): boolean {
+    return (
+      eventType === WORKFLOW_ERROR_EVENT ||
+      eventType === WORKFLOW_INIT_EVENT ||
+      eventType.startsWith(DONE_STATE_EVENT_PREFIX) ||
+      eventType.startsWith(DONE_CHILD_EVENT_PREFIX) ||
+      this.afterEvents.has(eventType)
+    );
+  }
+
+  private async passesGuard(
+    candidate: CompiledTransition,
+    leaf: string,
+    event: WorkflowEventPayload,
+  ): Promise<boolean> {
+    if (!candidate.guard) {
+      return true;
+    }
+
+    const pending = candidate.guard({
+      context: this.context,
+      event,
+      fromState: leaf,
+      toState: candidate.to ?? leaf,
+    });
+    // Any thenable counts as async, not only native promises
+    const result =
+      typeof (pending as PromiseLike<unknown>)?.then === 'function'
+        ? await this.withGuardTimeout(pending as PromiseLike<boolean>, event)
+        : pending;
+
+    if (typeof result !== 'boolean') {
+      throw new Error(
+        `Guard for workflow ${this.workflowId} must return a boolean value`,
+      );
+    }
+
+    return result;
+  }
+
+  private async withGuardTimeout(
+    pending: PromiseLike<boolean>,
+    event: WorkflowEventPayload,
+  ): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new GuardTimeoutError(
+              this.workflowId,
+              event.type,
+              this.guardTimeoutMs,
+            ),
+          ),
+        this.guardTimeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([pending, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async runStateTransition(
+    candidate: CompiledTransition,
+    event: WorkflowEventPayload,
+  ): Promise<void> {
+    const machine = this.machines.get(candidate.region)!;
+    const fromState = machine.state;
+    const previousValue = this.getStateValue();
+    const { domain } = candidate;
+
+    // Exit innermost first, up to (but excluding) the transition domain
+    const exited = this.getActiveStates().filter(
+      (path) => path !== domain && isDescendantPath(path, domain),
+    );
+    for (const statePath of exited.reverse()) {
+      await this.runActions(
+        toActions(getStateNode(this.definition, statePath)?.exit),
+        fromState,
+        candidate.to ?? fromState,
+        event,
+      );
+    }
+    this.timers = this.timers.filter((timer) => !exited.includes(timer.state));
+    for (const statePath of exited) {
+      delete this.deadlines[statePath];
+    }
+
+    for (const region of Array.from(this.machines.keys())) {
+      if (
+        region !== candidate.region &&
+        region !== domain &&
+        isDescendantPath(region, domain)
+      ) {
+        this.machines.delete(region);
+      }
+    }
+
+    machine.take(candidate, event);
+    const toState = machine.state;
+    if (fromState !== toState) {
+      this.transitions.push({
+        fromState,
+        toState,
+        transitionId: candidate.id,
+        ...(this.raisedEvent && { event: this.raisedEvent }),
+      });
+    }
+
+    this.createRegionMachines(candidate.enteredLeaves, domain);
+
+    const entered = sortStatePaths(
+      this.definition,
+      candidate.enteredLeaves.flatMap((leaf) => getPathsBelow(leaf, domain)),
+    );
+    this.startTimers(entered);
+    this.startDeadlines(entered);
+
+    await this.runActions(candidate.actions, fromState, toState, event);
+
+    if (this.getStateValue() !== previousValue) {
+      for (const statePath of entered) {
+        await this.runActions(
+          toActions(getStateNode(this.definition, statePath)?.entry),
+          fromState,
+          toState,
+          event,
+        );
+      }
+    }
+
+    this.raiseDoneEvents(candidate.enteredLeaves);
+  }
+
+  private startTimers(statePaths: string[]): void {
+    const now = Date.now();
+    for (const statePath of statePaths) {
+      const after = getStateNode(this.definition, statePath)?.after ?? {};
+      for (const delay of Object.keys(after)) {
+        this.timers.push({
+          event: getAfterEventType(statePath, delay),
+          state: statePath,
+          dueAt: new Date(now + parseDelay(delay)!).toISOString(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Timeouts run from the entry of the state that declares them, so moving
+   * between its child states or in a sibling region leaves them untouched.
+   */
+  private startDeadlines(statePaths: string[]): void {
+    const now = Date.now();
+    for (const statePath of statePaths) {
+      const stateDef = getStateNode(this.definition, statePath);
+      const minutes = stateDef?.timeout?.minutes ?? stateDef?.timeoutMinutes;
+      if (typeof minutes === 'number') {
+        this.deadlines[statePath] = new Date(
+          now + minutes * 60 * 1000,
+        ).toISOString();
+      }
+    }
+  }
+
+  private async runActions(
+    actions: WorkflowActionEntry[],
+    fromState: string,
+    toState: string,
+    event: WorkflowEventPayload,
+  ): Promise<void> {
+    for (const entry of actions) {
+      const fn = typeof entry === 'function' ? entry : entry.fn;
+      const action =
+        this.actionStub && !isContextAction(fn) ? this.actionStub : fn;
+      try {
+        await action({
+          context: this.context,
+          event,
+          fromState,
+          toState,
+          spawn: (tableName, options) => this.spawn(tableName, options),
+          raise: (raised) => this.raiseFromAction(raised),
+          sendTo: (tableName, id, message) =>
+            this.messages.push({ tableName, id, event: { ...message } }),
+        });
+      } catch (error) {
+        throw new ActionFailure(error, getRetryPolicy(entry));
+      }
+    }
+  }
+
+  private raiseFromAction(event: WorkflowEventPayload): void {
+    if (typeof event?.type !== 'string' || event.type === '') {
+      throw new Error(
+        `Workflow ${this.workflowId} can only raise events with a type`,
+      );
+    }
+    const raised = { ...event };
+    this.raisedEvents.add(raised);
+    this.internalQueue.push(raised);
+  }
+
+  private spawn(tableName: string, options: SpawnChildOptions = {}): string {
+    const id = options.id ?? randomUUID();
+    this.children.push({ id, tableName });
+    this.spawned.push({
+      id,
+      tableName,
+      event: options.event ?? { type: WORKFLOW_INIT_EVENT },
+    });
+    return id;
+  }
+}
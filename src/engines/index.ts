@@ -1 +1,2 @@
 export { JavascriptStateMachineEngine } from './javascript-state-machine.engine';
+export { NativeWorkflowEngine } from './native.engine';
@@ -0,0 +1,49 @@
+import { DEFAULT_GUARD_TIMEOUT_MS } from '../workflow.constants';
+import type {
+  CreateRuntimeInput,
+  IWorkflowEngine,
+  IWorkflowRuntime,
+} from '../interfaces/workflow-engine.interface';
+import { validateWorkflowDefinition } from '../utils/validate-workflow-definition';
+import {
+  BaseWorkflowRuntime,
+  type CompiledTransition,
+  type RegionMachine,
+} from './base-workflow-runtime';
+
+/** Keeps each region's state as a plain string, without a state machine library. */
+class NativeWorkflowRuntime extends BaseWorkflowRuntime {
+  protected readonly engine = 'native' as const;
+
+  protected createMachine(_region: string, init: string): RegionMachine {
+    let state = init;
+
+    return {
+      get state() {
+        return state;
+      },
+      take(transition: CompiledTransition) {
+        state = transition.to!;
+      },
+    };
+  }
+}
+
+/**
+ * Interprets definitions directly. Reads and writes the same snapshots as
+ * `JavascriptStateMachineEngine`, so tables can switch between the two.
+ */
+export class NativeWorkflowEngine implements IWorkflowEngine {
+  createRuntime(input: CreateRuntimeInput): IWorkflowRuntime {
+    validateWorkflowDefinition(input.definition);
+
+    return new NativeWorkflowRuntime(
+      input.definition,
+      input.workflowId,
+      input.snapshot,
+      input.maxTransitionDepth,
+      input.guardTimeoutMs ?? DEFAULT_GUARD_TIMEOUT_MS,
+      input.actionStub,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+export class GuardTimeoutError extends Error {
+  constructor(
+    public readonly workflowId: string,
+    public readonly eventType: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(
+      `Guard evaluation for workflow ${workflowId} exceeded ${timeoutMs}ms ` +
+        `while handling event ${eventType}. The dispatch was aborted to release the row lock.`,
+    );
+    this.name = 'GuardTimeoutError';
+  }
+}
@@ -0,0 +1,14 @@
+import type { XStateConfigIssue } from '../interfaces/xstate-config.interface';
+
+export class UnsupportedXStateConfigError extends Error {
+  constructor(
+    public readonly machineId: string,
+    public readonly issues: XStateConfigIssue[],
+  ) {
+    super(
+      `XState config "${machineId}" cannot be converted:\n` +
+        issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n'),
+    );
+    this.name = 'UnsupportedXStateConfigError';
+  }
+}
@@ -0,0 +1,19 @@
+import type { WorkflowDefinitionDiagnostic } from '../interfaces/workflow-definition-diagnostic.interface';
+
+export class WorkflowDefinitionDiagnosticsError extends Error {
+  constructor(
+    public readonly definitionId: string,
+    public readonly diagnostics: WorkflowDefinitionDiagnostic[],
+  ) {
+    super(
+      `Workflow definition ${definitionId} failed strict validation:\n` +
+        diagnostics
+          .map(
+            (diagnostic) =>
+              `- ${diagnostic.statePath} (${diagnostic.code}): ${diagnostic.message}`,
+          )
+          .join('\n'),
+    );
+    this.name = 'WorkflowDefinitionDiagnosticsError';
+  }
+}
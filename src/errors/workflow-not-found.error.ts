@@ -0,0 +1,9 @@
+export class WorkflowNotFoundError extends Error {
+  constructor(
+    public readonly tableName: string,
+    public readonly workflowId: string,
+  ) {
+    super(`Workflow ${workflowId} not found in table "${tableName}".`);
+    this.name = 'WorkflowNotFoundError';
+  }
+}
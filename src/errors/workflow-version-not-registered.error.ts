@@ -0,0 +1,12 @@
+export class WorkflowVersionNotRegisteredError extends Error {
+  constructor(
+    public readonly tableName: string,
+    public readonly version: number,
+  ) {
+    super(
+      `Version ${version} of workflow "${tableName}" is not registered. ` +
+        `Keep every version that still has live instances in the @WorkflowEntity definitions.`,
+    );
+    this.name = 'WorkflowVersionNotRegisteredError';
+  }
+}
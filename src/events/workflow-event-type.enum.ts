@@ -1,6 +1,8 @@
 export enum WorkflowEventType {
   TRANSITION = 'workflow.transition',
   CREATED = 'workflow.created',
+  CANCELLED = 'workflow.cancelled',
+  COMPENSATED = 'workflow.compensated',
   TIMEOUT_TRIGGERED = 'workflow.timeout.triggered',
   TRANSITION_ERROR = 'workflow.transition.error',
 }
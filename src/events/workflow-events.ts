@@ -1,3 +1,5 @@
+import type { WorkflowErrorInfo } from '../interfaces/durable-workflow-definition.interface';
+
 export interface WorkflowTransitionEvent {
   workflowType: string;
   instanceId: string;
@@ -8,6 +10,21 @@ export interface WorkflowTransitionEvent {
   timestamp: Date;
 }
 
+export interface WorkflowTransitionErrorEvent {
+  workflowType: string;
+  instanceId: string;
+  /** State value the failed step started from. */
+  state: string;
+  /** Event being processed when the action threw. */
+  eventType: string;
+  error: WorkflowErrorInfo;
+  /** False when no `onError` handled the failure and the instance is now in `error`. */
+  handled: boolean;
+  /** Set when a retry policy scheduled another attempt instead of `onError`. */
+  retryAt?: Date;
+  timestamp: Date;
+}
+
 export interface WorkflowCreatedEvent {
   workflowType: string;
   instanceId: string;
@@ -15,10 +32,31 @@ export interface WorkflowCreatedEvent {
   timestamp: Date;
 }
 
+export interface WorkflowCancelledEvent {
+  workflowType: string;
+  instanceId: string;
+  /** State value the instance was in when it was cancelled. */
+  state: string;
+  timestamp: Date;
+}
+
+export interface WorkflowCompensatedEvent {
+  workflowType: string;
+  instanceId: string;
+  /** State value the instance was in when compensation finished. */
+  state: string;
+  /** Reason passed to `WorkflowManager.compensate()`. */
+  reason: string;
+  timestamp: Date;
+}
+
 export interface WorkflowTimeoutTriggeredEvent {
   workflowType: string;
   instanceId: string;
+  /** State whose timeout or `after` timer expired (dot-notation path). */
   state: string;
+  /** Event sent to the instance: the timeout event or an `after` timer event. */
+  eventType: string;
   expiredAt: Date;
   timestamp: Date;
 }
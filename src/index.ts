@@ -4,7 +4,10 @@ export { WorkflowModule } from './workflow.module';
 // Services
 export { WorkflowManager } from './services/workflow-manager.service';
 export { WorkflowRegistry } from './services/workflow-registry.service';
+export type { WorkflowRegistryOptions } from './services/workflow-registry.service';
 export { TimeoutCronService } from './services/timeout-cron.service';
+export { OutboxRelayService } from './services/outbox-relay.service';
+export type { OutboxDispatchResult } from './services/outbox-relay.service';
 export type {
   TimeoutCronOptions,
   TimeoutProcessingFailure,
@@ -14,33 +17,101 @@ export type {
 // Decorators
 export { WorkflowEntity } from './decorators/workflow-entity.decorator';
 export { JavascriptStateMachineEngine } from './engines/javascript-state-machine.engine';
+export { NativeWorkflowEngine } from './engines/native.engine';
 
 // Interfaces
 export { IWorkflowDbAdapter } from './interfaces/workflow-db-adapter.interface';
 export type {
   DurableWorkflowDefinition,
   DurableStateDefinition,
+  DurableSnapshot,
   DurableSnapshotV1,
+  DurableSnapshotV2,
+  DurableChildRef,
+  DurableTimer,
+  RetryPolicy,
+  SpawnChildOptions,
+  StateTimeoutConfig,
   TransitionConfig,
   TransitionRule,
   WorkflowAction,
+  WorkflowActionConfig,
+  WorkflowActionEntry,
+  WorkflowActionHelpers,
+  WorkflowErrorInfo,
   WorkflowGuard,
+  WorkflowSnapshotMigration,
+  WorkflowStatus,
 } from './interfaces/durable-workflow-definition.interface';
+export type {
+  DeclarativeAction,
+  DeclarativeGuard,
+  DeclarativePlainAction,
+  DeclarativeStateDefinition,
+  DeclarativeTransitionConfig,
+  DeclarativeTransitionRule,
+  DeclarativeTransitions,
+  DeclarativeWorkflowDefinition,
+  WorkflowActionImplementation,
+  WorkflowActionReference,
+  WorkflowGuardImplementation,
+  WorkflowGuardReference,
+  WorkflowImplementationReference,
+  WorkflowImplementations,
+} from './interfaces/declarative-workflow-definition.interface';
 export type {
   IWorkflowEngine,
   IWorkflowRuntime,
+  RuntimeError,
   RuntimeSendResult,
+  RuntimeSpawnedChild,
+  RuntimeMessage,
   RuntimeTransition,
 } from './interfaces/workflow-engine.interface';
 export {
   WorkflowRecord,
   HistoryRecord,
+  OutboxFilter,
+  OutboxRecord,
+  ExpiredWorkflowRecord,
+  TimerRecord,
   WorkflowResult,
 } from './interfaces/workflow-records.interface';
 export {
   WorkflowModuleOptions,
   WorkflowModuleAsyncOptions,
 } from './interfaces/workflow-module-options.interface';
+export type {
+  XStateActionReference,
+  XStateConfigIssue,
+  XStateGuardReference,
+  XStateImplementations,
+  XStateMachineConfig,
+  XStateStateNodeConfig,
+  XStateTransitionConfig,
+  XStateTransitionRule,
+  XStateTransitions,
+} from './interfaces/xstate-config.interface';
+export type {
+  WorkflowAvailableEvent,
+  WorkflowAvailableEventsOptions,
+  WorkflowContextChange,
+  WorkflowSimulationOptions,
+  WorkflowSimulationResult,
+} from './interfaces/workflow-simulation.interface';
+export type {
+  WorkflowDefinitionDiagnostic,
+  WorkflowDefinitionDiagnosticCode,
+} from './interfaces/workflow-definition-diagnostic.interface';
+export type {
+  WorkflowTestPathOptions,
+  WorkflowTestPaths,
+  WorkflowTestPlan,
+} from './interfaces/workflow-test-paths.interface';
+export type {
+  WorkflowDiagramFormat,
+  WorkflowDiagramOptions,
+} from './interfaces/workflow-diagram.interface';
 
 // Adapters
 export { DrizzleWorkflowAdapter } from './adapters/drizzle-workflow.adapter';
@@ -54,20 +125,57 @@ export {
 
 // Errors
 export { RecursiveTransitionError } from './errors/recursive-transition.error';
+export { GuardTimeoutError } from './errors/guard-timeout.error';
 export { InvalidSnapshotError } from './errors/invalid-snapshot.error';
+export { WorkflowNotFoundError } from './errors/workflow-not-found.error';
 export { WorkflowNotRegisteredError } from './errors/workflow-not-registered.error';
+export { WorkflowVersionNotRegisteredError } from './errors/workflow-version-not-registered.error';
 export { DuplicateRegistrationError } from './errors/duplicate-registration.error';
+export { UnsupportedXStateConfigError } from './errors/unsupported-xstate-config.error';
+export { WorkflowDefinitionDiagnosticsError } from './errors/workflow-definition-diagnostics.error';
 
 // Events
 export { WorkflowEventType } from './events/workflow-event-type.enum';
 export {
   WorkflowTransitionEvent,
+  WorkflowTransitionErrorEvent,
   WorkflowCreatedEvent,
+  WorkflowCancelledEvent,
+  WorkflowCompensatedEvent,
   WorkflowTimeoutTriggeredEvent,
 } from './events/workflow-events';
 
 // CLI
-export { generateMigration } from './cli/generate-migration';
+export {
+  generateMigration,
+  generateUpgradeMigration,
+} from './cli/generate-migration';
+
+// Actions
+export { assign } from './utils/assign';
+
+// Converters
+export { fromXStateConfig } from './utils/from-xstate-config';
+export {
+  loadWorkflowDefinition,
+  parseWorkflowDefinition,
+} from './utils/load-workflow-definition';
+export type { WorkflowDefinitionFormat } from './utils/load-workflow-definition';
+export { resolveDeclarativeDefinition } from './utils/resolve-declarative-definition';
+
+// Validation
+export { analyzeWorkflowDefinition } from './utils/analyze-workflow-definition';
+export { validateWorkflowDefinition } from './utils/validate-workflow-definition';
+export type { ValidateWorkflowDefinitionOptions } from './utils/validate-workflow-definition';
+
+// Testing
+export { generateTestPaths } from './utils/generate-test-paths';
+
+// Diagrams
+export { generateDiagram } from './utils/generate-diagram';
+
+// State Tags
+export { getStateMeta, getStateTags } from './utils/state-tags';
 
 // Constants
 export {
@@ -77,5 +185,17 @@ export {
   DEFAULT_CRON_EXPRESSION,
   DEFAULT_TIMEOUT_EVENT,
   DEFAULT_MAX_DEPTH,
+  DEFAULT_GUARD_TIMEOUT_MS,
+  DEFAULT_OUTBOX_BATCH_SIZE,
+  DEFAULT_DEFINITION_VERSION,
+  WORKFLOW_INIT_EVENT,
+  WORKFLOW_CANCEL_EVENT,
+  WORKFLOW_COMPENSATE_EVENT,
+  WORKFLOW_MIGRATE_EVENT,
+  WORKFLOW_ERROR_EVENT,
+  WORKFLOW_RETRY_EVENT_PREFIX,
+  WORKFLOW_MESSAGE_EVENT,
+  DONE_CHILD_EVENT_PREFIX,
+  WILDCARD_EVENT,
   WORKFLOW_ENTITY_METADATA,
 } from './workflow.constants';
@@ -0,0 +1,99 @@
+import type {
+  DurableStateDefinition,
+  DurableWorkflowDefinition,
+  RetryPolicy,
+  TransitionConfig,
+  WorkflowAction,
+  WorkflowActionEntry,
+  WorkflowActionHelpers,
+  WorkflowActionInput,
+  WorkflowGuard,
+} from './durable-workflow-definition.interface';
+
+/**
+ * Names a guard or action of the registry. `params` are passed to the
+ * implementation on every call.
+ */
+export interface WorkflowImplementationReference {
+  type: string;
+  params?: Record<string, unknown>;
+}
+
+export type WorkflowGuardReference = string | WorkflowImplementationReference;
+
+export interface WorkflowActionReference extends WorkflowImplementationReference {
+  retry?: RetryPolicy;
+}
+
+export type DeclarativeGuard = WorkflowGuard | WorkflowGuardReference;
+
+export type DeclarativeAction =
+  | WorkflowActionEntry
+  | string
+  | WorkflowActionReference;
+
+/** Entry, exit and compensation actions, which cannot retry. */
+export type DeclarativePlainAction =
+  | WorkflowAction
+  | string
+  | WorkflowImplementationReference;
+
+export interface DeclarativeTransitionConfig extends Omit<
+  TransitionConfig,
+  'guard' | 'actions' | 'onError' | 'compensate'
+> {
+  guard?: DeclarativeGuard;
+  actions?: DeclarativeAction | DeclarativeAction[];
+  onError?: DeclarativeTransitionRule | DeclarativeTransitionRule[];
+  compensate?: DeclarativePlainAction | DeclarativePlainAction[];
+}
+
+export type DeclarativeTransitionRule = string | DeclarativeTransitionConfig;
+
+export type DeclarativeTransitions =
+  | DeclarativeTransitionRule
+  | DeclarativeTransitionRule[];
+
+export interface DeclarativeStateDefinition extends Omit<
+  DurableStateDefinition,
+  'states' | 'onDone' | 'after' | 'on' | 'always' | 'onError' | 'entry' | 'exit'
+> {
+  states?: Record<string, DeclarativeStateDefinition>;
+  onDone?: DeclarativeTransitions;
+  after?: Record<string, DeclarativeTransitions>;
+  on?: Record<string, DeclarativeTransitions>;
+  always?: DeclarativeTransitions;
+  onError?: DeclarativeTransitions;
+  entry?: DeclarativePlainAction | DeclarativePlainAction[];
+  exit?: DeclarativePlainAction | DeclarativePlainAction[];
+}
+
+/**
+ * Definition whose guards and actions may be referenced by name, so it can
+ * be stored as JSON or YAML. Names are resolved against the module's
+ * `implementations` when the workflow is registered. Inline functions are
+ * still accepted.
+ */
+export interface DeclarativeWorkflowDefinition extends Omit<
+  DurableWorkflowDefinition,
+  'states' | 'on'
+> {
+  states: Record<string, DeclarativeStateDefinition>;
+  on?: Record<string, DeclarativeTransitions>;
+}
+
+export type WorkflowGuardImplementation = (
+  input: WorkflowActionInput,
+  params: Record<string, unknown>,
+) => boolean | PromiseLike<boolean>;
+
+export type WorkflowActionImplementation = (
+  input: WorkflowActionInput & WorkflowActionHelpers,
+  params: Record<string, unknown>,
+) => void | Promise<void>;
+
+/** Guards and actions that declarative definitions reference by name. */
+export interface WorkflowImplementations {
+  guards?: Record<string, WorkflowGuardImplementation>;
+  actions?: Record<string, WorkflowActionImplementation>;
+}
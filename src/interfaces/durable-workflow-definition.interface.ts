@@ -10,41 +10,209 @@ export interface WorkflowActionInput {
   toState: string;
 }
 
-export type WorkflowGuard = (input: WorkflowActionInput) => boolean;
-export type WorkflowAction = (
+/**
+ * Guards may be asynchronous. They are evaluated in declaration order while
+ * the row lock is held, so each evaluation is bounded by `guardTimeoutMs`.
+ */
+export type WorkflowGuard = (
   input: WorkflowActionInput,
+) => boolean | PromiseLike<boolean>;
+export interface SpawnChildOptions {
+  /** Child instance ID. Defaults to a random UUID. */
+  id?: string;
+  /** First event sent to the child. Defaults to `{ type: 'workflow.init' }`. */
+  event?: WorkflowEventPayload;
+}
+
+export interface WorkflowActionHelpers {
+  /**
+   * Starts a child instance in another registered workflow table once the
+   * current send has been persisted, and returns the child ID. The parent
+   * receives `done.child.<id>` when the child reaches a final state.
+   */
+  spawn(tableName: string, options?: SpawnChildOptions): string;
+  /**
+   * Queues an event for this instance. Raised events are processed in order
+   * once the current transition has settled, within the same send and
+   * transaction, and count towards `maxTransitionDepth`.
+   */
+  raise(event: WorkflowEventPayload): void;
+  /**
+   * Sends an event to an instance of a registered workflow table once the
+   * current send has committed. The message is stored with the sender's
+   * changes and delivered exactly once through `WorkflowManager.send`.
+   */
+  sendTo(tableName: string, id: string, event: WorkflowEventPayload): void;
+}
+
+export type WorkflowAction = (
+  input: WorkflowActionInput & WorkflowActionHelpers,
 ) => void | Promise<void>;
 
+export interface RetryPolicy {
+  /** Maximum number of executions, including the first one. */
+  attempts: number;
+  /** `'exponential'` (default) doubles the delay after every retry. */
+  backoff?: 'exponential' | 'fixed';
+  /** Delay before the first retry. */
+  initialDelayMs: number;
+}
+
+export interface WorkflowActionConfig {
+  fn: WorkflowAction;
+  /**
+   * Retries the transition through a persisted timer when `fn` throws.
+   * `onError` handling starts once every attempt has failed.
+   */
+  retry?: RetryPolicy;
+}
+
+export type WorkflowActionEntry = WorkflowAction | WorkflowActionConfig;
+
 export interface TransitionConfig {
   /** Optional target state. If omitted, actions run without a state change. */
   target?: string;
   guard?: WorkflowGuard;
-  actions?: WorkflowAction | WorkflowAction[];
+  actions?: WorkflowActionEntry | WorkflowActionEntry[];
+  /**
+   * Taken instead of this transition when one of its actions (including the
+   * exit and entry actions it triggers) throws. Checked before state `onError`.
+   */
+  onError?: TransitionRule | TransitionRule[];
+  /**
+   * Undoes the effects of this transition during `WorkflowManager.compensate()`.
+   * Only transitions that change state are recorded in history and compensated.
+   */
+  compensate?: WorkflowAction | WorkflowAction[];
 }
 
 export type TransitionRule = string | TransitionConfig;
 
+export interface StateTimeoutConfig {
+  minutes: number;
+  /** Event sent on expiry. Defaults to the module `timeoutEventType`. */
+  event?: string;
+  /** Extra fields merged into the timeout event. */
+  payload?: Record<string, unknown>;
+}
+
 export interface DurableStateDefinition {
   /** Final-state marker (preferred). */
   final?: boolean;
-  /** Legacy compatibility marker accepted in definitions. */
-  type?: 'final';
+  /**
+   * `'parallel'` makes every child state an orthogonal region that is active
+   * at the same time. `'final'` is a legacy final-state marker.
+   */
+  type?: 'final' | 'parallel';
+  /** Child state entered when this compound state is entered. Required with `states` unless parallel. */
+  initial?: string;
+  /** Child states. Makes this a compound (hierarchical) state. */
+  states?: Record<string, DurableStateDefinition>;
+  /**
+   * Taken when a compound state reaches a final child, or when every region
+   * of a parallel state has reached a final state.
+   */
+  onDone?: TransitionRule | TransitionRule[];
+  /** Shorthand for `timeout: { minutes }`. */
   timeoutMinutes?: number;
+  timeout?: StateTimeoutConfig;
+  /**
+   * Delayed transitions keyed by delay ("30s", "15m", "24h", "7d" or plain
+   * milliseconds). Timers start when the state is entered, are cancelled
+   * when it is exited and are fired by the timeout cron.
+   */
+  after?: Record<string, TransitionRule | TransitionRule[]>;
+  /**
+   * Transitions keyed by event type. The `'*'` key handles any event that
+   * neither this state, its ancestors nor the definition declare: explicit
+   * handlers are looked up on every ancestor before any wildcard.
+   * Runtime-internal events (`error.execution`, `done.*`, timers and
+   * `workflow.init`) never match it.
+   */
   on?: Record<string, TransitionRule | TransitionRule[]>;
   always?: TransitionRule | TransitionRule[];
+  /**
+   * Taken when an action throws while this state (or a descendant) is
+   * active. Shorthand for `on: { 'error.execution': ... }`.
+   */
+  onError?: TransitionRule | TransitionRule[];
   entry?: WorkflowAction | WorkflowAction[];
   exit?: WorkflowAction | WorkflowAction[];
+  /**
+   * Semantic labels such as `'awaiting-customer'`, shared by the nested
+   * states. Used by `WorkflowManager.findByTag`.
+   */
+  tags?: string[];
+  /** Free-form data about the state, e.g. `{ sla: 'P1' }`. Never read by the runtime. */
+  meta?: Record<string, unknown>;
 }
 
+/**
+ * Upgrades the snapshot of an instance created with an older version to the
+ * version declaring it. `fromVersion` is the instance's current version.
+ * Return `timers: undefined` to restart the timers of the active states.
+ */
+export type WorkflowSnapshotMigration = (
+  fromVersion: number,
+  snapshot: DurableSnapshot,
+) => DurableSnapshot;
+
 export interface DurableWorkflowDefinition {
   id: string;
+  /**
+   * Positive integer identifying this revision of the definition. Defaults
+   * to 1. Instances keep running on the version they were created with.
+   */
+  version?: number;
+  /**
+   * Moves instances of older versions to this version when they are loaded.
+   * Without it, instances stay on their version.
+   */
+  migrate?: WorkflowSnapshotMigration;
   initial: string;
   context: Record<string, unknown>;
   states: Record<string, DurableStateDefinition>;
+  /**
+   * Event handlers inherited by every top-level non-final state that does
+   * not declare the same event, e.g. `{ CANCEL: 'cancelled' }`. Targets
+   * are top-level state names.
+   */
+  on?: Record<string, TransitionRule | TransitionRule[]>;
 }
 
-export type WorkflowStatus = 'active' | 'done' | 'error';
+export type WorkflowStatus =
+  | 'active'
+  | 'done'
+  | 'error'
+  | 'cancelled'
+  | 'compensating'
+  | 'compensated';
+
+/** Serializable description of an action failure. */
+export interface WorkflowErrorInfo {
+  name: string;
+  message: string;
+}
+
+export interface DurableTimer {
+  /** Internal event sent when the timer fires. */
+  event: string;
+  /** State path that declared the delayed transition. */
+  state: string;
+  /** ISO-8601 due time. */
+  dueAt: string;
+  /** Event being retried, for timers scheduled by a retry policy. */
+  retryEvent?: WorkflowEventPayload;
+  /** Attempt number of the scheduled retry (the first execution is 1). */
+  attempt?: number;
+}
 
+export interface DurableChildRef {
+  id: string;
+  tableName: string;
+}
+
+/** Envelope written before snapshots carried metadata. Read, never written. */
 export interface DurableSnapshotV1 {
   schema: 'durable-workflow-snapshot';
   version: 1;
@@ -52,4 +220,42 @@ export interface DurableSnapshotV1 {
   state: string;
   status: WorkflowStatus;
   context: Record<string, unknown>;
+  /** Pending `after` timers. Absent in snapshots written before timers existed. */
+  timers?: DurableTimer[];
+  /** Child instances spawned by this workflow that have not completed yet. */
+  children?: DurableChildRef[];
+  /** Definition version the instance was created with. Absent means 1. */
+  definitionVersion?: number;
 }
+
+/** Current envelope. V1 snapshots are upgraded the next time they are written. */
+export interface DurableSnapshotV2 extends Omit<
+  DurableSnapshotV1,
+  'version' | 'engine'
+> {
+  version: 2;
+  /** Engine that wrote the snapshot. Either engine reads both. */
+  engine: 'js-state-machine' | 'native';
+  /** `id` of the definition the snapshot was written with. */
+  definitionId: string;
+  /** SHA-256 of the definition structure; changes whenever the definition does. */
+  definitionHash: string;
+  /** ISO-8601 creation time. Null for instances created before V2. */
+  createdAt: string | null;
+  /** Type of the last event sent to the instance. */
+  lastEventType: string | null;
+  /**
+   * Number of transitions taken since creation, or since the upgrade to V2
+   * for older instances.
+   */
+  sequence: number;
+  /**
+   * ISO-8601 timeout deadline of each active state that declares `timeout`
+   * or `timeoutMinutes`, keyed by state path. Set when the state is entered
+   * and kept until it is exited. Absent in snapshots written before
+   * deadlines were tracked.
+   */
+  deadlines?: Record<string, string>;
+}
+
+export type DurableSnapshot = DurableSnapshotV1 | DurableSnapshotV2;
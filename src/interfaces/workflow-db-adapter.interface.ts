@@ -1,4 +1,11 @@
-import { WorkflowRecord, HistoryRecord } from './workflow-records.interface';
+import {
+  ExpiredWorkflowRecord,
+  WorkflowRecord,
+  HistoryRecord,
+  OutboxFilter,
+  OutboxRecord,
+  TimerRecord,
+} from './workflow-records.interface';
 
 export interface IWorkflowDbAdapter {
   /**
@@ -32,16 +39,89 @@ export interface IWorkflowDbAdapter {
   ): Promise<void>;
 
   /**
-   * Find all workflow instances with expires_at in the past.
+   * Find the transition history of a workflow instance, oldest first.
    */
-  findExpired(tableName: string): Promise<{ id: string }[]>;
+  findHistory(tableName: string, workflowId: string): Promise<HistoryRecord[]>;
+
+  /**
+   * Find all workflow instances with expires_at in the past, with their
+   * current state value so the state-specific timeout event can be resolved.
+   */
+  findExpired(tableName: string): Promise<ExpiredWorkflowRecord[]>;
+
+  /**
+   * Replace the pending `after` timers of a workflow instance
+   * in the `{tableName}_timers` table.
+   */
+  replaceTimers(
+    tableName: string,
+    workflowId: string,
+    timers: Omit<TimerRecord, 'workflowId'>[],
+  ): Promise<void>;
+
+  /**
+   * Find all pending `after` timers whose due time has passed.
+   */
+  findDueTimers(tableName: string): Promise<TimerRecord[]>;
+
+  /**
+   * Insert a lifecycle event into the `{tableName}_outbox` table.
+   * Called inside the transaction that persists the change it describes.
+   */
+  insertOutbox(
+    tableName: string,
+    data: Pick<OutboxRecord, 'workflowId' | 'eventType' | 'payload'>,
+  ): Promise<void>;
+
+  /**
+   * Find undispatched outbox events, oldest first, optionally filtered by
+   * event type. Uses FOR UPDATE SKIP LOCKED so concurrent relays never
+   * share a row.
+   */
+  findPendingOutbox(
+    tableName: string,
+    limit: number,
+    filter?: OutboxFilter,
+  ): Promise<OutboxRecord[]>;
+
+  /**
+   * Mark an outbox event as published.
+   */
+  markOutboxDispatched(tableName: string, id: string): Promise<void>;
+
+  /**
+   * Record a failed publish attempt. The event stays pending.
+   */
+  markOutboxFailed(tableName: string, id: string, error: string): Promise<void>;
 
   /**
    * Find all workflow instances in a given state.
+   * A parent state path also matches instances in any of its nested states
+   * (e.g. "shipping" matches "shipping.awaitingCarrier"), and instances in
+   * parallel states match on any of their comma-separated active leaves.
    * Enables consumer-driven cleanup/archival of completed workflows.
    */
   findByState(tableName: string, stateValue: string): Promise<WorkflowRecord[]>;
 
+  /**
+   * Find all workflow instances with at least one active leaf among the
+   * given state paths, matched exactly. Used to resolve state tags
+   * (`WorkflowManager.findByTag`). An empty list matches nothing.
+   */
+  findByStates(
+    tableName: string,
+    statePaths: string[],
+  ): Promise<WorkflowRecord[]>;
+
+  /**
+   * Find all workflow instances whose `snapshot.definitionVersion` (1 when
+   * absent) is lower than the given version.
+   */
+  findOutdated(
+    tableName: string,
+    definitionVersion: number,
+  ): Promise<WorkflowRecord[]>;
+
   /**
    * Execute a callback within a database transaction.
    * The callback receives an adapter instance bound to the transaction.
@@ -0,0 +1,19 @@
+export type WorkflowDefinitionDiagnosticCode =
+  /** No transition leads to the state from the initial state. */
+  | 'unreachable-state'
+  /** A non-final state that can never be left. */
+  | 'dead-end-state'
+  /** Unguarded `always` transitions that loop until `maxTransitionDepth`. */
+  | 'always-cycle'
+  /** Rules declared after an unguarded rule for the same trigger. */
+  | 'shadowed-rule'
+  /** Transitions declared on a final state, which are never taken. */
+  | 'final-state-transition';
+
+/** A problem found by `analyzeWorkflowDefinition`. */
+export interface WorkflowDefinitionDiagnostic {
+  code: WorkflowDefinitionDiagnosticCode;
+  /** State the problem was found on. */
+  statePath: string;
+  message: string;
+}
@@ -0,0 +1,8 @@
+export type WorkflowDiagramFormat = 'mermaid' | 'dot';
+
+export interface WorkflowDiagramOptions {
+  /** Defaults to `'mermaid'`. */
+  format?: WorkflowDiagramFormat;
+  /** State value of an instance, whose active states are highlighted. */
+  currentState?: string;
+}
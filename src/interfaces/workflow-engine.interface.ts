@@ -1,18 +1,63 @@
 import type {
-  DurableSnapshotV1,
+  DurableChildRef,
+  DurableSnapshotV2,
   DurableWorkflowDefinition,
+  WorkflowAction,
+  WorkflowErrorInfo,
   WorkflowEventPayload,
 } from './durable-workflow-definition.interface';
 
 export interface RuntimeTransition {
   fromState: string;
   toState: string;
+  /** Stable id of the definition transition that was taken. */
+  transitionId?: string;
+  /** Event raised by an action that led to this transition. Defaults to the sent event. */
+  event?: WorkflowEventPayload;
+}
+
+export interface RuntimeCompensationStep {
+  /** `transitionId` of the history row being compensated. */
+  transitionId: string;
+  fromState: string;
+  toState: string;
+  /** Passed to the compensation actions as `event`. */
+  event: WorkflowEventPayload;
+}
+
+export interface RuntimeSpawnedChild extends DurableChildRef {
+  event: WorkflowEventPayload;
+}
+
+export interface RuntimeMessage {
+  tableName: string;
+  id: string;
+  event: WorkflowEventPayload;
+}
+
+export interface RuntimeError extends WorkflowErrorInfo {
+  /** State value the failed step started from. */
+  state: string;
+  /** Event being processed when the action threw. */
+  eventType: string;
+  /** Whether an `onError` transition or a scheduled retry handled the failure. */
+  handled: boolean;
+  /** ISO-8601 time of the retry scheduled by the action's retry policy. */
+  retryAt?: string;
 }
 
 export interface RuntimeSendResult {
   stateValue: string;
   done: boolean;
   transitions: RuntimeTransition[];
+  /** Children spawned by actions during this send, in spawn order. */
+  spawned?: RuntimeSpawnedChild[];
+  /** Messages sent to other instances with `sendTo`, in send order. */
+  messages?: RuntimeMessage[];
+  /** Last action failure of this send. */
+  error?: RuntimeError;
+  /** Whether an active state handled the event, even without changing state. */
+  handled?: boolean;
 }
 
 export interface RuntimeSnapshot {
@@ -23,8 +68,13 @@ export interface RuntimeSnapshot {
 
 export interface IWorkflowRuntime {
   send(event: WorkflowEventPayload): Promise<RuntimeSendResult>;
+  /**
+   * Runs the `compensate` actions of a previously taken transition against
+   * the runtime context. Resolves false when the transition declares none.
+   */
+  compensate(step: RuntimeCompensationStep): Promise<boolean>;
   getSnapshot(): RuntimeSnapshot;
-  dehydrate(): DurableSnapshotV1;
+  dehydrate(): DurableSnapshotV2;
 }
 
 export interface CreateRuntimeInput {
@@ -32,6 +82,14 @@ export interface CreateRuntimeInput {
   snapshot?: Record<string, unknown>;
   maxTransitionDepth: number;
   workflowId: string;
+  /** Max time a single guard may take. Defaults to DEFAULT_GUARD_TIMEOUT_MS. */
+  guardTimeoutMs?: number;
+  /**
+   * Runs in place of every entry, exit and transition action that was not
+   * created by `assign`. Used by `WorkflowManager.simulate`, so engines
+   * must honour it.
+   */
+  actionStub?: WorkflowAction;
 }
 
 export interface IWorkflowEngine {
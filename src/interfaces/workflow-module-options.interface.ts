@@ -1,5 +1,6 @@
 import { IWorkflowDbAdapter } from './workflow-db-adapter.interface';
 import type { IWorkflowEngine } from './workflow-engine.interface';
+import type { WorkflowImplementations } from './declarative-workflow-definition.interface';
 
 export interface WorkflowModuleOptions {
   /** Database adapter instance implementing IWorkflowDbAdapter */
@@ -13,11 +14,27 @@ export interface WorkflowModuleOptions {
   /** Event type sent to expired workflows. Default: 'TIMEOUT' */
   timeoutEventType?: string;
 
-  /** Enable internal timeout cron registration. Default: true */
+  /**
+   * Enable internal timeout cron registration. Default: true. The cron also
+   * retries pending outbox events, so call
+   * `TimeoutCronService.processExpiredWorkflows()` yourself when disabled.
+   */
   enableTimeoutCron?: boolean;
 
   /** Max recursive transition depth. Default: 100 */
   maxTransitionDepth?: number;
+
+  /** Max time a single guard may take before the dispatch fails. Default: 5000 */
+  guardTimeoutMs?: number;
+
+  /** Guards and actions that definitions reference by name. Default: none */
+  implementations?: WorkflowImplementations;
+
+  /**
+   * Fail registration when `analyzeWorkflowDefinition` reports diagnostics
+   * for the latest version of a definition, instead of logging them. Default: false
+   */
+  strictDefinitions?: boolean;
 }
 
 export interface WorkflowModuleAsyncOptions {
@@ -1,9 +1,26 @@
+import type { WorkflowStatus } from './durable-workflow-definition.interface';
+
 export interface WorkflowRecord {
   id: string;
   stateValue: string;
   snapshot: Record<string, unknown>;
   expiresAt: Date | null;
   updatedAt: Date;
+  /** Table of the workflow that spawned this instance, if any. Set on insert only. */
+  parentTable?: string | null;
+  /** ID of the workflow that spawned this instance, if any. Set on insert only. */
+  parentId?: string | null;
+}
+
+/** Live row fields returned by the expiry scan of the timeout cron. */
+export interface ExpiredWorkflowRecord extends Pick<
+  WorkflowRecord,
+  'id' | 'stateValue'
+> {
+  /** `snapshot.definitionVersion`, when the snapshot records one. */
+  definitionVersion?: number;
+  /** `snapshot.deadlines`, when the snapshot records them. */
+  deadlines?: Record<string, string>;
 }
 
 export interface HistoryRecord {
@@ -14,6 +31,35 @@ export interface HistoryRecord {
   eventType: string;
   eventPayload: Record<string, unknown>;
   transitionedAt: Date;
+  /** Definition transition that produced the row, used for compensation. */
+  transitionId?: string | null;
+}
+
+export interface TimerRecord {
+  workflowId: string;
+  eventType: string;
+  dueAt: Date;
+}
+
+export interface OutboxRecord {
+  id: string;
+  workflowId: string;
+  /** Event name published by the relay (e.g. "workflow.transition"). */
+  eventType: string;
+  payload: Record<string, unknown>;
+  createdAt: Date;
+  /** Set once the relay has published the event. */
+  dispatchedAt: Date | null;
+  /** Number of failed publish attempts. */
+  attempts: number;
+  lastError: string | null;
+}
+
+/** Restricts `findPendingOutbox` to the rows of one event type. */
+export interface OutboxFilter {
+  eventType: string;
+  /** Returns every row except those of `eventType` instead. */
+  exclude?: boolean;
 }
 
 export interface WorkflowResult {
@@ -27,4 +73,6 @@ export interface WorkflowResult {
   transitionCount: number;
   /** Whether the machine reached a final state */
   done: boolean;
+  /** Lifecycle status persisted in the snapshot */
+  status: WorkflowStatus;
 }
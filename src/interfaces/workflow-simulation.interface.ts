@@ -0,0 +1,62 @@
+import type {
+  WorkflowAction,
+  WorkflowStatus,
+} from './durable-workflow-definition.interface';
+import type {
+  RuntimeError,
+  RuntimeMessage,
+  RuntimeSpawnedChild,
+  RuntimeTransition,
+} from './workflow-engine.interface';
+
+export interface WorkflowSimulationOptions {
+  /**
+   * Runs in place of every entry, exit and transition action, e.g. to
+   * emulate the context changes of the real actions. Actions created by
+   * `assign` still run. Defaults to a no-op.
+   */
+  actionStub?: WorkflowAction;
+}
+
+/** Value of a top-level context key before and after the simulated send. */
+export interface WorkflowContextChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface WorkflowSimulationResult {
+  /** The workflow instance ID */
+  id: string;
+  /** The state value the instance would settle in */
+  stateValue: string;
+  /** Whether the instance would reach a final state */
+  done: boolean;
+  status: WorkflowStatus;
+  /** Transitions that would be recorded in history */
+  transitions: RuntimeTransition[];
+  /** Context keys that `assign` actions or the stub would change, keyed by name. */
+  contextChanges: Record<string, WorkflowContextChange>;
+  /** Timeout expiry the instance would get, or null */
+  expiresAt: Date | null;
+  /** Children that would be spawned */
+  spawned: RuntimeSpawnedChild[];
+  /** Messages that would be sent with `sendTo` */
+  messages: RuntimeMessage[];
+  /** Last action failure, when the stub throws */
+  error?: RuntimeError;
+}
+
+export interface WorkflowAvailableEventsOptions {
+  /**
+   * Payload fields to check each event type with, keyed by type, so guards
+   * that read the event see realistic values.
+   */
+  payloads?: Record<string, Record<string, unknown>>;
+}
+
+/** An event the instance accepts in its current state. */
+export interface WorkflowAvailableEvent {
+  type: string;
+  /** The state value the instance would settle in, with only `assign` actions run */
+  target: string;
+}
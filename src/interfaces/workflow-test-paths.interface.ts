@@ -0,0 +1,42 @@
+import type {
+  WorkflowAction,
+  WorkflowEventPayload,
+} from './durable-workflow-definition.interface';
+import type { IWorkflowEngine } from './workflow-engine.interface';
+
+export interface WorkflowTestPathOptions {
+  /**
+   * Sample payloads per event type, tried in order. Each is sent as
+   * `{ ...payload, type }`, so guards see realistic fields. Event types
+   * without samples are sent with no other fields. Samples under `'*'` are
+   * used for the event that covers wildcard handlers.
+   */
+  payloads?: Record<string, Record<string, unknown>[]>;
+  /** Engine used to explore the definition. Defaults to JavascriptStateMachineEngine. */
+  engine?: IWorkflowEngine;
+  /** Max number of transitions in one send. Defaults to DEFAULT_MAX_DEPTH. */
+  maxTransitionDepth?: number;
+  /**
+   * Runs in place of every action not created by `assign`, so exploring
+   * does not trigger side effects. Defaults to running the real actions.
+   */
+  actionStub?: WorkflowAction;
+}
+
+export interface WorkflowTestPlan {
+  /** Events to send to a new instance, in order. The first one creates it. */
+  events: WorkflowEventPayload[];
+  /** State value the instance settles in after the last event. */
+  expectedStateValue: string;
+}
+
+export interface WorkflowTestPaths {
+  /** Shortest plan that enters each reachable state, keyed by state path. */
+  states: Record<string, WorkflowTestPlan>;
+  /** Shortest plan that takes each covered transition, keyed by transition ID. */
+  transitions: Record<string, WorkflowTestPlan>;
+  /** State paths no plan enters with the given payloads. */
+  unreachedStates: string[];
+  /** IDs of transitions with a target that no plan takes. */
+  uncoveredTransitions: string[];
+}
@@ -0,0 +1,64 @@
+import type {
+  WorkflowActionEntry,
+  WorkflowGuard,
+} from './durable-workflow-definition.interface';
+
+export type XStateActionReference = string | { type: string; params?: unknown };
+
+export type XStateGuardReference = string | { type: string; params?: unknown };
+
+export interface XStateTransitionConfig {
+  target?: string | string[];
+  /** XState v5 guard. */
+  guard?: XStateGuardReference;
+  /** XState v4 guard. */
+  cond?: XStateGuardReference;
+  actions?: XStateActionReference | XStateActionReference[];
+  description?: string;
+  [key: string]: unknown;
+}
+
+export type XStateTransitionRule = string | XStateTransitionConfig;
+
+export type XStateTransitions =
+  | XStateTransitionRule
+  | XStateTransitionRule[]
+  | undefined;
+
+export interface XStateStateNodeConfig {
+  id?: string;
+  type?: 'atomic' | 'compound' | 'parallel' | 'final' | 'history';
+  initial?: string;
+  states?: Record<string, XStateStateNodeConfig>;
+  on?: Record<string, XStateTransitions>;
+  always?: XStateTransitions;
+  after?: Record<string, XStateTransitions>;
+  onDone?: XStateTransitions;
+  entry?: XStateActionReference | XStateActionReference[];
+  exit?: XStateActionReference | XStateActionReference[];
+  tags?: string | string[];
+  description?: string;
+  meta?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * JSON machine config exported by the XState visualizer (v4 and v5). Keys
+ * `fromXStateConfig` cannot convert are reported, not dropped.
+ */
+export interface XStateMachineConfig extends XStateStateNodeConfig {
+  id: string;
+  context?: Record<string, unknown>;
+}
+
+/** Implementations for the guards and actions an XState config names. */
+export interface XStateImplementations {
+  guards?: Record<string, WorkflowGuard>;
+  actions?: Record<string, WorkflowActionEntry>;
+}
+
+export interface XStateConfigIssue {
+  /** Location in the XState config, e.g. "states.pending.on.PAY[0].cond". */
+  path: string;
+  message: string;
+}
@@ -0,0 +1,141 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { WorkflowRegistry } from './workflow-registry.service';
+import { IWorkflowDbAdapter } from '../interfaces/workflow-db-adapter.interface';
+import {
+  DEFAULT_OUTBOX_BATCH_SIZE,
+  WORKFLOW_DB_ADAPTER,
+  WORKFLOW_MESSAGE_EVENT,
+} from '../workflow.constants';
+
+export interface OutboxDispatchResult {
+  dispatched: number;
+  failed: number;
+}
+
+/** Event payload fields that are `Date` instances before serialization. */
+const DATE_FIELDS = ['timestamp', 'expiredAt', 'retryAt'];
+
+function reviveDates(
+  payload: Record<string, unknown>,
+): Record<string, unknown> {
+  const event = { ...payload };
+  for (const field of DATE_FIELDS) {
+    if (typeof event[field] === 'string') {
+      event[field] = new Date(event[field] as string);
+    }
+  }
+  return event;
+}
+
+/**
+ * Publishes the lifecycle events that `WorkflowManager` writes to the
+ * `{table}_outbox` tables. Rows are only visible once the workflow
+ * transaction has committed, and are marked dispatched after every listener
+ * has resolved, so every event is delivered at least once.
+ */
+@Injectable()
+export class OutboxRelayService {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private running = false;
+  /** Tables asked for while a dispatch was running, drained by that run. */
+  private readonly requested = new Set<string>();
+
+  constructor(
+    private readonly registry: WorkflowRegistry,
+    @Inject(WORKFLOW_DB_ADAPTER) private readonly adapter: IWorkflowDbAdapter,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Publishes the pending events of the given workflow tables, or of every
+   * registered table. Never rejects: failed rows stay pending and are
+   * retried by the next dispatch. A call made while another dispatch is
+   * running, e.g. by a listener that sends an event, leaves its tables to
+   * that dispatch and resolves immediately, so no row is published twice.
+   */
+  async dispatch(tableNames?: Iterable<string>): Promise<OutboxDispatchResult> {
+    const result: OutboxDispatchResult = { dispatched: 0, failed: 0 };
+    let tables = new Set(
+      tableNames ??
+        this.registry.getAll().map((registration) => registration.tableName),
+    );
+
+    if (this.running) {
+      tables.forEach((tableName) => this.requested.add(tableName));
+      return result;
+    }
+
+    this.running = true;
+    try {
+      while (tables.size > 0) {
+        for (const tableName of tables) {
+          try {
+            await this.dispatchTable(tableName, result);
+          } catch (error) {
+            this.logger.error(
+              `Outbox dispatch failed for ${tableName}`,
+              error instanceof Error ? error.stack : error,
+            );
+          }
+        }
+        tables = new Set(this.requested);
+        this.requested.clear();
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return result;
+  }
+
+  private async dispatchTable(
+    tableName: string,
+    result: OutboxDispatchResult,
+  ): Promise<void> {
+    for (;;) {
+      // Messages from `sendTo` are delivered by WorkflowManager instead
+      const rows = await this.adapter.findPendingOutbox(
+        tableName,
+        DEFAULT_OUTBOX_BATCH_SIZE,
+        { eventType: WORKFLOW_MESSAGE_EVENT, exclude: true },
+      );
+      const failures = new Map<string, string>();
+
+      // Listeners run outside of any transaction, so they can send events
+      for (const row of rows) {
+        try {
+          await this.eventEmitter.emitAsync(
+            row.eventType,
+            reviveDates(row.payload),
+          );
+        } catch (error) {
+          failures.set(
+            row.id,
+            error instanceof Error ? error.message : String(error),
+          );
+        }
+      }
+
+      await this.adapter.transaction(async (txAdapter) => {
+        for (const row of rows) {
+          const error = failures.get(row.id);
+          if (error === undefined) {
+            await txAdapter.markOutboxDispatched(tableName, row.id);
+          } else {
+            await txAdapter.markOutboxFailed(tableName, row.id, error);
+          }
+        }
+      });
+
+      const failed = failures.size;
+      result.dispatched += rows.length - failed;
+      result.failed += failed;
+
+      // Failed rows are still pending; leave them for the next dispatch
+      if (rows.length < DEFAULT_OUTBOX_BATCH_SIZE || failed > 0) {
+        return;
+      }
+    }
+  }
+}
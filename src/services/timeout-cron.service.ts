@@ -1,15 +1,28 @@
 import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { SchedulerRegistry } from '@nestjs/schedule';
-import { EventEmitter2 } from '@nestjs/event-emitter';
 import { CronJob } from 'cron';
-import { WorkflowRegistry } from './workflow-registry.service';
+import {
+  RegisteredWorkflow,
+  WorkflowRegistry,
+} from './workflow-registry.service';
 import { WorkflowManager } from './workflow-manager.service';
+import { OutboxRelayService } from './outbox-relay.service';
 import { IWorkflowDbAdapter } from '../interfaces/workflow-db-adapter.interface';
-import { WorkflowEventType } from '../events/workflow-event-type.enum';
-import type { WorkflowTimeoutTriggeredEvent } from '../events/workflow-events';
+import {
+  getAfterEventState,
+  hasDelayedTransitions,
+} from '../utils/delayed-transitions';
+import { getRetryEventState, hasRetryPolicies } from '../utils/retry-policies';
+import { resolveStateTimeout } from '../utils/get-timeout-minutes';
+import { getDefinitionVersion } from '../utils/definition-version';
+import type {
+  DurableWorkflowDefinition,
+  WorkflowEventPayload,
+} from '../interfaces/durable-workflow-definition.interface';
 import {
   WORKFLOW_MODULE_OPTIONS,
   WORKFLOW_DB_ADAPTER,
+  DEFAULT_DEFINITION_VERSION,
 } from '../workflow.constants';
 
 export interface TimeoutCronOptions {
@@ -30,10 +43,16 @@ export interface TimeoutProcessingResult {
   durationMs: number;
   workflowTypesScanned: number;
   expiredFound: number;
+  /** Due `after` timers found across all workflow types. */
+  dueTimersFound: number;
   attempted: number;
   succeeded: number;
   failed: number;
   failures: TimeoutProcessingFailure[];
+  /** Outbox events left over by earlier dispatches and published by this run. */
+  outboxDispatched: number;
+  /** Pending `sendTo` messages delivered by this run. */
+  messagesDelivered: number;
 }
 
 @Injectable()
@@ -45,7 +64,7 @@ export class TimeoutCronService implements OnModuleInit {
     private readonly manager: WorkflowManager,
     @Inject(WORKFLOW_DB_ADAPTER) private readonly adapter: IWorkflowDbAdapter,
     private readonly schedulerRegistry: SchedulerRegistry,
-    private readonly eventEmitter: EventEmitter2,
+    private readonly relay: OutboxRelayService,
     @Inject(WORKFLOW_MODULE_OPTIONS)
     private readonly options: TimeoutCronOptions,
   ) {}
@@ -60,7 +79,7 @@ export class TimeoutCronService implements OnModuleInit {
       this.processExpiredWorkflows()
         .then((summary) => {
           this.logger.log(
-            `Timeout cron summary: scanned=${summary.workflowTypesScanned}, expired=${summary.expiredFound}, attempted=${summary.attempted}, succeeded=${summary.succeeded}, failed=${summary.failed}, durationMs=${summary.durationMs}`,
+            `Timeout cron summary: scanned=${summary.workflowTypesScanned}, expired=${summary.expiredFound}, dueTimers=${summary.dueTimersFound}, attempted=${summary.attempted}, succeeded=${summary.succeeded}, failed=${summary.failed}, durationMs=${summary.durationMs}`,
           );
         })
         .catch((err) => {
@@ -83,10 +102,13 @@ export class TimeoutCronService implements OnModuleInit {
       durationMs: 0,
       workflowTypesScanned: 0,
       expiredFound: 0,
+      dueTimersFound: 0,
       attempted: 0,
       succeeded: 0,
       failed: 0,
       failures: [],
+      outboxDispatched: 0,
+      messagesDelivered: 0,
     };
 
     const registrations = this.registry.getAll();
@@ -97,53 +119,108 @@ export class TimeoutCronService implements OnModuleInit {
       summary.expiredFound += expired.length;
 
       for (const instance of expired) {
-        summary.attempted++;
-        try {
-          await this.manager.send(registration.tableName, instance.id, {
-            type: this.options.timeoutEventType,
-          });
-          summary.succeeded++;
-        } catch (error) {
-          summary.failed++;
-          summary.failures.push({
-            workflowType: registration.tableName,
-            instanceId: instance.id,
-            error: error instanceof Error ? error.message : String(error),
-          });
-
-          // Continue processing remaining instances (FR-009)
-          this.logger.error(
-            `Failed to process timeout for ${registration.tableName}/${instance.id}`,
-            error instanceof Error ? error.stack : error,
-          );
-          continue;
-        }
-
-        try {
-          this.eventEmitter.emit(WorkflowEventType.TIMEOUT_TRIGGERED, {
-            workflowType: registration.tableName,
-            instanceId: instance.id,
-            state: '',
-            expiredAt: new Date(),
-            timestamp: new Date(),
-          } satisfies WorkflowTimeoutTriggeredEvent);
+        const timeout = resolveStateTimeout(
+          this.getInstanceDefinition(registration, instance.definitionVersion),
+          instance.stateValue,
+          instance.deadlines,
+        );
+        await this.fireTimeout(
+          registration.tableName,
+          instance.id,
+          {
+            ...timeout?.payload,
+            type: timeout?.event ?? this.options.timeoutEventType,
+          },
+          timeout?.statePath ?? instance.stateValue,
+          summary,
+        );
+      }
 
-          this.logger.log(
-            `Timeout processed: ${registration.tableName}/${instance.id}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `Timeout side effects failed for ${registration.tableName}/${instance.id}`,
-            error instanceof Error ? error.stack : error,
-          );
-        }
+      // Only definitions with `after` transitions or retries need a timers table
+      if (
+        !registration.definitions.some(
+          (definition) =>
+            hasDelayedTransitions(definition) || hasRetryPolicies(definition),
+        )
+      ) {
+        continue;
+      }
+
+      const dueTimers = await this.adapter.findDueTimers(
+        registration.tableName,
+      );
+      summary.dueTimersFound += dueTimers.length;
+
+      for (const timer of dueTimers) {
+        await this.fireTimeout(
+          registration.tableName,
+          timer.workflowId,
+          { type: timer.eventType },
+          registration.definitions
+            .map((definition) =>
+              getAfterEventState(definition, timer.eventType),
+            )
+            .find((state) => state !== undefined) ??
+            getRetryEventState(timer.eventType) ??
+            '',
+          summary,
+        );
       }
     }
 
+    // Publish events and deliver messages left over after commit
+    summary.outboxDispatched = (await this.relay.dispatch()).dispatched;
+    summary.messagesDelivered = (
+      await this.manager.deliverMessages()
+    ).dispatched;
+
     summary.finishedAt = new Date();
     summary.durationMs =
       summary.finishedAt.getTime() - summary.startedAt.getTime();
 
     return summary;
   }
+
+  /**
+   * Resolves the definition version an expired instance runs on. Unknown
+   * versions fall back to the latest one here and fail in the send instead.
+   */
+  private getInstanceDefinition(
+    registration: RegisteredWorkflow,
+    version = DEFAULT_DEFINITION_VERSION,
+  ): DurableWorkflowDefinition {
+    return (
+      registration.definitions.find(
+        (definition) => getDefinitionVersion(definition) === version,
+      ) ?? registration.definition
+    );
+  }
+
+  private async fireTimeout(
+    tableName: string,
+    instanceId: string,
+    event: WorkflowEventPayload,
+    state: string,
+    summary: TimeoutProcessingResult,
+  ): Promise<void> {
+    summary.attempted++;
+    try {
+      await this.manager.sendTimeout(tableName, instanceId, event, state);
+      summary.succeeded++;
+      this.logger.log(`Timeout processed: ${tableName}/${instanceId}`);
+    } catch (error) {
+      summary.failed++;
+      summary.failures.push({
+        workflowType: tableName,
+        instanceId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Continue processing remaining instances (FR-009)
+      this.logger.error(
+        `Failed to process timeout for ${tableName}/${instanceId}`,
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
 }
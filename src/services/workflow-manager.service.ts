@@ -1,45 +1,105 @@
 import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { WorkflowRegistry } from './workflow-registry.service';
+import {
+  OutboxDispatchResult,
+  OutboxRelayService,
+} from './outbox-relay.service';
 import { IWorkflowDbAdapter } from '../interfaces/workflow-db-adapter.interface';
-import { WorkflowResult } from '../interfaces/workflow-records.interface';
+import {
+  OutboxRecord,
+  WorkflowRecord,
+  WorkflowResult,
+} from '../interfaces/workflow-records.interface';
 import { WorkflowEventType } from '../events/workflow-event-type.enum';
 import type {
   WorkflowTransitionEvent,
   WorkflowCreatedEvent,
+  WorkflowCancelledEvent,
+  WorkflowCompensatedEvent,
+  WorkflowTransitionErrorEvent,
+  WorkflowTimeoutTriggeredEvent,
 } from '../events/workflow-events';
-import { getTimeoutExpiry } from '../utils/get-timeout-minutes';
+import { WorkflowNotFoundError } from '../errors/workflow-not-found.error';
+import { getDeadlineExpiry } from '../utils/get-timeout-minutes';
+import {
+  getDefinitionVersion,
+  getSnapshotDefinitionVersion,
+} from '../utils/definition-version';
+import { migrateSnapshot } from '../utils/migrate-snapshot';
+import { diffContext } from '../utils/diff-context';
+import { getHandledEventTypes } from '../utils/state-paths';
+import { getStateTags, getTaggedLeafPaths } from '../utils/state-tags';
 import {
   WORKFLOW_MODULE_OPTIONS,
   WORKFLOW_DB_ADAPTER,
   WORKFLOW_ENGINE,
+  WORKFLOW_CANCEL_EVENT,
+  WORKFLOW_COMPENSATE_EVENT,
+  WORKFLOW_ERROR_EVENT,
+  WORKFLOW_MIGRATE_EVENT,
+  WORKFLOW_MESSAGE_EVENT,
+  DONE_CHILD_EVENT_PREFIX,
+  WILDCARD_EVENT,
 } from '../workflow.constants';
 import type {
   IWorkflowEngine,
+  IWorkflowRuntime,
+  RuntimeMessage,
   RuntimeTransition,
 } from '../interfaces/workflow-engine.interface';
 import { JavascriptStateMachineEngine } from '../engines/javascript-state-machine.engine';
-import type { WorkflowEventPayload } from '../interfaces/durable-workflow-definition.interface';
+import type {
+  DurableChildRef,
+  DurableSnapshot,
+  DurableSnapshotV2,
+  DurableWorkflowDefinition,
+  WorkflowAction,
+  WorkflowEventPayload,
+  WorkflowStatus,
+} from '../interfaces/durable-workflow-definition.interface';
+import type {
+  WorkflowAvailableEvent,
+  WorkflowAvailableEventsOptions,
+  WorkflowSimulationOptions,
+  WorkflowSimulationResult,
+} from '../interfaces/workflow-simulation.interface';
 
 export interface WorkflowManagerOptions {
   maxTransitionDepth: number;
   timeoutEventType: string;
+  guardTimeoutMs?: number;
 }
 
+type PendingDelivery =
+  | {
+      kind: 'send';
+      tableName: string;
+      id: string;
+      event: WorkflowEventPayload;
+      /** Set when creating a spawned child. */
+      parent?: DurableChildRef;
+    }
+  | { kind: 'cancel'; tableName: string; id: string };
+
 @Injectable()
 export class WorkflowManager {
   private readonly logger = new Logger(WorkflowManager.name);
   private readonly engine: IWorkflowEngine;
+  private readonly relay: OutboxRelayService;
 
   constructor(
     private readonly registry: WorkflowRegistry,
     @Inject(WORKFLOW_DB_ADAPTER) private readonly adapter: IWorkflowDbAdapter,
-    private readonly eventEmitter: EventEmitter2,
+    eventEmitter: EventEmitter2,
     @Inject(WORKFLOW_MODULE_OPTIONS)
     private readonly options: WorkflowManagerOptions,
     @Optional() @Inject(WORKFLOW_ENGINE) engine?: IWorkflowEngine,
+    @Optional() relay?: OutboxRelayService,
   ) {
     this.engine = engine ?? new JavascriptStateMachineEngine();
+    this.relay =
+      relay ?? new OutboxRelayService(registry, adapter, eventEmitter);
   }
 
   async send(
@@ -47,70 +107,1003 @@ export class WorkflowManager {
     id: string,
     event: WorkflowEventPayload,
   ): Promise<WorkflowResult> {
-    const registration = this.registry.getOrThrow(tableName);
-    const definition = registration.definition;
+    return this.sendAndRelay(tableName, id, event);
+  }
 
-    return this.adapter.transaction(async (txAdapter) => {
-      const existing = await txAdapter.findOne(tableName, id, true);
-      const isNew = !existing;
+  /**
+   * Computes what `send` would do without changing anything. The instance
+   * is read without a lock, every action except those created by `assign`
+   * is replaced by `options.actionStub` (a no-op by default) and nothing is
+   * persisted, published or delivered. Guards still run, so they must be
+   * free of side effects. Pending snapshot migrations are applied in memory
+   * only.
+   */
+  async simulate(
+    tableName: string,
+    id: string,
+    event: WorkflowEventPayload,
+    options: WorkflowSimulationOptions = {},
+  ): Promise<WorkflowSimulationResult> {
+    const { definition, snapshot } = await this.loadForDryRun(tableName, id);
+    const runtime = this.createDryRunRuntime(
+      definition,
+      snapshot,
+      id,
+      options.actionStub,
+    );
+    const contextBefore = JSON.parse(
+      JSON.stringify(runtime.getSnapshot().context),
+    ) as Record<string, unknown>;
 
-      const runtime = this.engine.createRuntime({
+    const sendResult = await runtime.send(event);
+    const settledSnapshot = runtime.dehydrate();
+
+    return {
+      id,
+      stateValue: sendResult.stateValue,
+      done: sendResult.done,
+      status: settledSnapshot.status,
+      transitions: sendResult.transitions,
+      contextChanges: diffContext(contextBefore, settledSnapshot.context),
+      expiresAt:
+        settledSnapshot.status === 'active'
+          ? getDeadlineExpiry(settledSnapshot.deadlines)
+          : null,
+      spawned: sendResult.spawned ?? [],
+      messages: sendResult.messages ?? [],
+      error: sendResult.error,
+    };
+  }
+
+  /**
+   * Lists the events the instance accepts in its current state, with the
+   * state value each would lead to. Every event type the active states
+   * declare is checked like `simulate` with the default stub, against the
+   * current context and `options.payloads`. `'*'` handlers accept any
+   * event, so they are not listed.
+   */
+  async getAvailableEvents(
+    tableName: string,
+    id: string,
+    options: WorkflowAvailableEventsOptions = {},
+  ): Promise<WorkflowAvailableEvent[]> {
+    const { definition, snapshot } = await this.loadForDryRun(tableName, id);
+    const { stateValue } = this.createDryRunRuntime(
+      definition,
+      snapshot,
+      id,
+    ).getSnapshot();
+    const available: WorkflowAvailableEvent[] = [];
+
+    for (const type of getHandledEventTypes(definition, stateValue)) {
+      if (type === WILDCARD_EVENT) continue;
+
+      const result = await this.createDryRunRuntime(
         definition,
-        snapshot: existing?.snapshot,
-        maxTransitionDepth: this.options.maxTransitionDepth,
-        workflowId: id,
-      });
+        snapshot,
+        id,
+      ).send({ ...options.payloads?.[type], type });
+      if (result.handled) {
+        available.push({ type, target: result.stateValue });
+      }
+    }
+
+    return available;
+  }
+
+  /**
+   * Whether the instance would accept the event in its current state,
+   * including through a `'*'` handler. Checked like `simulate` with the
+   * default stub, so nothing is written.
+   */
+  async can(
+    tableName: string,
+    id: string,
+    event: WorkflowEventPayload,
+  ): Promise<boolean> {
+    const { definition, snapshot } = await this.loadForDryRun(tableName, id);
+    const result = await this.createDryRunRuntime(
+      definition,
+      snapshot,
+      id,
+    ).send(event);
+    return result.handled === true;
+  }
+
+  /**
+   * Finds the instances with an active state tagged `tag`, directly or
+   * through an ancestor. Tags are resolved to state paths across every
+   * registered definition version, and each match is checked against the
+   * tags of its own version. Instances of unregistered versions are skipped.
+   */
+  async findByTag(tableName: string, tag: string): Promise<WorkflowRecord[]> {
+    const registration = this.registry.getOrThrow(tableName);
+    const statePaths = new Set(
+      registration.definitions.flatMap((definition) =>
+        getTaggedLeafPaths(definition, tag),
+      ),
+    );
+    const records = await this.adapter.findByStates(
+      tableName,
+      Array.from(statePaths),
+    );
+
+    return records.filter((record) => {
+      const version = getSnapshotDefinitionVersion(record.snapshot);
+      const definition = registration.definitions.find(
+        (candidate) => getDefinitionVersion(candidate) === version,
+      );
+      return (
+        definition !== undefined &&
+        getStateTags(definition, record.stateValue).includes(tag)
+      );
+    });
+  }
+
+  /**
+   * Sends a timeout or timer event on behalf of the timeout cron and records
+   * `workflow.timeout.triggered` in the same transaction.
+   */
+  async sendTimeout(
+    tableName: string,
+    id: string,
+    event: WorkflowEventPayload,
+    state: string,
+  ): Promise<WorkflowResult> {
+    return this.sendAndRelay(tableName, id, event, state);
+  }
+
+  /**
+   * Lifecycle events are written to the outbox inside the transaction and
+   * only published by the relay once it has committed.
+   */
+  private async sendAndRelay(
+    tableName: string,
+    id: string,
+    event: WorkflowEventPayload,
+    timeoutState?: string,
+  ): Promise<WorkflowResult> {
+    this.registry.getOrThrow(tableName);
+
+    const { result, tableNames } = await this.adapter.transaction(
+      async (txAdapter) => {
+        const pending: PendingDelivery[] = [];
+        const sent = await this.sendInTransaction(
+          txAdapter,
+          tableName,
+          id,
+          event,
+          pending,
+          undefined,
+          timeoutState,
+        );
+
+        const touched = await this.drainPending(txAdapter, pending);
+        return { result: sent, tableNames: touched.add(tableName) };
+      },
+    );
+
+    await this.afterCommit(tableNames);
+    return result;
+  }
+
+  /**
+   * Delivers the pending `sendTo` messages of the given workflow tables, or
+   * of every registered table, oldest first. Each message is delivered in
+   * the same transaction as the receiving send and marked as delivered
+   * there, so it is never lost or delivered twice. Messages sent by the
+   * receivers are delivered by the same call, up to `maxTransitionDepth`
+   * hops. Never rejects: failed messages stay pending for the next call.
+   */
+  async deliverMessages(
+    tableNames?: Iterable<string>,
+  ): Promise<OutboxDispatchResult> {
+    const result: OutboxDispatchResult = { dispatched: 0, failed: 0 };
+    let senders = new Set(
+      tableNames ??
+        this.registry.getAll().map((registration) => registration.tableName),
+    );
+
+    for (
+      let hop = 0;
+      senders.size > 0 && hop < this.options.maxTransitionDepth;
+      hop += 1
+    ) {
+      const receivers = new Set<string>();
+      for (const tableName of senders) {
+        try {
+          await this.deliverTableMessages(tableName, result, receivers);
+        } catch (error) {
+          this.logger.error(
+            `Message delivery failed for ${tableName}`,
+            error instanceof Error ? error.stack : error,
+          );
+        }
+      }
+      await this.relay.dispatch(receivers);
+      senders = receivers;
+    }
+
+    return result;
+  }
 
-      const sendResult = await runtime.send(event);
-      const settledStateValue = sendResult.stateValue;
-      const settledSnapshot = runtime.dehydrate();
-      const isDone = sendResult.done;
-      const transitions = sendResult.transitions;
-      const expiresAt = getTimeoutExpiry(definition, settledStateValue);
-
-      await txAdapter.upsertLive(tableName, id, {
-        stateValue: settledStateValue,
-        snapshot: settledSnapshot as unknown as Record<string, unknown>,
-        expiresAt,
+  private async deliverTableMessages(
+    tableName: string,
+    result: OutboxDispatchResult,
+    receivers: Set<string>,
+  ): Promise<void> {
+    // Rows that failed in this call are skipped, so asking for one more row
+    // than have failed always reaches the next untried message
+    const failedIds = new Set<string>();
+
+    for (;;) {
+      const claimed: { message?: OutboxRecord } = {};
+      try {
+        const touched = await this.adapter.transaction(async (txAdapter) => {
+          const rows = await txAdapter.findPendingOutbox(
+            tableName,
+            failedIds.size + 1,
+            { eventType: WORKFLOW_MESSAGE_EVENT },
+          );
+          claimed.message = rows.find((row) => !failedIds.has(row.id));
+          if (!claimed.message) {
+            return undefined;
+          }
+
+          const message = claimed.message.payload as unknown as RuntimeMessage;
+          const pending: PendingDelivery[] = [];
+          await this.sendInTransaction(
+            txAdapter,
+            message.tableName,
+            message.id,
+            message.event,
+            pending,
+          );
+          await txAdapter.markOutboxDispatched(tableName, claimed.message.id);
+          const touchedTables = await this.drainPending(txAdapter, pending);
+          return touchedTables.add(message.tableName);
+        });
+
+        if (!touched) {
+          return;
+        }
+        touched.forEach((receiver) => receivers.add(receiver));
+        result.dispatched += 1;
+      } catch (error) {
+        const { message } = claimed;
+        if (!message) {
+          throw error;
+        }
+        failedIds.add(message.id);
+        result.failed += 1;
+        this.logger.warn(
+          `Message ${message.id} from ${tableName}/${message.workflowId} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        await this.adapter.transaction((txAdapter) =>
+          txAdapter.markOutboxFailed(
+            tableName,
+            message.id,
+            error instanceof Error ? error.message : String(error),
+          ),
+        );
+      }
+    }
+  }
+
+  /** Publishes the events and delivers the messages of a committed change. */
+  private async afterCommit(tableNames: Set<string>): Promise<void> {
+    await this.relay.dispatch(tableNames);
+    await this.deliverMessages(tableNames);
+  }
+
+  /**
+   * Cancels an active instance and, recursively, every child it spawned that
+   * has not completed yet. Cancelled instances ignore further events.
+   */
+  async cancel(tableName: string, id: string): Promise<void> {
+    this.registry.getOrThrow(tableName);
+
+    const tableNames = await this.adapter.transaction(async (txAdapter) => {
+      const pending: PendingDelivery[] = [];
+      const existing = await this.cancelInTransaction(
+        txAdapter,
+        tableName,
+        id,
+        pending,
+      );
+      if (!existing) {
+        throw new WorkflowNotFoundError(tableName, id);
+      }
+      const touched = await this.drainPending(txAdapter, pending);
+      return touched.add(tableName);
+    });
+
+    await this.afterCommit(tableNames);
+  }
+
+  /**
+   * Migrates every instance of an older definition version right away
+   * instead of on its next send. Each instance is migrated in its own
+   * transaction. Resolves the number of instances that were migrated;
+   * instances without a migration path stay on their version.
+   */
+  async migrateSnapshots(tableName: string): Promise<number> {
+    const registration = this.registry.getOrThrow(tableName);
+    const outdated = await this.adapter.findOutdated(
+      tableName,
+      getDefinitionVersion(registration.definition),
+    );
+    let migrated = 0;
+
+    for (const { id } of outdated) {
+      const changed = await this.adapter.transaction(async (txAdapter) => {
+        const existing = await txAdapter.findOne(tableName, id, true);
+        if (!existing) {
+          return false;
+        }
+        const snapshot = await this.migrateInstance(
+          txAdapter,
+          tableName,
+          existing,
+        );
+        if (snapshot === existing.snapshot) {
+          return false;
+        }
+
+        const definition = this.getInstanceDefinition(tableName, snapshot);
+        const settledSnapshot = this.engine
+          .createRuntime({
+            definition,
+            snapshot,
+            maxTransitionDepth: this.options.maxTransitionDepth,
+            workflowId: id,
+            guardTimeoutMs: this.options.guardTimeoutMs,
+          })
+          .dehydrate();
+        let expiresAt: Date | null = null;
+        if (settledSnapshot.status === 'active') {
+          expiresAt = getDeadlineExpiry(settledSnapshot.deadlines);
+        }
+
+        await txAdapter.upsertLive(tableName, id, {
+          stateValue: settledSnapshot.state,
+          snapshot: settledSnapshot as unknown as Record<string, unknown>,
+          expiresAt,
+        });
+        await this.syncTimers(
+          txAdapter,
+          tableName,
+          id,
+          existing.snapshot,
+          settledSnapshot,
+        );
+        return true;
       });
+      if (changed) migrated += 1;
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Runs the `compensate` actions of the instance's past transitions, newest
+   * first. Each compensation commits in its own transaction together with a
+   * `workflow.compensate` history row, so calling this again after a crash
+   * resumes with the next pending step instead of repeating completed ones.
+   * The instance ignores events from the first step on and ends up in
+   * `compensated`. `transitionCount` is the number of compensations run.
+   */
+  async compensate(
+    tableName: string,
+    id: string,
+    reason: string,
+  ): Promise<WorkflowResult> {
+    this.registry.getOrThrow(tableName);
+    let steps = 0;
+
+    for (;;) {
+      const result = await this.adapter.transaction((txAdapter) =>
+        this.compensateNextStep(txAdapter, tableName, id, reason),
+      );
+      if (result) {
+        await this.relay.dispatch([tableName]);
+        return { ...result, transitionCount: steps };
+      }
+      steps += 1;
+    }
+  }
+
+  /**
+   * Compensates the newest history row that has not been compensated yet.
+   * Resolves undefined after a step, or the final result once none is left.
+   */
+  private async compensateNextStep(
+    txAdapter: IWorkflowDbAdapter,
+    tableName: string,
+    id: string,
+    reason: string,
+  ): Promise<WorkflowResult | undefined> {
+    const existing = await txAdapter.findOne(tableName, id, true);
+    if (!existing) {
+      throw new WorkflowNotFoundError(tableName, id);
+    }
+    const definition = this.getInstanceDefinition(tableName, existing.snapshot);
+
+    const runtime = this.engine.createRuntime({
+      definition,
+      snapshot: existing.snapshot,
+      maxTransitionDepth: this.options.maxTransitionDepth,
+      workflowId: id,
+      guardTimeoutMs: this.options.guardTimeoutMs,
+    });
+    if (runtime.dehydrate().status !== 'compensated') {
+      const history = await txAdapter.findHistory(tableName, id);
+      const compensated = new Set(
+        history
+          .filter((row) => row.eventType === WORKFLOW_COMPENSATE_EVENT)
+          .map((row) => row.eventPayload.historyId),
+      );
 
-      await this.persistHistory(txAdapter, tableName, id, transitions, event);
+      for (const row of [...history].reverse()) {
+        if (!row.transitionId || compensated.has(row.id)) continue;
 
-      if (isNew) {
-        this.eventEmitter.emit(WorkflowEventType.CREATED, {
+        const ran = await runtime.compensate({
+          transitionId: row.transitionId,
+          fromState: row.fromState,
+          toState: row.toState,
+          event: {
+            type: WORKFLOW_COMPENSATE_EVENT,
+            reason,
+            event: row.eventPayload,
+          },
+        });
+        if (!ran) continue;
+
+        await this.persistStatus(
+          txAdapter,
+          tableName,
+          existing,
+          runtime.dehydrate(),
+          'compensating',
+        );
+        await txAdapter.insertHistory(tableName, {
+          workflowId: id,
+          fromState: existing.stateValue,
+          toState: existing.stateValue,
+          eventType: WORKFLOW_COMPENSATE_EVENT,
+          eventPayload: {
+            type: WORKFLOW_COMPENSATE_EVENT,
+            reason,
+            historyId: row.id,
+          },
+        });
+        this.logger.log(
+          `Workflow ${tableName}/${id}: compensated transition ${row.transitionId}`,
+        );
+        return undefined;
+      }
+
+      await this.persistStatus(
+        txAdapter,
+        tableName,
+        existing,
+        runtime.dehydrate(),
+        'compensated',
+      );
+      await this.publish(
+        txAdapter,
+        tableName,
+        id,
+        WorkflowEventType.COMPENSATED,
+        {
           workflowType: tableName,
           instanceId: id,
-          initialState: settledStateValue,
+          state: existing.stateValue,
+          reason,
           timestamp: new Date(),
-        } satisfies WorkflowCreatedEvent);
+        } satisfies WorkflowCompensatedEvent,
+      );
+    }
+
+    const snapshot = runtime.dehydrate();
+    return {
+      id,
+      stateValue: existing.stateValue,
+      snapshot: { ...snapshot, status: 'compensated', timers: [] },
+      transitionCount: 0,
+      done: false,
+      status: 'compensated',
+    };
+  }
+
+  /** Persists a status change that leaves the state value untouched. */
+  private async persistStatus(
+    txAdapter: IWorkflowDbAdapter,
+    tableName: string,
+    existing: WorkflowRecord,
+    snapshot: DurableSnapshotV2,
+    status: WorkflowStatus,
+  ): Promise<void> {
+    const nextSnapshot: DurableSnapshotV2 = { ...snapshot, status, timers: [] };
+
+    await txAdapter.upsertLive(tableName, existing.id, {
+      stateValue: existing.stateValue,
+      snapshot: nextSnapshot as unknown as Record<string, unknown>,
+      expiresAt: null,
+    });
+
+    await this.syncTimers(
+      txAdapter,
+      tableName,
+      existing.id,
+      existing.snapshot,
+      nextSnapshot,
+    );
+  }
+
+  /**
+   * Child creation and cascade cancels run in the same transaction as the
+   * send that caused them, after it has been persisted. Resolves the tables
+   * that were written to.
+   */
+  private async drainPending(
+    txAdapter: IWorkflowDbAdapter,
+    pending: PendingDelivery[],
+  ): Promise<Set<string>> {
+    const tableNames = new Set<string>();
+
+    for (let next = pending.shift(); next; next = pending.shift()) {
+      tableNames.add(next.tableName);
+      if (next.kind === 'cancel') {
+        await this.cancelInTransaction(
+          txAdapter,
+          next.tableName,
+          next.id,
+          pending,
+        );
+      } else {
+        await this.sendInTransaction(
+          txAdapter,
+          next.tableName,
+          next.id,
+          next.event,
+          pending,
+          next.parent,
+        );
       }
+    }
+
+    return tableNames;
+  }
+
+  private async sendInTransaction(
+    txAdapter: IWorkflowDbAdapter,
+    tableName: string,
+    id: string,
+    event: WorkflowEventPayload,
+    pending: PendingDelivery[],
+    parent?: DurableChildRef,
+    timeoutState?: string,
+  ): Promise<WorkflowResult> {
+    const existing = await txAdapter.findOne(tableName, id, true);
+    const isNew = !existing;
+    const snapshot = existing
+      ? await this.migrateInstance(txAdapter, tableName, existing)
+      : undefined;
+    const definition = this.getInstanceDefinition(tableName, snapshot);
+
+    const runtime = this.engine.createRuntime({
+      definition,
+      snapshot,
+      maxTransitionDepth: this.options.maxTransitionDepth,
+      workflowId: id,
+      guardTimeoutMs: this.options.guardTimeoutMs,
+    });
+
+    const firedDeadline =
+      timeoutState === undefined
+        ? undefined
+        : runtime.dehydrate().deadlines?.[timeoutState];
+
+    // The cron may have read the deadline of an earlier visit to the state
+    if (firedDeadline !== undefined && Date.parse(firedDeadline) > Date.now()) {
+      const current = runtime.getSnapshot();
+      const currentSnapshot = runtime.dehydrate();
+      return {
+        id,
+        stateValue: current.stateValue,
+        snapshot: currentSnapshot as unknown as Record<string, unknown>,
+        transitionCount: 0,
+        done: current.done,
+        status: currentSnapshot.status,
+      };
+    }
+
+    const sendResult = await runtime.send(event);
+    const settledStateValue = sendResult.stateValue;
+    const settledSnapshot = runtime.dehydrate();
+    const isDone = sendResult.done;
+    const transitions = sendResult.transitions;
+
+    // A fired timeout is spent until its state is entered again
+    if (
+      firedDeadline !== undefined &&
+      settledSnapshot.deadlines?.[timeoutState!] === firedDeadline
+    ) {
+      settledSnapshot.deadlines = { ...settledSnapshot.deadlines };
+      delete settledSnapshot.deadlines[timeoutState!];
+    }
+    const expiresAt =
+      settledSnapshot.status === 'active'
+        ? getDeadlineExpiry(settledSnapshot.deadlines)
+        : null;
+
+    await txAdapter.upsertLive(tableName, id, {
+      stateValue: settledStateValue,
+      snapshot: settledSnapshot as unknown as Record<string, unknown>,
+      expiresAt,
+      parentTable: parent?.tableName ?? null,
+      parentId: parent?.id ?? null,
+    });
+
+    await this.syncTimers(
+      txAdapter,
+      tableName,
+      id,
+      existing?.snapshot,
+      settledSnapshot,
+    );
+
+    await this.persistHistory(txAdapter, tableName, id, transitions, event);
+
+    if (sendResult.error && !sendResult.error.handled) {
+      await txAdapter.insertHistory(tableName, {
+        workflowId: id,
+        fromState: sendResult.error.state,
+        toState: settledStateValue,
+        eventType: WORKFLOW_ERROR_EVENT,
+        eventPayload: {
+          type: WORKFLOW_ERROR_EVENT,
+          error: {
+            name: sendResult.error.name,
+            message: sendResult.error.message,
+          },
+          event,
+        },
+      });
+    }
+
+    if (isNew) {
+      await this.publish(txAdapter, tableName, id, WorkflowEventType.CREATED, {
+        workflowType: tableName,
+        instanceId: id,
+        initialState: settledStateValue,
+        timestamp: new Date(),
+      } satisfies WorkflowCreatedEvent);
+    }
 
-      for (const transition of transitions) {
-        this.eventEmitter.emit(WorkflowEventType.TRANSITION, {
+    for (const transition of transitions) {
+      await this.publish(
+        txAdapter,
+        tableName,
+        id,
+        WorkflowEventType.TRANSITION,
+        {
           workflowType: tableName,
           instanceId: id,
           fromState: transition.fromState,
           toState: transition.toState,
+          eventType: (transition.event ?? event).type,
+          eventPayload: (transition.event ?? event) as Record<string, unknown>,
+          timestamp: new Date(),
+        } satisfies WorkflowTransitionEvent,
+      );
+    }
+
+    if (sendResult.error) {
+      await this.publish(
+        txAdapter,
+        tableName,
+        id,
+        WorkflowEventType.TRANSITION_ERROR,
+        {
+          workflowType: tableName,
+          instanceId: id,
+          state: sendResult.error.state,
+          eventType: sendResult.error.eventType,
+          error: {
+            name: sendResult.error.name,
+            message: sendResult.error.message,
+          },
+          handled: sendResult.error.handled,
+          retryAt: sendResult.error.retryAt
+            ? new Date(sendResult.error.retryAt)
+            : undefined,
+          timestamp: new Date(),
+        } satisfies WorkflowTransitionErrorEvent,
+      );
+    }
+
+    if (timeoutState !== undefined) {
+      await this.publish(
+        txAdapter,
+        tableName,
+        id,
+        WorkflowEventType.TIMEOUT_TRIGGERED,
+        {
+          workflowType: tableName,
+          instanceId: id,
+          state: timeoutState,
           eventType: event.type,
-          eventPayload: event as Record<string, unknown>,
+          expiredAt: new Date(),
           timestamp: new Date(),
-        } satisfies WorkflowTransitionEvent);
+        } satisfies WorkflowTimeoutTriggeredEvent,
+      );
+    }
+
+    for (const message of sendResult.messages ?? []) {
+      this.registry.getOrThrow(message.tableName);
+      await txAdapter.insertOutbox(tableName, {
+        workflowId: id,
+        eventType: WORKFLOW_MESSAGE_EVENT,
+        payload: { ...message },
+      });
+    }
+
+    for (const child of sendResult.spawned ?? []) {
+      pending.push({
+        kind: 'send',
+        tableName: child.tableName,
+        id: child.id,
+        event: child.event,
+        parent: { tableName, id },
+      });
+    }
+
+    if (isDone && existing?.snapshot.status !== 'done') {
+      const parentTable = existing ? existing.parentTable : parent?.tableName;
+      const parentId = existing ? existing.parentId : parent?.id;
+      if (parentTable && parentId) {
+        // Delivered after commit, so a child never locks its parent
+        const notice: RuntimeMessage = {
+          tableName: parentTable,
+          id: parentId,
+          event: {
+            type: `${DONE_CHILD_EVENT_PREFIX}${id}`,
+            childTable: tableName,
+            childId: id,
+            output: runtime.getSnapshot().context,
+          },
+        };
+        await txAdapter.insertOutbox(tableName, {
+          workflowId: id,
+          eventType: WORKFLOW_MESSAGE_EVENT,
+          payload: { ...notice },
+        });
+      }
+
+      for (const child of settledSnapshot.children ?? []) {
+        pending.push({
+          kind: 'cancel',
+          tableName: child.tableName,
+          id: child.id,
+        });
       }
+    }
+
+    this.logger.log(
+      `Workflow ${tableName}/${id}: ${transitions.length} transition(s) persisted, state=${settledStateValue}`,
+    );
+
+    return {
+      id,
+      stateValue: settledStateValue,
+      snapshot: settledSnapshot as unknown as Record<string, unknown>,
+      transitionCount: transitions.length,
+      done: isDone,
+      status: settledSnapshot.status,
+    };
+  }
 
+  /**
+   * Reads an instance without a lock for a dry run, applying pending
+   * snapshot migrations in memory only.
+   */
+  private async loadForDryRun(
+    tableName: string,
+    id: string,
+  ): Promise<{
+    definition: DurableWorkflowDefinition;
+    snapshot: Record<string, unknown>;
+  }> {
+    const registration = this.registry.getOrThrow(tableName);
+    const existing = await this.adapter.findOne(tableName, id);
+    if (!existing) {
+      throw new WorkflowNotFoundError(tableName, id);
+    }
+
+    const { snapshot } = migrateSnapshot(
+      id,
+      registration.definitions,
+      existing.snapshot,
+    );
+    return {
+      definition: this.getInstanceDefinition(tableName, snapshot),
+      snapshot,
+    };
+  }
+
+  /** Runtime whose actions are all replaced by `actionStub`, a no-op by default. */
+  private createDryRunRuntime(
+    definition: DurableWorkflowDefinition,
+    snapshot: Record<string, unknown>,
+    id: string,
+    actionStub: WorkflowAction = () => undefined,
+  ): IWorkflowRuntime {
+    return this.engine.createRuntime({
+      definition,
+      snapshot,
+      maxTransitionDepth: this.options.maxTransitionDepth,
+      workflowId: id,
+      guardTimeoutMs: this.options.guardTimeoutMs,
+      actionStub,
+    });
+  }
+
+  /**
+   * New instances start on the latest definition; existing instances keep
+   * the version recorded in their snapshot.
+   */
+  private getInstanceDefinition(
+    tableName: string,
+    snapshot: Record<string, unknown> | undefined,
+  ): DurableWorkflowDefinition {
+    return this.registry.getDefinition(
+      tableName,
+      snapshot ? getSnapshotDefinitionVersion(snapshot) : undefined,
+    );
+  }
+
+  /**
+   * Applies the `migrate` functions of newer definition versions to a loaded
+   * instance and records one `workflow.migrate` history row per step.
+   * Resolves the original snapshot when no migration applies.
+   */
+  private async migrateInstance(
+    txAdapter: IWorkflowDbAdapter,
+    tableName: string,
+    existing: WorkflowRecord,
+  ): Promise<Record<string, unknown>> {
+    const { snapshot, steps } = migrateSnapshot(
+      existing.id,
+      this.registry.getOrThrow(tableName).definitions,
+      existing.snapshot,
+    );
+
+    for (const step of steps) {
+      await txAdapter.insertHistory(tableName, {
+        workflowId: existing.id,
+        fromState: step.fromState,
+        toState: step.toState,
+        eventType: WORKFLOW_MIGRATE_EVENT,
+        eventPayload: {
+          type: WORKFLOW_MIGRATE_EVENT,
+          fromVersion: step.fromVersion,
+          toVersion: step.toVersion,
+        },
+      });
       this.logger.log(
-        `Workflow ${tableName}/${id}: ${transitions.length} transition(s) persisted, state=${settledStateValue}`,
+        `Workflow ${tableName}/${existing.id}: migrated from version ${step.fromVersion} to ${step.toVersion}`,
       );
+    }
 
-      return {
-        id,
-        stateValue: settledStateValue,
-        snapshot: settledSnapshot as unknown as Record<string, unknown>,
-        transitionCount: transitions.length,
-        done: isDone,
-      };
+    return snapshot;
+  }
+
+  private async cancelInTransaction(
+    txAdapter: IWorkflowDbAdapter,
+    tableName: string,
+    id: string,
+    pending: PendingDelivery[],
+  ): Promise<WorkflowRecord | null> {
+    this.registry.getOrThrow(tableName);
+    const existing = await txAdapter.findOne(tableName, id, true);
+    if (!existing) {
+      return null;
+    }
+
+    const snapshot = existing.snapshot as unknown as DurableSnapshot;
+    if (snapshot.status !== 'active' && snapshot.status !== 'error') {
+      return existing;
+    }
+
+    const cancelledSnapshot: DurableSnapshot = {
+      ...snapshot,
+      status: 'cancelled',
+      timers: [],
+    };
+
+    await txAdapter.upsertLive(tableName, id, {
+      stateValue: existing.stateValue,
+      snapshot: cancelledSnapshot as unknown as Record<string, unknown>,
+      expiresAt: null,
+    });
+
+    await this.syncTimers(
+      txAdapter,
+      tableName,
+      id,
+      existing.snapshot,
+      cancelledSnapshot,
+    );
+
+    await txAdapter.insertHistory(tableName, {
+      workflowId: id,
+      fromState: existing.stateValue,
+      toState: existing.stateValue,
+      eventType: WORKFLOW_CANCEL_EVENT,
+      eventPayload: { type: WORKFLOW_CANCEL_EVENT },
+    });
+
+    await this.publish(txAdapter, tableName, id, WorkflowEventType.CANCELLED, {
+      workflowType: tableName,
+      instanceId: id,
+      state: existing.stateValue,
+      timestamp: new Date(),
+    } satisfies WorkflowCancelledEvent);
+
+    for (const child of snapshot.children ?? []) {
+      pending.push({
+        kind: 'cancel',
+        tableName: child.tableName,
+        id: child.id,
+      });
+    }
+
+    this.logger.log(
+      `Workflow ${tableName}/${id}: cancelled in state=${existing.stateValue}`,
+    );
+
+    return existing;
+  }
+
+  private async publish(
+    txAdapter: IWorkflowDbAdapter,
+    tableName: string,
+    workflowId: string,
+    eventType: WorkflowEventType,
+    payload: object,
+  ): Promise<void> {
+    await txAdapter.insertOutbox(tableName, {
+      workflowId,
+      eventType,
+      payload: payload as Record<string, unknown>,
     });
   }
 
+  private async syncTimers(
+    txAdapter: IWorkflowDbAdapter,
+    tableName: string,
+    workflowId: string,
+    previousSnapshot: Record<string, unknown> | undefined,
+    settledSnapshot: DurableSnapshot,
+  ): Promise<void> {
+    const timers = settledSnapshot.timers ?? [];
+    const previousTimers = previousSnapshot?.timers ?? [];
+    if (JSON.stringify(previousTimers) === JSON.stringify(timers)) {
+      return;
+    }
+
+    await txAdapter.replaceTimers(
+      tableName,
+      workflowId,
+      timers.map((timer) => ({
+        eventType: timer.event,
+        dueAt: new Date(timer.dueAt),
+      })),
+    );
+  }
+
   private async persistHistory(
     txAdapter: IWorkflowDbAdapter,
     tableName: string,
@@ -128,8 +1121,9 @@ export class WorkflowManager {
           workflowId,
           fromState: transition.fromState,
           toState: transition.toState,
-          eventType: event.type,
-          eventPayload: event as Record<string, unknown>,
+          eventType: (transition.event ?? event).type,
+          eventPayload: (transition.event ?? event) as Record<string, unknown>,
+          transitionId: transition.transitionId ?? null,
         }),
       ),
     );
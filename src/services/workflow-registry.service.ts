@@ -1,15 +1,42 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
 import { DiscoveryService, Reflector } from '@nestjs/core';
 import { DuplicateRegistrationError } from '../errors/duplicate-registration.error';
 import { WorkflowNotRegisteredError } from '../errors/workflow-not-registered.error';
-import { WORKFLOW_ENTITY_METADATA } from '../workflow.constants';
+import { WorkflowVersionNotRegisteredError } from '../errors/workflow-version-not-registered.error';
+import {
+  WORKFLOW_ENTITY_METADATA,
+  WORKFLOW_MODULE_OPTIONS,
+} from '../workflow.constants';
 import type { WorkflowEntityMetadata } from '../decorators/workflow-entity.decorator';
 import type { DurableWorkflowDefinition } from '../interfaces/durable-workflow-definition.interface';
+import type {
+  DeclarativeWorkflowDefinition,
+  WorkflowImplementations,
+} from '../interfaces/declarative-workflow-definition.interface';
 import { validateWorkflowDefinition } from '../utils/validate-workflow-definition';
+import { analyzeWorkflowDefinition } from '../utils/analyze-workflow-definition';
+import { getDefinitionVersion } from '../utils/definition-version';
+import { resolveDeclarativeDefinition } from '../utils/resolve-declarative-definition';
+
+export interface WorkflowRegistryOptions {
+  /** Guards and actions that declarative definitions reference by name. */
+  implementations?: WorkflowImplementations;
+  /** Rejects definitions with analysis diagnostics instead of logging them. */
+  strictDefinitions?: boolean;
+}
 
 export interface RegisteredWorkflow {
   tableName: string;
+  /** Latest version of the definition, used for new instances. */
   definition: DurableWorkflowDefinition;
+  /** Every registered version of the definition, oldest first. */
+  definitions: DurableWorkflowDefinition[];
   targetClass: Function;
 }
 
@@ -21,6 +48,9 @@ export class WorkflowRegistry implements OnModuleInit {
   constructor(
     private readonly discoveryService: DiscoveryService,
     private readonly reflector: Reflector,
+    @Optional()
+    @Inject(WORKFLOW_MODULE_OPTIONS)
+    private readonly options: WorkflowRegistryOptions = {},
   ) {}
 
   onModuleInit(): void {
@@ -46,9 +76,15 @@ export class WorkflowRegistry implements OnModuleInit {
     }
   }
 
+  /**
+   * Registers every version of a workflow. Guards and actions referenced by
+   * name are resolved against the module `implementations` here, so unknown
+   * names fail at startup. Analysis diagnostics of the latest version are
+   * logged as warnings, or thrown with `strictDefinitions`.
+   */
   register(
     tableName: string,
-    definition: DurableWorkflowDefinition,
+    definition: DeclarativeWorkflowDefinition | DeclarativeWorkflowDefinition[],
     targetClass: Function,
   ): void {
     const existing = this.registrations.get(tableName);
@@ -59,8 +95,45 @@ export class WorkflowRegistry implements OnModuleInit {
         targetClass.name,
       );
     }
-    validateWorkflowDefinition(definition);
-    this.registrations.set(tableName, { tableName, definition, targetClass });
+
+    const definitions = (Array.isArray(definition) ? definition : [definition])
+      .map((version) =>
+        resolveDeclarativeDefinition(version, this.options?.implementations),
+      )
+      .sort((a, b) => getDefinitionVersion(a) - getDefinitionVersion(b));
+    if (definitions.length === 0) {
+      throw new Error(`Workflow "${tableName}" has no definition`);
+    }
+    const latest = definitions[definitions.length - 1];
+    definitions.forEach((version, index) => {
+      validateWorkflowDefinition(version, {
+        strict: this.options?.strictDefinitions && version === latest,
+      });
+      if (
+        index > 0 &&
+        getDefinitionVersion(version) ===
+          getDefinitionVersion(definitions[index - 1])
+      ) {
+        throw new Error(
+          `Workflow "${tableName}" registers version ${getDefinitionVersion(version)} more than once`,
+        );
+      }
+    });
+
+    if (!this.options?.strictDefinitions) {
+      for (const diagnostic of analyzeWorkflowDefinition(latest)) {
+        this.logger.warn(
+          `Workflow definition ${latest.id}: state "${diagnostic.statePath}" ${diagnostic.code}: ${diagnostic.message}`,
+        );
+      }
+    }
+
+    this.registrations.set(tableName, {
+      tableName,
+      definition: latest,
+      definitions,
+      targetClass,
+    });
   }
 
   get(tableName: string): RegisteredWorkflow | undefined {
@@ -71,6 +144,28 @@ export class WorkflowRegistry implements OnModuleInit {
     return Array.from(this.registrations.values());
   }
 
+  /**
+   * Returns the given version of a workflow definition, or the latest
+   * version when omitted.
+   */
+  getDefinition(
+    tableName: string,
+    version?: number,
+  ): DurableWorkflowDefinition {
+    const registration = this.getOrThrow(tableName);
+    if (version === undefined) {
+      return registration.definition;
+    }
+
+    const definition = registration.definitions.find(
+      (candidate) => getDefinitionVersion(candidate) === version,
+    );
+    if (!definition) {
+      throw new WorkflowVersionNotRegisteredError(tableName, version);
+    }
+    return definition;
+  }
+
   getOrThrow(tableName: string): RegisteredWorkflow {
     const registration = this.registrations.get(tableName);
     if (!registration) {
@@ -0,0 +1,299 @@
+import type {
+  DurableStateDefinition,
+  DurableWorkflowDefinition,
+  TransitionConfig,
+  TransitionRule,
+} from '../interfaces/durable-workflow-definition.interface';
+import type { WorkflowDefinitionDiagnostic } from '../interfaces/workflow-definition-diagnostic.interface';
+import {
+  getAncestorPaths,
+  getEventHandlers,
+  getParentPath,
+  getStateNode,
+  isCompoundState,
+  isDescendantPath,
+  isFinalNode,
+  isParallelState,
+  joinStatePath,
+  listStatePaths,
+  resolveInitialLeaves,
+  resolveTargetPath,
+} from './state-paths';
+
+function toRules(input?: TransitionRule | TransitionRule[]): TransitionRule[] {
+  if (!input) return [];
+  return Array.isArray(input) ? input : [input];
+}
+
+function toConfig(rule: TransitionRule): TransitionConfig {
+  return typeof rule === 'string' ? { target: rule } : rule;
+}
+
+/**
+ * Rule lists of a state keyed by trigger, e.g. "on.PAY" or "always". Pass
+ * `on` to include inherited definition-level handlers.
+ */
+function getRuleLists(
+  stateDef: DurableStateDefinition,
+  on = stateDef.on,
+): Array<[string, TransitionRule[]]> {
+  return [
+    ...Object.entries(on ?? {}).map(
+      ([eventType, rules]): [string, TransitionRule[]] => [
+        `on.${eventType}`,
+        toRules(rules),
+      ],
+    ),
+    ...Object.entries(stateDef.after ?? {}).map(
+      ([delay, rules]): [string, TransitionRule[]] => [
+        `after.${delay}`,
+        toRules(rules),
+      ],
+    ),
+    ['always', toRules(stateDef.always)],
+    ['onDone', toRules(stateDef.onDone)],
+    ['onError', toRules(stateDef.onError)],
+  ];
+}
+
+/**
+ * Resolves every target a state can transition to, including the targets
+ * of transition-level `onError` handlers.
+ */
+function getTargets(
+  definition: DurableWorkflowDefinition,
+  statePath: string,
+): string[] {
+  const stateDef = getStateNode(definition, statePath)!;
+  const rules = getRuleLists(
+    stateDef,
+    getEventHandlers(definition, statePath),
+  ).flatMap(([, list]) => list);
+  const targets: string[] = [];
+
+  for (let index = 0; index < rules.length; index += 1) {
+    const config = toConfig(rules[index]);
+    const target =
+      config.target === undefined
+        ? undefined
+        : resolveTargetPath(definition, statePath, config.target);
+    if (target !== undefined) targets.push(target);
+    rules.push(...toRules(config.onError));
+  }
+
+  return targets;
+}
+
+/**
+ * Collects the states active once the initial state has been entered or
+ * any transition has been taken from an active state.
+ */
+function findReachableStates(
+  definition: DurableWorkflowDefinition,
+): Set<string> {
+  const reached = new Set<string>();
+  const pending: string[] = [];
+
+  const mark = (statePath: string) => {
+    if (reached.has(statePath)) return;
+    reached.add(statePath);
+    pending.push(statePath);
+  };
+  const descend = (statePath: string) => {
+    mark(statePath);
+    const stateDef = getStateNode(definition, statePath);
+    if (!isCompoundState(stateDef)) return;
+    if (isParallelState(stateDef)) {
+      for (const key of Object.keys(stateDef!.states!)) {
+        descend(joinStatePath(statePath, key));
+      }
+    } else if (stateDef!.initial !== undefined) {
+      descend(joinStatePath(statePath, stateDef!.initial));
+    }
+  };
+  // Entering a state inside a parallel state enters its sibling regions too
+  const enter = (target: string) => {
+    for (const ancestor of getAncestorPaths(target)) {
+      mark(ancestor);
+      const parentPath = getParentPath(ancestor);
+      const parent = getStateNode(definition, parentPath);
+      if (parentPath === '' || !isParallelState(parent)) continue;
+      for (const key of Object.keys(parent!.states!)) {
+        const region = joinStatePath(parentPath, key);
+        if (region !== ancestor) descend(region);
+      }
+    }
+    descend(target);
+  };
+
+  enter(definition.initial);
+  while (pending.length > 0) {
+    for (const target of getTargets(definition, pending.shift()!)) {
+      enter(target);
+    }
+  }
+
+  return reached;
+}
+
+/**
+ * Follows the `always` transitions that are taken unconditionally from each
+ * atomic state: the first `always` rule found from the state outwards,
+ * provided it has no guard. Any cycle among them never settles.
+ */
+function findAlwaysCycles(definition: DurableWorkflowDefinition): string[][] {
+  const next = new Map<string, string[]>();
+
+  for (const statePath of listStatePaths(definition)) {
+    if (isCompoundState(getStateNode(definition, statePath))) continue;
+
+    const source = getAncestorPaths(statePath)
+      .reverse()
+      .find(
+        (path) => toRules(getStateNode(definition, path)!.always).length > 0,
+      );
+    if (source === undefined) continue;
+
+    const config = toConfig(
+      toRules(getStateNode(definition, source)!.always)[0],
+    );
+    const target =
+      config.guard === undefined && config.target !== undefined
+        ? resolveTargetPath(definition, source, config.target)
+        : undefined;
+    if (target !== undefined) {
+      next.set(statePath, resolveInitialLeaves(definition, target));
+    }
+  }
+
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+  const visit = (statePath: string, trail: string[]) => {
+    const index = trail.indexOf(statePath);
+    if (index !== -1) {
+      cycles.push([...trail.slice(index), statePath]);
+      return;
+    }
+    if (visited.has(statePath)) return;
+    visited.add(statePath);
+    for (const leaf of next.get(statePath) ?? []) {
+      visit(leaf, [...trail, statePath]);
+    }
+  };
+  for (const statePath of next.keys()) {
+    visit(statePath, []);
+  }
+
+  return cycles;
+}
+
+function hasLeavingTransition(
+  definition: DurableWorkflowDefinition,
+  statePath: string,
+): boolean {
+  return getAncestorPaths(statePath).some((path) => {
+    const stateDef = getStateNode(definition, path)!;
+    if (
+      stateDef.timeout !== undefined ||
+      stateDef.timeoutMinutes !== undefined
+    ) {
+      return true;
+    }
+
+    const rules = [
+      ...Object.values(getEventHandlers(definition, path)).flatMap(toRules),
+      ...Object.values(stateDef.after ?? {}).flatMap(toRules),
+      ...toRules(stateDef.always),
+    ];
+    return rules.some((rule) => {
+      const { target } = toConfig(rule);
+      return (
+        target !== undefined &&
+        !isDescendantPath(
+          resolveTargetPath(definition, path, target) ?? statePath,
+          statePath,
+        )
+      );
+    });
+  });
+}
+
+/**
+ * Looks for mistakes that are structurally valid but certainly unintended:
+ * unreachable states, non-final states that can never be left, unguarded
+ * `always` loops, rules shadowed by an unguarded rule and transitions on
+ * final states. Expects a definition that passed `validateWorkflowDefinition`.
+ */
+export function analyzeWorkflowDefinition(
+  definition: DurableWorkflowDefinition,
+): WorkflowDefinitionDiagnostic[] {
+  const diagnostics: WorkflowDefinitionDiagnostic[] = [];
+  const reached = findReachableStates(definition);
+
+  for (const statePath of listStatePaths(definition)) {
+    const stateDef = getStateNode(definition, statePath)!;
+
+    // Children of an unreachable state are not reported again
+    const parentPath = getParentPath(statePath);
+    if (
+      !reached.has(statePath) &&
+      (parentPath === '' || reached.has(parentPath))
+    ) {
+      diagnostics.push({
+        code: 'unreachable-state',
+        statePath,
+        message: 'no transition leads to this state',
+      });
+    }
+
+    const ruleLists = getRuleLists(stateDef);
+
+    if (isFinalNode(stateDef)) {
+      const triggers = ruleLists
+        .filter(([, rules]) => rules.length > 0)
+        .map(([trigger]) => trigger);
+      if (triggers.length > 0) {
+        diagnostics.push({
+          code: 'final-state-transition',
+          statePath,
+          message: `final state declares ${triggers.join(', ')}, which are never taken`,
+        });
+      }
+    } else if (
+      !isCompoundState(stateDef) &&
+      !hasLeavingTransition(definition, statePath)
+    ) {
+      diagnostics.push({
+        code: 'dead-end-state',
+        statePath,
+        message:
+          'non-final state has no outgoing transitions or timeout and can never be left',
+      });
+    }
+
+    for (const [trigger, rules] of ruleLists) {
+      const unguarded = rules.findIndex(
+        (rule) => toConfig(rule).guard === undefined,
+      );
+      if (unguarded !== -1 && unguarded < rules.length - 1) {
+        diagnostics.push({
+          code: 'shadowed-rule',
+          statePath,
+          message: `${trigger} rule ${unguarded + 1} has no guard, so the ${rules.length - unguarded - 1} rule(s) after it are never taken`,
+        });
+      }
+    }
+  }
+
+  for (const cycle of findAlwaysCycles(definition)) {
+    diagnostics.push({
+      code: 'always-cycle',
+      statePath: cycle[0],
+      message: `unguarded always transitions loop through ${cycle
+        .map((statePath) => `"${statePath}"`)
+        .join(' -> ')} and always raise RecursiveTransitionError`,
+    });
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,27 @@
+import type {
+  WorkflowAction,
+  WorkflowActionInput,
+} from '../interfaces/durable-workflow-definition.interface';
+
+const contextActions = new WeakSet<WorkflowAction>();
+
+/**
+ * Creates an action that merges the returned keys into the context, e.g.
+ * `assign(({ context }) => ({ attempts: Number(context.attempts) + 1 }))`.
+ * Having no side effects, it also runs in dry runs (`simulate`,
+ * `getAvailableEvents`) instead of the action stub.
+ */
+export function assign(
+  updater: (input: WorkflowActionInput) => Record<string, unknown>,
+): WorkflowAction {
+  const action: WorkflowAction = ({ context, event, fromState, toState }) => {
+    Object.assign(context, updater({ context, event, fromState, toState }));
+  };
+  contextActions.add(action);
+  return action;
+}
+
+/** Whether the action was created by `assign`. */
+export function isContextAction(action: WorkflowAction): boolean {
+  return contextActions.has(action);
+}
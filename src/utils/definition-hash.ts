@@ -0,0 +1,43 @@
+import { createHash } from 'crypto';
+import type { DurableWorkflowDefinition } from '../interfaces/durable-workflow-definition.interface';
+
+const hashes = new WeakMap<DurableWorkflowDefinition, string>();
+
+/**
+ * Serializes a value with sorted object keys. Functions (guards, actions,
+ * migrations) only contribute their position, not their source.
+ */
+function canonicalize(value: unknown): string {
+  if (typeof value === 'function') {
+    return '"[function]"';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Returns the SHA-256 hex digest of a definition's structure. Snapshots
+ * record it so instances written by a different definition can be spotted.
+ */
+export function getDefinitionHash(
+  definition: DurableWorkflowDefinition,
+): string {
+  let hash = hashes.get(definition);
+  if (!hash) {
+    hash = createHash('sha256').update(canonicalize(definition)).digest('hex');
+    hashes.set(definition, hash);
+  }
+  return hash;
+}
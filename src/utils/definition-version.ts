@@ -0,0 +1,20 @@
+import type { DurableWorkflowDefinition } from '../interfaces/durable-workflow-definition.interface';
+import { DEFAULT_DEFINITION_VERSION } from '../workflow.constants';
+
+export function getDefinitionVersion(
+  definition: DurableWorkflowDefinition,
+): number {
+  return definition.version ?? DEFAULT_DEFINITION_VERSION;
+}
+
+/**
+ * Reads the definition version an instance was created with. Snapshots
+ * written before definitions were versioned run on version 1.
+ */
+export function getSnapshotDefinitionVersion(
+  snapshot: Record<string, unknown>,
+): number {
+  return typeof snapshot.definitionVersion === 'number'
+    ? snapshot.definitionVersion
+    : DEFAULT_DEFINITION_VERSION;
+}
@@ -0,0 +1,53 @@
+import type { DurableWorkflowDefinition } from '../interfaces/durable-workflow-definition.interface';
+import { getStateNode, listStatePaths } from './state-paths';
+
+const DELAY_REGEX = /^(\d+)(ms|s|m|h|d)?$/;
+
+const DELAY_UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses an `after` delay key into milliseconds. Accepts a plain number of
+ * milliseconds ("5000") or a number with a unit ("30s", "15m", "24h", "7d").
+ */
+export function parseDelay(delay: string): number | undefined {
+  const match = DELAY_REGEX.exec(delay);
+  if (!match) return undefined;
+  return Number(match[1]) * DELAY_UNIT_MS[match[2] ?? 'ms'];
+}
+
+/**
+ * Internal event type sent when the `after` timer of a state fires,
+ * e.g. "after.15m.awaitingPayment".
+ */
+export function getAfterEventType(statePath: string, delay: string): string {
+  return `after.${delay}.${statePath}`;
+}
+
+/**
+ * Finds the state that declared the `after` transition behind an event type.
+ */
+export function getAfterEventState(
+  definition: DurableWorkflowDefinition,
+  eventType: string,
+): string | undefined {
+  return listStatePaths(definition).find((path) =>
+    Object.keys(getStateNode(definition, path)?.after ?? {}).some(
+      (delay) => getAfterEventType(path, delay) === eventType,
+    ),
+  );
+}
+
+export function hasDelayedTransitions(
+  definition: DurableWorkflowDefinition,
+): boolean {
+  return listStatePaths(definition).some((path) => {
+    const after = getStateNode(definition, path)?.after;
+    return after !== undefined && Object.keys(after).length > 0;
+  });
+}
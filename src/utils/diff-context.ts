@@ -0,0 +1,20 @@
+import type { WorkflowContextChange } from '../interfaces/workflow-simulation.interface';
+
+/**
+ * Lists the top-level context keys whose JSON value differs. Added keys
+ * have `before: undefined`, removed keys `after: undefined`.
+ */
+export function diffContext(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): Record<string, WorkflowContextChange> {
+  const changes: Record<string, WorkflowContextChange> = {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { before: before[key], after: after[key] };
+    }
+  }
+
+  return changes;
+}
@@ -2,6 +2,12 @@ type StateValue = string | { [key: string]: StateValue };
 
 export function flattenStateValue(value: StateValue): string {
   if (typeof value === 'string') return value;
-  const [key, child] = Object.entries(value)[0];
-  return `${key}.${flattenStateValue(child)}`;
+  // Parallel states have one key per region; their leaves are comma-joined
+  return Object.entries(value)
+    .flatMap(([key, child]) =>
+      flattenStateValue(child)
+        .split(',')
+        .map((leaf) => `${key}.${leaf}`),
+    )
+    .join(',');
 }
@@ -0,0 +1,533 @@
+import { UnsupportedXStateConfigError } from '../errors/unsupported-xstate-config.error';
+import type {
+  DurableStateDefinition,
+  DurableWorkflowDefinition,
+  TransitionConfig,
+  TransitionRule,
+  WorkflowAction,
+  WorkflowActionEntry,
+  WorkflowGuard,
+} from '../interfaces/durable-workflow-definition.interface';
+import type {
+  XStateActionReference,
+  XStateConfigIssue,
+  XStateGuardReference,
+  XStateImplementations,
+  XStateMachineConfig,
+  XStateStateNodeConfig,
+  XStateTransitionConfig,
+  XStateTransitions,
+} from '../interfaces/xstate-config.interface';
+import { parseDelay } from './delayed-transitions';
+import {
+  STATE_PATH_SEPARATOR,
+  getParentPath,
+  isDescendantPath,
+  joinStatePath,
+  resolveTargetPath,
+} from './state-paths';
+import { validateWorkflowDefinition } from './validate-workflow-definition';
+
+const STATE_KEYS = new Set([
+  'id',
+  'type',
+  'initial',
+  'states',
+  'on',
+  'always',
+  'after',
+  'onDone',
+  'entry',
+  'exit',
+  'tags',
+  'description',
+  'meta',
+]);
+
+/** Root keys that are converted or only carry documentation or typegen data. */
+const ROOT_KEYS = new Set([
+  'id',
+  'initial',
+  'context',
+  'states',
+  'on',
+  'description',
+  'meta',
+  'schema',
+  'tsTypes',
+  'types',
+  'predictableActionArguments',
+  'preserveActionOrder',
+]);
+
+const TRANSITION_KEYS = new Set([
+  'target',
+  'guard',
+  'cond',
+  'actions',
+  'description',
+]);
+
+/** A converted transition whose target still holds the absolute state path. */
+interface PendingTarget {
+  config: TransitionConfig;
+  source: string;
+  issuePath: string;
+}
+
+function toArray<T>(value?: T | T[]): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinIssuePath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+class XStateConfigConverter {
+  private readonly issues: XStateConfigIssue[] = [];
+  /** XState state ids (explicit and `<machine>.<path>` defaults) -> state path. */
+  private readonly ids = new Map<string, string>();
+  private readonly pendingTargets: PendingTarget[] = [];
+
+  constructor(
+    private readonly config: XStateMachineConfig,
+    private readonly implementations: XStateImplementations,
+  ) {}
+
+  convert(): DurableWorkflowDefinition {
+    const { config } = this;
+
+    for (const key of Object.keys(config)) {
+      if (ROOT_KEYS.has(key)) continue;
+      this.report(
+        key,
+        STATE_KEYS.has(key)
+          ? `root-level "${key}" is not supported`
+          : `unsupported key "${key}"`,
+      );
+    }
+    if (config.context !== undefined && !isPlainObject(config.context)) {
+      this.report('context', 'context must be a JSON object');
+    }
+    if (!isPlainObject(config.states)) {
+      this.report('states', 'the machine must declare states');
+    }
+    if (typeof config.initial !== 'string') {
+      this.report('initial', 'the machine must declare an initial state');
+    }
+
+    const states = isPlainObject(config.states)
+      ? this.collectIds(config.states, '')
+      : {};
+    const definition: DurableWorkflowDefinition = {
+      id: config.id,
+      initial: config.initial ?? '',
+      context: isPlainObject(config.context) ? { ...config.context } : {},
+      states: {},
+    };
+    definition.states = this.convertStates(states, '', 'states');
+    // Root-level transitions become the definition-level `on`
+    if (config.on !== undefined) {
+      definition.on = this.convertOn(config.on, '', 'on');
+    }
+
+    for (const pending of this.pendingTargets) {
+      this.relativizeTarget(definition, pending);
+    }
+
+    if (this.issues.length > 0) {
+      throw new UnsupportedXStateConfigError(config.id, this.issues);
+    }
+
+    validateWorkflowDefinition(definition);
+    return definition;
+  }
+
+  private report(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  private collectIds(
+    states: Record<string, XStateStateNodeConfig>,
+    parentPath: string,
+  ): Record<string, XStateStateNodeConfig> {
+    for (const [key, node] of Object.entries(states)) {
+      const path = joinStatePath(parentPath, key);
+      this.ids.set(`${this.config.id}${STATE_PATH_SEPARATOR}${path}`, path);
+      if (typeof node?.id === 'string') {
+        this.ids.set(node.id, path);
+      }
+      if (isPlainObject(node?.states)) {
+        this.collectIds(node.states, path);
+      }
+    }
+    return states;
+  }
+
+  private convertStates(
+    states: Record<string, XStateStateNodeConfig>,
+    parentPath: string,
+    issuePath: string,
+  ): Record<string, DurableStateDefinition> {
+    const converted: Record<string, DurableStateDefinition> = {};
+    for (const [key, node] of Object.entries(states)) {
+      converted[key] = this.convertState(
+        node,
+        joinStatePath(parentPath, key),
+        joinIssuePath(issuePath, key),
+      );
+    }
+    return converted;
+  }
+
+  private convertState(
+    node: XStateStateNodeConfig,
+    statePath: string,
+    issuePath: string,
+  ): DurableStateDefinition {
+    const state: DurableStateDefinition = {};
+    if (!isPlainObject(node)) {
+      this.report(issuePath, 'state must be an object');
+      return state;
+    }
+
+    for (const key of Object.keys(node)) {
+      if (!STATE_KEYS.has(key)) {
+        this.report(joinIssuePath(issuePath, key), `unsupported key "${key}"`);
+      }
+    }
+
+    if (node.type === 'final') {
+      state.final = true;
+    } else if (node.type === 'parallel') {
+      state.type = 'parallel';
+    } else if (
+      node.type !== undefined &&
+      node.type !== 'atomic' &&
+      node.type !== 'compound'
+    ) {
+      this.report(
+        joinIssuePath(issuePath, 'type'),
+        `state type "${String(node.type)}" is not supported`,
+      );
+    }
+
+    if (node.initial !== undefined) {
+      state.initial = node.initial;
+    }
+    if (isPlainObject(node.states)) {
+      state.states = this.convertStates(
+        node.states,
+        statePath,
+        joinIssuePath(issuePath, 'states'),
+      );
+    }
+
+    if (node.on !== undefined) {
+      state.on = this.convertOn(
+        node.on,
+        statePath,
+        joinIssuePath(issuePath, 'on'),
+      );
+    }
+
+    if (node.always !== undefined) {
+      state.always = this.convertTransitions(
+        node.always,
+        statePath,
+        joinIssuePath(issuePath, 'always'),
+      );
+    }
+
+    if (node.onDone !== undefined) {
+      state.onDone = this.convertTransitions(
+        node.onDone,
+        statePath,
+        joinIssuePath(issuePath, 'onDone'),
+      );
+    }
+
+    if (node.after !== undefined) {
+      state.after = {};
+      for (const [delay, rules] of Object.entries(node.after)) {
+        const delayPath = joinIssuePath(issuePath, `after.${delay}`);
+        if (parseDelay(delay) === undefined) {
+          this.report(delayPath, `named delay "${delay}" is not supported`);
+          continue;
+        }
+        state.after[delay] = this.convertTransitions(
+          rules,
+          statePath,
+          delayPath,
+        );
+      }
+    }
+
+    if (node.entry !== undefined) {
+      state.entry = this.resolveStateActions(
+        node.entry,
+        joinIssuePath(issuePath, 'entry'),
+      );
+    }
+    if (node.exit !== undefined) {
+      state.exit = this.resolveStateActions(
+        node.exit,
+        joinIssuePath(issuePath, 'exit'),
+      );
+    }
+
+    if (node.tags !== undefined) {
+      state.tags = toArray(node.tags);
+    }
+    if (isPlainObject(node.meta)) {
+      state.meta = node.meta;
+    }
+
+    return state;
+  }
+
+  private convertOn(
+    on: Record<string, XStateTransitions>,
+    source: string,
+    issuePath: string,
+  ): Record<string, TransitionRule | TransitionRule[]> {
+    const converted: Record<string, TransitionRule | TransitionRule[]> = {};
+    for (const [eventType, rules] of Object.entries(on)) {
+      const eventPath = joinIssuePath(issuePath, eventType);
+      // `'*'` maps to the wildcard handler, partial wildcards have no
+      // equivalent. Unlike in XState, an ancestor's explicit handler wins
+      // over the wildcard (see docs/xstate-import.md)
+      if (eventType.endsWith('.*')) {
+        this.report(eventPath, 'partial wildcard events are not supported');
+        continue;
+      }
+      converted[eventType] = this.convertTransitions(rules, source, eventPath);
+    }
+    return converted;
+  }
+
+  private convertTransitions(
+    rules: XStateTransitions,
+    source: string,
+    issuePath: string,
+  ): TransitionRule | TransitionRule[] {
+    if (!Array.isArray(rules)) {
+      return this.convertTransition(rules, source, issuePath);
+    }
+    return rules.map((rule, index) =>
+      this.convertTransition(rule, source, `${issuePath}[${index}]`),
+    );
+  }
+
+  private convertTransition(
+    rule: XStateTransitionConfig | string | undefined,
+    source: string,
+    issuePath: string,
+  ): TransitionConfig {
+    const config: TransitionConfig = {};
+    const input: XStateTransitionConfig =
+      typeof rule === 'string' ? { target: rule } : (rule ?? {});
+
+    for (const key of Object.keys(input)) {
+      if (!TRANSITION_KEYS.has(key)) {
+        this.report(joinIssuePath(issuePath, key), `unsupported key "${key}"`);
+      }
+    }
+
+    const targets = toArray(input.target);
+    if (targets.length > 1) {
+      this.report(
+        joinIssuePath(issuePath, 'target'),
+        'multiple targets are not supported',
+      );
+    } else if (targets.length === 1) {
+      const target = this.resolveTarget(targets[0], source);
+      if (target === undefined) {
+        this.report(
+          joinIssuePath(issuePath, 'target'),
+          `unknown target "${targets[0]}"`,
+        );
+      } else {
+        config.target = target;
+        this.pendingTargets.push({ config, source, issuePath });
+      }
+    }
+
+    if (input.guard !== undefined && input.cond !== undefined) {
+      this.report(issuePath, 'declare either guard or cond, not both');
+    }
+    const guardKey = input.cond !== undefined ? 'cond' : 'guard';
+    const guardRef = input.guard ?? input.cond;
+    if (guardRef !== undefined) {
+      config.guard = this.resolveGuard(
+        guardRef,
+        joinIssuePath(issuePath, guardKey),
+      );
+    }
+
+    if (input.actions !== undefined) {
+      config.actions = this.resolveActions(
+        input.actions,
+        joinIssuePath(issuePath, 'actions'),
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   * Resolves an XState target ("sibling", ".child" or "#id") to an
+   * absolute state path.
+   */
+  private resolveTarget(target: string, source: string): string | undefined {
+    let path: string | undefined;
+    if (target.startsWith('#')) {
+      const reference = target.slice(1);
+      const id = Array.from(this.ids.keys())
+        .filter(
+          (candidate) =>
+            reference === candidate ||
+            reference.startsWith(`${candidate}${STATE_PATH_SEPARATOR}`),
+        )
+        .sort((a, b) => b.length - a.length)[0];
+      path =
+        id === undefined
+          ? undefined
+          : this.ids.get(id)! + reference.slice(id.length);
+    } else if (target.startsWith(STATE_PATH_SEPARATOR)) {
+      path = joinStatePath(source, target.slice(1));
+    } else {
+      path = joinStatePath(getParentPath(source), target);
+    }
+
+    return path !== undefined && this.hasState(path) ? path : undefined;
+  }
+
+  private hasState(path: string): boolean {
+    let states: Record<string, XStateStateNodeConfig> | undefined =
+      this.config.states;
+    for (const key of path.split(STATE_PATH_SEPARATOR)) {
+      if (!states || !Object.prototype.hasOwnProperty.call(states, key)) {
+        return false;
+      }
+      states = (states[key] as XStateStateNodeConfig | null)?.states;
+    }
+    return true;
+  }
+
+  /**
+   * Durable targets resolve from the source's parent scope upwards, so the
+   * absolute path is shortened to the part below the nearest common scope.
+   */
+  private relativizeTarget(
+    definition: DurableWorkflowDefinition,
+    { config, source, issuePath }: PendingTarget,
+  ): void {
+    const path = config.target!;
+    let scope = getParentPath(source);
+    while (scope !== '' && (scope === path || !isDescendantPath(path, scope))) {
+      scope = getParentPath(scope);
+    }
+
+    const target = scope === '' ? path : path.slice(scope.length + 1);
+    if (resolveTargetPath(definition, source, target) !== path) {
+      this.report(
+        joinIssuePath(issuePath, 'target'),
+        `target "${path}" would resolve to a different state`,
+      );
+      return;
+    }
+    config.target = target;
+  }
+
+  private resolveGuard(
+    reference: XStateGuardReference,
+    issuePath: string,
+  ): WorkflowGuard | undefined {
+    const name = this.resolveName(reference, 'guard', issuePath);
+    if (name === undefined) return undefined;
+
+    const guard = this.implementations.guards?.[name];
+    if (!guard) {
+      this.report(issuePath, `guard "${name}" has no implementation`);
+    }
+    return guard;
+  }
+
+  private resolveActions(
+    references: XStateActionReference | XStateActionReference[],
+    issuePath: string,
+  ): WorkflowActionEntry[] {
+    const actions: WorkflowActionEntry[] = [];
+    const list = toArray(references);
+
+    list.forEach((reference, index) => {
+      const actionPath = Array.isArray(references)
+        ? `${issuePath}[${index}]`
+        : issuePath;
+      const name = this.resolveName(reference, 'action', actionPath);
+      if (name === undefined) return;
+
+      const action = this.implementations.actions?.[name];
+      if (!action) {
+        this.report(actionPath, `action "${name}" has no implementation`);
+        return;
+      }
+      actions.push(action);
+    });
+
+    return actions;
+  }
+
+  /** Entry and exit actions are plain functions; retry policies only apply to transitions. */
+  private resolveStateActions(
+    references: XStateActionReference | XStateActionReference[],
+    issuePath: string,
+  ): WorkflowAction[] {
+    return this.resolveActions(references, issuePath).flatMap((entry) => {
+      if (typeof entry === 'function') return [entry];
+      this.report(
+        issuePath,
+        'retry policies are only supported on transition actions',
+      );
+      return [];
+    });
+  }
+
+  private resolveName(
+    reference: XStateActionReference | XStateGuardReference,
+    kind: 'action' | 'guard',
+    issuePath: string,
+  ): string | undefined {
+    if (typeof reference === 'string') {
+      return reference;
+    }
+    if (!isPlainObject(reference) || typeof reference.type !== 'string') {
+      this.report(issuePath, `${kind} must be referenced by name`);
+      return undefined;
+    }
+    if (reference.params !== undefined) {
+      this.report(issuePath, `${kind} params are not supported`);
+      return undefined;
+    }
+    return reference.type;
+  }
+}
+
+/**
+ * Converts a JSON machine config exported by XState into a durable
+ * definition, resolving named guards and actions from `implementations`.
+ * Throws `UnsupportedXStateConfigError` listing every construct that has
+ * no durable equivalent.
+ */
+export function fromXStateConfig(
+  config: XStateMachineConfig,
+  implementations: XStateImplementations = {},
+): DurableWorkflowDefinition {
+  return new XStateConfigConverter(config, implementations).convert();
+}
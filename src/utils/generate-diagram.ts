@@ -0,0 +1,317 @@
+import type {
+  DeclarativeGuard,
+  DeclarativeWorkflowDefinition,
+} from '../interfaces/declarative-workflow-definition.interface';
+import type {
+  DurableStateDefinition,
+  DurableWorkflowDefinition,
+  TransitionRule,
+} from '../interfaces/durable-workflow-definition.interface';
+import type { WorkflowDiagramOptions } from '../interfaces/workflow-diagram.interface';
+import {
+  getEventHandlers,
+  getStateNode,
+  isCompoundState,
+  isFinalNode,
+  isParallelState,
+  joinStatePath,
+  listStatePaths,
+  parseStateValue,
+  resolveTargetPath,
+} from './state-paths';
+
+interface DiagramTransition {
+  source: string;
+  target: string;
+  label: string;
+}
+
+const INITIAL_NODE = '[*]';
+const HIGHLIGHT_COLOR = '#fde68a';
+const HIGHLIGHT_STROKE = '#b45309';
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function getGuardName(guard: DeclarativeGuard): string {
+  if (typeof guard === 'string') return guard;
+  if (typeof guard === 'function') return guard.name || 'guard';
+  return guard.type;
+}
+
+function getTimeoutLabel(node: DurableStateDefinition): string | undefined {
+  const minutes = node.timeout?.minutes ?? node.timeoutMinutes;
+  if (typeof minutes !== 'number') return undefined;
+  return node.timeout?.event
+    ? `timeout ${minutes} min (${node.timeout.event})`
+    : `timeout ${minutes} min`;
+}
+
+/**
+ * Lists the state-changing transitions of every state in declaration order.
+ * Targetless transitions are left out since they never leave the state.
+ */
+function collectTransitions(
+  definition: DurableWorkflowDefinition,
+): DiagramTransition[] {
+  const transitions: DiagramTransition[] = [];
+
+  for (const source of listStatePaths(definition)) {
+    const node = getStateNode(definition, source)!;
+    const add = (
+      label: string,
+      rules: TransitionRule | TransitionRule[] | undefined,
+    ) => {
+      for (const rule of toArray(rules)) {
+        const config = typeof rule === 'string' ? { target: rule } : rule;
+        const target =
+          config.target === undefined
+            ? undefined
+            : resolveTargetPath(definition, source, config.target);
+        if (target === undefined) continue;
+
+        const guard: DeclarativeGuard | undefined = config.guard;
+        transitions.push({
+          source,
+          target,
+          label:
+            guard === undefined ? label : `${label} [${getGuardName(guard)}]`,
+        });
+      }
+    };
+
+    for (const [eventType, rules] of Object.entries(
+      getEventHandlers(definition, source),
+    )) {
+      add(eventType, rules);
+    }
+    for (const [delay, rules] of Object.entries(node.after ?? {})) {
+      add(`after ${delay}`, rules);
+    }
+    add('always', node.always);
+    add('done', node.onDone);
+    add('error', node.onError);
+  }
+
+  return transitions;
+}
+
+/**
+ * Mermaid state IDs are global and cannot contain dots, so nested states
+ * keep their key as ID unless it is ambiguous.
+ */
+function createMermaidIds(
+  definition: DurableWorkflowDefinition,
+): Map<string, string> {
+  const paths = listStatePaths(definition);
+  const keyOf = (statePath: string) =>
+    statePath.slice(statePath.lastIndexOf('.') + 1);
+  const keyCounts = new Map<string, number>();
+  for (const statePath of paths) {
+    const key = keyOf(statePath);
+    keyCounts.set(key, (keyCounts.get(key) ?? 0) + 1);
+  }
+
+  return new Map(
+    paths.map((statePath) => {
+      const key = keyOf(statePath);
+      const unique = keyCounts.get(key) === 1 && /^\w+$/.test(key);
+      return [statePath, unique ? key : statePath.replace(/\W/g, '_')];
+    }),
+  );
+}
+
+function renderMermaid(
+  definition: DurableWorkflowDefinition,
+  active: Set<string>,
+): string {
+  const ids = createMermaidIds(definition);
+  const lines = ['stateDiagram-v2'];
+
+  const renderStates = (
+    states: Record<string, DurableStateDefinition>,
+    parentPath: string,
+    initial: string | undefined,
+    regions: boolean,
+    depth: number,
+  ) => {
+    const pad = '  '.repeat(depth);
+    if (initial !== undefined) {
+      lines.push(
+        `${pad}${INITIAL_NODE} --> ${ids.get(joinStatePath(parentPath, initial))}`,
+      );
+    }
+
+    Object.entries(states).forEach(([key, node], index) => {
+      const statePath = joinStatePath(parentPath, key);
+      const id = ids.get(statePath)!;
+      const timeout = getTimeoutLabel(node);
+      if (regions && index > 0) {
+        lines.push(`${pad}--`);
+      }
+
+      if (isCompoundState(node)) {
+        const parallel = isParallelState(node);
+        lines.push(`${pad}state ${id} {`);
+        renderStates(
+          node.states!,
+          statePath,
+          parallel ? undefined : node.initial,
+          parallel,
+          depth + 1,
+        );
+        lines.push(`${pad}}`);
+        if (timeout) lines.push(`${pad}note right of ${id} : ${timeout}`);
+      } else {
+        lines.push(
+          id === key ? `${pad}${id}` : `${pad}state "${key}" as ${id}`,
+        );
+        if (timeout) lines.push(`${pad}${id} : ${timeout}`);
+      }
+
+      if (isFinalNode(node)) {
+        lines.push(`${pad}${id} --> ${INITIAL_NODE}`);
+      }
+    });
+  };
+
+  renderStates(definition.states, '', definition.initial, false, 1);
+
+  for (const { source, target, label } of collectTransitions(definition)) {
+    lines.push(`  ${ids.get(source)} --> ${ids.get(target)} : ${label}`);
+  }
+
+  if (active.size > 0) {
+    lines.push(
+      `  classDef current fill:${HIGHLIGHT_COLOR},stroke:${HIGHLIGHT_STROKE},stroke-width:2px`,
+      `  class ${Array.from(active, (statePath) => ids.get(statePath)).join(',')} current`,
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function quoteDot(...parts: string[]): string {
+  const escaped = parts.map((part) =>
+    part.replace(/\\/g, '\\\\').replace(/"/g, '\\"'),
+  );
+  return `"${escaped.join('\\n')}"`;
+}
+
+function renderDot(
+  definition: DurableWorkflowDefinition,
+  active: Set<string>,
+): string {
+  const lines = [
+    `digraph ${quoteDot(definition.id)} {`,
+    '  compound=true;',
+    '  node [shape=box, style=rounded];',
+  ];
+  const highlight = `style="rounded,filled", fillcolor="${HIGHLIGHT_COLOR}"`;
+  const cluster = (statePath: string) => `cluster_${statePath}`;
+
+  // Compound states are clusters anchored on a point node named after the
+  // state, which doubles as the marker of their initial child
+  const formatEdge = (
+    from: string,
+    to: string,
+    attributes: string[] = [],
+    fromMarker = false,
+  ) => {
+    const attrs = [...attributes];
+    const fromCompound =
+      !fromMarker && isCompoundState(getStateNode(definition, from));
+    const toCompound = isCompoundState(getStateNode(definition, to));
+    if (from !== to) {
+      if (fromCompound) attrs.push(`ltail=${quoteDot(cluster(from))}`);
+      if (toCompound) attrs.push(`lhead=${quoteDot(cluster(to))}`);
+    }
+    const suffix = attrs.length > 0 ? ` [${attrs.join(', ')}]` : '';
+    return `${quoteDot(from)} -> ${quoteDot(to)}${suffix};`;
+  };
+
+  const renderStates = (
+    states: Record<string, DurableStateDefinition>,
+    parentPath: string,
+    depth: number,
+  ) => {
+    const pad = '  '.repeat(depth);
+
+    for (const [key, node] of Object.entries(states)) {
+      const statePath = joinStatePath(parentPath, key);
+      const timeout = getTimeoutLabel(node);
+      const label = timeout ? quoteDot(key, timeout) : quoteDot(key);
+
+      if (isCompoundState(node)) {
+        const parallel = isParallelState(node);
+        lines.push(`${pad}subgraph ${quoteDot(cluster(statePath))} {`);
+        lines.push(`${pad}  label=${label};`);
+        lines.push(
+          active.has(statePath)
+            ? `${pad}  style="rounded,filled"; fillcolor="${HIGHLIGHT_COLOR}";`
+            : `${pad}  style=${parallel ? 'dashed' : 'rounded'};`,
+        );
+        lines.push(
+          `${pad}  ${quoteDot(statePath)} [shape=point${parallel ? ', style=invis' : ''}];`,
+        );
+        if (!parallel && node.initial !== undefined) {
+          lines.push(
+            `${pad}  ${formatEdge(statePath, joinStatePath(statePath, node.initial), [], true)}`,
+          );
+        }
+        renderStates(node.states!, statePath, depth + 1);
+        lines.push(`${pad}}`);
+        continue;
+      }
+
+      const attrs = [`label=${label}`];
+      if (isFinalNode(node)) attrs.push('peripheries=2');
+      if (active.has(statePath)) attrs.push(highlight);
+      lines.push(`${pad}${quoteDot(statePath)} [${attrs.join(', ')}];`);
+    }
+  };
+
+  lines.push(`  ${quoteDot(INITIAL_NODE)} [shape=point];`);
+  lines.push(`  ${formatEdge(INITIAL_NODE, definition.initial, [], true)}`);
+  renderStates(definition.states, '', 1);
+
+  for (const { source, target, label } of collectTransitions(definition)) {
+    lines.push(`  ${formatEdge(source, target, [`label=${quoteDot(label)}`])}`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders a definition as a Mermaid `stateDiagram-v2` or a Graphviz DOT
+ * digraph, labelling transitions with their event, `after` delay or
+ * `always`/`done`/`error` trigger and guard name. Final states and state
+ * timeouts are marked, and `currentState` highlights an instance's states.
+ */
+export function generateDiagram(
+  definition: DeclarativeWorkflowDefinition,
+  options: WorkflowDiagramOptions = {},
+): string {
+  // Guard references only change labels, so the structure is read as is
+  const structure = definition as DurableWorkflowDefinition;
+
+  const active = new Set(
+    options.currentState === undefined
+      ? []
+      : parseStateValue(options.currentState),
+  );
+  for (const statePath of active) {
+    if (!getStateNode(structure, statePath)) {
+      throw new Error(
+        `Workflow definition ${definition.id}: current state "${options.currentState}" references unknown state "${statePath}"`,
+      );
+    }
+  }
+
+  return (options.format ?? 'mermaid') === 'dot'
+    ? renderDot(structure, active)
+    : renderMermaid(structure, active);
+}
@@ -0,0 +1,195 @@
+import { JavascriptStateMachineEngine } from '../engines/javascript-state-machine.engine';
+import type {
+  DurableWorkflowDefinition,
+  TransitionConfig,
+  TransitionRule,
+  WorkflowEventPayload,
+} from '../interfaces/durable-workflow-definition.interface';
+import type {
+  WorkflowTestPathOptions,
+  WorkflowTestPaths,
+  WorkflowTestPlan,
+} from '../interfaces/workflow-test-paths.interface';
+import { DEFAULT_MAX_DEPTH, WILDCARD_EVENT } from '../workflow.constants';
+import {
+  getAncestorPaths,
+  getEventHandlers,
+  getHandledEventTypes,
+  getStateNode,
+  listStatePaths,
+  parseStateValue,
+} from './state-paths';
+
+interface ExplorationNode {
+  snapshot?: Record<string, unknown>;
+  stateValue: string;
+  events: WorkflowEventPayload[];
+}
+
+function toRules(input?: TransitionRule | TransitionRule[]): TransitionRule[] {
+  if (!input) return [];
+  return Array.isArray(input) ? input : [input];
+}
+
+function toConfig(rule: TransitionRule): TransitionConfig {
+  return typeof rule === 'string' ? { target: rule } : rule;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * IDs of every transition with a target, using the scheme the engines
+ * record in `RuntimeTransition.transitionId`.
+ */
+function listTransitionIds(definition: DurableWorkflowDefinition): string[] {
+  const ids: string[] = [];
+  const collect = (rules: TransitionRule[], key: string) => {
+    rules.forEach((rule, index) => {
+      const config = toConfig(rule);
+      const id = `${key}:${index}`;
+      if (config.target !== undefined) ids.push(id);
+      collect(toRules(config.onError), `${id}:onError`);
+    });
+  };
+
+  for (const statePath of listStatePaths(definition)) {
+    const stateDef = getStateNode(definition, statePath)!;
+    for (const [eventType, rules] of Object.entries(
+      getEventHandlers(definition, statePath),
+    )) {
+      collect(toRules(rules), `${statePath}:${eventType}`);
+    }
+    collect(toRules(stateDef.onDone), `${statePath}:onDone`);
+    collect(toRules(stateDef.onError), `${statePath}:onError`);
+    for (const [delay, rules] of Object.entries(stateDef.after ?? {})) {
+      collect(toRules(rules), `${statePath}:after.${delay}`);
+    }
+    collect(toRules(stateDef.always), `${statePath}:always`);
+  }
+
+  return ids;
+}
+
+/**
+ * Event type sent to cover `'*'` handlers. Any type no state declares is
+ * taken by the wildcard, so the first free one is used.
+ */
+function getUndeclaredEventType(definition: DurableWorkflowDefinition): string {
+  const declared = new Set(Object.keys(definition.on ?? {}));
+  for (const statePath of listStatePaths(definition)) {
+    for (const eventType of Object.keys(
+      getStateNode(definition, statePath)!.on ?? {},
+    )) {
+      declared.add(eventType);
+    }
+  }
+
+  let eventType = 'UNDECLARED_EVENT';
+  for (let suffix = 2; declared.has(eventType); suffix++) {
+    eventType = `UNDECLARED_EVENT_${suffix}`;
+  }
+  return eventType;
+}
+
+/**
+ * Explores a definition breadth-first by sending every event the active
+ * states handle, once per sample payload, to an in-memory runtime. Returns
+ * the shortest event sequence that enters each state and takes each
+ * transition, ready to be replayed through `WorkflowManager.send`.
+ *
+ * Guards and actions run for real, so context set by actions is seen by
+ * later guards; `options.actionStub` replaces the actions that are not
+ * created by `assign`. `'*'` handlers are covered with an event type no
+ * state declares. Configurations are told apart by state value only: each is
+ * explored once, with the context of the first plan that reached it.
+ * Timeouts are covered through their `on` event, but `after` timers are
+ * never fired, so their transitions end up in `uncoveredTransitions`.
+ */
+export async function generateTestPaths(
+  definition: DurableWorkflowDefinition,
+  options: WorkflowTestPathOptions = {},
+): Promise<WorkflowTestPaths> {
+  const engine = options.engine ?? new JavascriptStateMachineEngine();
+  const createRuntime = (snapshot?: Record<string, unknown>) =>
+    engine.createRuntime({
+      definition,
+      snapshot: snapshot && clone(snapshot),
+      maxTransitionDepth: options.maxTransitionDepth ?? DEFAULT_MAX_DEPTH,
+      workflowId: `${definition.id}-test-paths`,
+      actionStub: options.actionStub,
+    });
+  const undeclaredEventType = getUndeclaredEventType(definition);
+
+  const states: Record<string, WorkflowTestPlan> = {};
+  const transitions: Record<string, WorkflowTestPlan> = {};
+  const recordStates = (stateValue: string, plan: WorkflowTestPlan) => {
+    for (const leaf of parseStateValue(stateValue)) {
+      for (const path of getAncestorPaths(leaf)) {
+        states[path] ??= plan;
+      }
+    }
+  };
+
+  const root: ExplorationNode = {
+    stateValue: createRuntime().getSnapshot().stateValue,
+    events: [],
+  };
+  recordStates(root.stateValue, {
+    events: [],
+    expectedStateValue: root.stateValue,
+  });
+
+  const visited = new Set<string>([root.stateValue]);
+  const pending: ExplorationNode[] = [root];
+
+  while (pending.length > 0) {
+    const node = pending.shift()!;
+
+    for (const type of getHandledEventTypes(definition, node.stateValue)) {
+      for (const payload of options.payloads?.[type] ?? [{}]) {
+        const event: WorkflowEventPayload = {
+          ...payload,
+          type: type === WILDCARD_EVENT ? undeclaredEventType : type,
+        };
+        const runtime = createRuntime(node.snapshot);
+        const result = await runtime.send(event);
+        if (result.transitions.length === 0) continue;
+
+        const plan: WorkflowTestPlan = {
+          events: [...node.events, event],
+          expectedStateValue: result.stateValue,
+        };
+        // States passed through by `always` transitions count as entered
+        for (const { toState, transitionId } of result.transitions) {
+          if (transitionId !== undefined) transitions[transitionId] ??= plan;
+          recordStates(toState, plan);
+        }
+        recordStates(result.stateValue, plan);
+
+        const snapshot = runtime.dehydrate();
+        if (snapshot.status !== 'active' || visited.has(result.stateValue)) {
+          continue;
+        }
+        visited.add(result.stateValue);
+        pending.push({
+          snapshot: snapshot as unknown as Record<string, unknown>,
+          stateValue: result.stateValue,
+          events: plan.events,
+        });
+      }
+    }
+  }
+
+  return {
+    states,
+    transitions,
+    unreachedStates: listStatePaths(definition).filter(
+      (statePath) => !states[statePath],
+    ),
+    uncoveredTransitions: listTransitionIds(definition).filter(
+      (transitionId) => !transitions[transitionId],
+    ),
+  };
+}
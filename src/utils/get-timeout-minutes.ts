@@ -1,19 +1,81 @@
 import type { DurableWorkflowDefinition } from '../interfaces/durable-workflow-definition.interface';
+import { getAncestorPaths, getStateNode, parseStateValue } from './state-paths';
+
+export interface ResolvedStateTimeout {
+  /** State path that declared the winning timeout. */
+  statePath: string;
+  minutes: number;
+  /** State-specific event type; falls back to the module `timeoutEventType`. */
+  event?: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Resolves the timeout that applies to a state value. `timeoutMinutes` is
+ * shorthand for `timeout: { minutes }`. For nested and parallel states every
+ * active leaf and all of its ancestors are considered. With the snapshot's
+ * `deadlines` the state whose deadline comes first wins; without them the
+ * shortest timeout wins. On a tie the innermost state wins.
+ */
+export function resolveStateTimeout(
+  definition: DurableWorkflowDefinition,
+  stateValue: string,
+  deadlines?: Record<string, string>,
+): ResolvedStateTimeout | undefined {
+  let resolved: ResolvedStateTimeout | undefined;
+  let resolvedRank = Infinity;
+
+  const paths = new Set(parseStateValue(stateValue).flatMap(getAncestorPaths));
+
+  for (const path of paths) {
+    const stateDef = getStateNode(definition, path);
+    const minutes = stateDef?.timeout?.minutes ?? stateDef?.timeoutMinutes;
+    if (typeof minutes !== 'number') {
+      continue;
+    }
+    const rank = deadlines ? Date.parse(deadlines[path] ?? '') : minutes;
+    if (Number.isNaN(rank)) {
+      continue;
+    }
+    if (resolved === undefined || rank <= resolvedRank) {
+      resolvedRank = rank;
+      resolved = {
+        statePath: path,
+        minutes,
+        event: stateDef?.timeout?.event,
+        payload: stateDef?.timeout?.payload,
+      };
+    }
+  }
+
+  return resolved;
+}
 
 /**
  * Calculates timeout expiry for the current state based on state-level
- * timeoutMinutes configuration.
+ * `timeout` / `timeoutMinutes` configuration.
  */
 export function getTimeoutExpiry(
   definition: DurableWorkflowDefinition,
   stateValue: string,
   now?: Date,
 ): Date | null {
-  const stateDef = definition.states[stateValue];
-  if (!stateDef || typeof stateDef.timeoutMinutes !== 'number') {
+  const timeout = resolveStateTimeout(definition, stateValue);
+  if (!timeout) {
     return null;
   }
 
   const baseTime = now ?? new Date();
-  return new Date(baseTime.getTime() + stateDef.timeoutMinutes * 60 * 1000);
+  return new Date(baseTime.getTime() + timeout.minutes * 60 * 1000);
+}
+
+/**
+ * Earliest deadline of a snapshot, which is the `expires_at` of its live
+ * row. Null when no active state declares a timeout.
+ */
+export function getDeadlineExpiry(
+  deadlines: Record<string, string> | undefined,
+): Date | null {
+  const dueTimes = Object.values(deadlines ?? {}).map(Date.parse);
+  return dueTimes.length > 0 ? new Date(Math.min(...dueTimes)) : null;
 }
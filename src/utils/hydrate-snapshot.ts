@@ -1,30 +1,95 @@
 import { InvalidSnapshotError } from '../errors/invalid-snapshot.error';
 import type {
-  DurableSnapshotV1,
+  DurableChildRef,
+  DurableSnapshotV2,
+  DurableTimer,
   DurableWorkflowDefinition,
   WorkflowStatus,
 } from '../interfaces/durable-workflow-definition.interface';
+import {
+  formatStateValue,
+  isFinalNode,
+  normalizeStateValue,
+  resolveInitialLeaves,
+} from './state-paths';
 
 export interface HydratedRuntimeSeed {
   state: string;
   status: WorkflowStatus;
   context: Record<string, unknown>;
+  /** Undefined when the runtime should start timers for the active states. */
+  timers?: DurableTimer[];
+  /** Undefined when the runtime should start deadlines for the active states. */
+  deadlines?: Record<string, string>;
+  children?: DurableChildRef[];
+  /** Metadata of V2 snapshots. Undefined for new instances and V1 snapshots. */
+  metadata?: Pick<
+    DurableSnapshotV2,
+    'createdAt' | 'lastEventType' | 'sequence'
+  >;
 }
 
+const WORKFLOW_STATUSES: WorkflowStatus[] = [
+  'active',
+  'done',
+  'error',
+  'cancelled',
+  'compensating',
+  'compensated',
+];
+
 function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
+function isTimer(value: unknown): value is DurableTimer {
+  return (
+    isPlainObject(value) &&
+    typeof value.event === 'string' &&
+    typeof value.state === 'string' &&
+    typeof value.dueAt === 'string' &&
+    !Number.isNaN(Date.parse(value.dueAt)) &&
+    (value.retryEvent === undefined ||
+      (isPlainObject(value.retryEvent) &&
+        typeof value.retryEvent.type === 'string')) &&
+    (value.attempt === undefined || Number.isInteger(value.attempt))
+  );
+}
+
+function isDeadlines(value: unknown): value is Record<string, string> {
+  return (
+    isPlainObject(value) &&
+    Object.values(value).every(
+      (dueAt) => typeof dueAt === 'string' && !Number.isNaN(Date.parse(dueAt)),
+    )
+  );
+}
+
+function isChildRef(value: unknown): value is DurableChildRef {
+  return (
+    isPlainObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.tableName === 'string'
+  );
+}
+
+function isNullableString(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
 function deepClone<T>(value: T): T {
   return JSON.parse(JSON.stringify(value)) as T;
 }
 
+/**
+ * A workflow is done once it settles in a top-level final state. Final
+ * states nested inside compound states do not complete the workflow.
+ */
 export function isFinalState(
   definition: DurableWorkflowDefinition,
   stateValue: string,
 ): boolean {
-  const state = definition.states[stateValue];
-  return Boolean(state?.final || state?.type === 'final');
+  return isFinalNode(definition.states[stateValue]);
 }
 
 export function hydrateSnapshot(
@@ -33,36 +98,48 @@ export function hydrateSnapshot(
   snapshot?: Record<string, unknown>,
 ): HydratedRuntimeSeed {
   if (!snapshot) {
+    const initialState = formatStateValue(
+      definition,
+      resolveInitialLeaves(definition, definition.initial),
+    );
     return {
-      state: definition.initial,
-      status: isFinalState(definition, definition.initial) ? 'done' : 'active',
+      state: initialState,
+      status: isFinalState(definition, initialState) ? 'done' : 'active',
       context: deepClone(definition.context),
     };
   }
 
-  const candidate = snapshot as Partial<DurableSnapshotV1>;
+  // V2 only adds metadata, so both envelopes are read as V2
+  const candidate = snapshot as Omit<Partial<DurableSnapshotV2>, 'version'> & {
+    version?: unknown;
+  };
 
   if (
     candidate.schema !== 'durable-workflow-snapshot' ||
-    candidate.version !== 1
+    (candidate.version !== 1 && candidate.version !== 2)
   ) {
     throw new InvalidSnapshotError(
       workflowId,
-      `Snapshot for workflow ${workflowId} is not a supported V1 durable snapshot`,
+      `Snapshot for workflow ${workflowId} is not a supported V1 or V2 durable snapshot`,
     );
   }
 
-  if (candidate.engine !== 'js-state-machine') {
+  if (
+    candidate.engine !== 'js-state-machine' &&
+    candidate.engine !== 'native'
+  ) {
     throw new InvalidSnapshotError(
       workflowId,
       `Snapshot for workflow ${workflowId} has unsupported engine ${String(candidate.engine)}`,
     );
   }
 
-  if (
-    typeof candidate.state !== 'string' ||
-    !(candidate.state in definition.states)
-  ) {
+  const state =
+    typeof candidate.state === 'string'
+      ? normalizeStateValue(definition, candidate.state)
+      : undefined;
+
+  if (!state) {
     throw new InvalidSnapshotError(
       workflowId,
       `Snapshot for workflow ${workflowId} has invalid state ${String(candidate.state)}`,
@@ -77,16 +154,84 @@ export function hydrateSnapshot(
   }
 
   const status = candidate.status;
-  if (status !== 'active' && status !== 'done' && status !== 'error') {
+  if (!status || !WORKFLOW_STATUSES.includes(status)) {
     throw new InvalidSnapshotError(
       workflowId,
       `Snapshot for workflow ${workflowId} has invalid status ${String(status)}`,
     );
   }
 
+  if (
+    candidate.timers !== undefined &&
+    !(Array.isArray(candidate.timers) && candidate.timers.every(isTimer))
+  ) {
+    throw new InvalidSnapshotError(
+      workflowId,
+      `Snapshot for workflow ${workflowId} has invalid timers payload`,
+    );
+  }
+
+  if (candidate.deadlines !== undefined && !isDeadlines(candidate.deadlines)) {
+    throw new InvalidSnapshotError(
+      workflowId,
+      `Snapshot for workflow ${workflowId} has invalid deadlines payload`,
+    );
+  }
+
+  if (
+    candidate.children !== undefined &&
+    !(Array.isArray(candidate.children) && candidate.children.every(isChildRef))
+  ) {
+    throw new InvalidSnapshotError(
+      workflowId,
+      `Snapshot for workflow ${workflowId} has invalid children payload`,
+    );
+  }
+
+  if (
+    candidate.definitionVersion !== undefined &&
+    !(
+      Number.isInteger(candidate.definitionVersion) &&
+      candidate.definitionVersion >= 1
+    )
+  ) {
+    throw new InvalidSnapshotError(
+      workflowId,
+      `Snapshot for workflow ${workflowId} has invalid definition version ${String(candidate.definitionVersion)}`,
+    );
+  }
+
+  if (
+    candidate.version === 2 &&
+    !(
+      typeof candidate.definitionId === 'string' &&
+      typeof candidate.definitionHash === 'string' &&
+      isNullableString(candidate.createdAt) &&
+      isNullableString(candidate.lastEventType) &&
+      Number.isInteger(candidate.sequence) &&
+      candidate.sequence! >= 0
+    )
+  ) {
+    throw new InvalidSnapshotError(
+      workflowId,
+      `Snapshot for workflow ${workflowId} has invalid metadata`,
+    );
+  }
+
   return {
-    state: candidate.state,
+    state,
     status,
     context: deepClone(candidate.context),
+    timers: candidate.timers ? deepClone(candidate.timers) : undefined,
+    deadlines: candidate.deadlines ? deepClone(candidate.deadlines) : undefined,
+    children: candidate.children ? deepClone(candidate.children) : undefined,
+    metadata:
+      candidate.version === 2
+        ? {
+            createdAt: candidate.createdAt!,
+            lastEventType: candidate.lastEventType!,
+            sequence: candidate.sequence!,
+          }
+        : undefined,
   };
 }
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { DeclarativeWorkflowDefinition } from '../interfaces/declarative-workflow-definition.interface';
+
+export type WorkflowDefinitionFormat = 'json' | 'yaml';
+
+/**
+ * Parses a declarative definition from JSON or YAML source. Structure is
+ * validated when the definition is registered.
+ */
+export function parseWorkflowDefinition(
+  source: string,
+  format: WorkflowDefinitionFormat,
+  origin = 'Workflow definition source',
+): DeclarativeWorkflowDefinition {
+  const parsed: unknown =
+    format === 'json' ? JSON.parse(source) : parseYaml(source);
+
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    typeof (parsed as Record<string, unknown>).states !== 'object'
+  ) {
+    throw new Error(
+      `${origin} must be an object with id, initial, context and states`,
+    );
+  }
+
+  return parsed as DeclarativeWorkflowDefinition;
+}
+
+/**
+ * Reads a declarative definition from a `.json`, `.yaml` or `.yml` file.
+ * Synchronous so it can be used directly in `@WorkflowEntity` options.
+ */
+export function loadWorkflowDefinition(
+  filePath: string,
+): DeclarativeWorkflowDefinition {
+  const extension = path.extname(filePath).toLowerCase();
+  const format: WorkflowDefinitionFormat | undefined =
+    extension === '.json'
+      ? 'json'
+      : extension === '.yaml' || extension === '.yml'
+        ? 'yaml'
+        : undefined;
+  if (!format) {
+    throw new Error(
+      `Workflow definition file ${filePath} must have a .json, .yaml or .yml extension`,
+    );
+  }
+
+  return parseWorkflowDefinition(
+    fs.readFileSync(filePath, 'utf-8'),
+    format,
+    `Workflow definition file ${filePath}`,
+  );
+}
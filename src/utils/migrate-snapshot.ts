@@ -0,0 +1,72 @@
+import { InvalidSnapshotError } from '../errors/invalid-snapshot.error';
+import type {
+  DurableSnapshot,
+  DurableWorkflowDefinition,
+} from '../interfaces/durable-workflow-definition.interface';
+import {
+  getDefinitionVersion,
+  getSnapshotDefinitionVersion,
+} from './definition-version';
+
+export interface SnapshotMigrationStep {
+  fromVersion: number;
+  toVersion: number;
+  fromState: string;
+  toState: string;
+}
+
+export interface MigratedSnapshot {
+  /** The migrated snapshot, or the original one when no step applied. */
+  snapshot: Record<string, unknown>;
+  steps: SnapshotMigrationStep[];
+}
+
+/**
+ * Runs the `migrate` functions of the versions newer than the snapshot's,
+ * oldest first. Stops at the first newer version without one, which leaves
+ * the instance on the last version it reached.
+ */
+export function migrateSnapshot(
+  workflowId: string,
+  definitions: DurableWorkflowDefinition[],
+  snapshot: Record<string, unknown>,
+): MigratedSnapshot {
+  const steps: SnapshotMigrationStep[] = [];
+  let current = snapshot;
+
+  for (const definition of definitions) {
+    const fromVersion = getSnapshotDefinitionVersion(current);
+    const toVersion = getDefinitionVersion(definition);
+    if (toVersion <= fromVersion) continue;
+    if (!definition.migrate) break;
+
+    const migrated = definition.migrate(
+      fromVersion,
+      JSON.parse(JSON.stringify(current)) as DurableSnapshot,
+    ) as unknown;
+    if (
+      typeof migrated !== 'object' ||
+      migrated === null ||
+      Array.isArray(migrated)
+    ) {
+      throw new InvalidSnapshotError(
+        workflowId,
+        `Migration of workflow ${workflowId} to version ${toVersion} did not return a snapshot`,
+      );
+    }
+
+    const next: Record<string, unknown> = {
+      ...(migrated as Record<string, unknown>),
+      definitionVersion: toVersion,
+    };
+    steps.push({
+      fromVersion,
+      toVersion,
+      fromState: String(current.state),
+      toState: String(next.state),
+    });
+    current = next;
+  }
+
+  return { snapshot: current, steps };
+}
@@ -0,0 +1,227 @@
+import type {
+  DeclarativeAction,
+  DeclarativeGuard,
+  DeclarativePlainAction,
+  DeclarativeStateDefinition,
+  DeclarativeTransitionRule,
+  DeclarativeTransitions,
+  DeclarativeWorkflowDefinition,
+  WorkflowActionReference,
+  WorkflowImplementationReference,
+  WorkflowImplementations,
+} from '../interfaces/declarative-workflow-definition.interface';
+import type {
+  DurableStateDefinition,
+  DurableWorkflowDefinition,
+  TransitionConfig,
+  TransitionRule,
+  WorkflowAction,
+  WorkflowActionEntry,
+  WorkflowGuard,
+} from '../interfaces/durable-workflow-definition.interface';
+import { describeTransitionSource, joinStatePath } from './state-paths';
+import { isContextAction } from './assign';
+
+function mapValue<T, R>(
+  value: T | T[] | undefined,
+  fn: (item: T) => R,
+): R | R[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value.map(fn) : fn(value);
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+}
+
+function toReference(
+  value: string | WorkflowImplementationReference,
+): WorkflowImplementationReference {
+  return typeof value === 'string' ? { type: value } : value;
+}
+
+/**
+ * Resolves named guards and actions into functions. Only called for
+ * registered definitions, so engines never see references.
+ */
+class DeclarativeDefinitionResolver {
+  /** Whether any reference was replaced. */
+  resolved = false;
+
+  constructor(
+    private readonly definition: DeclarativeWorkflowDefinition,
+    private readonly implementations: WorkflowImplementations,
+  ) {}
+
+  resolveStates(
+    states: Record<string, DeclarativeStateDefinition>,
+    parentPath: string,
+  ): Record<string, DurableStateDefinition> {
+    const resolved: Record<string, DurableStateDefinition> = {};
+    for (const [key, state] of Object.entries(states)) {
+      resolved[key] = this.resolveState(state, joinStatePath(parentPath, key));
+    }
+    return resolved;
+  }
+
+  resolveTransitions(
+    transitions: Record<string, DeclarativeTransitions> | undefined,
+    statePath: string,
+  ): Record<string, TransitionRule | TransitionRule[]> | undefined {
+    return (
+      transitions &&
+      Object.fromEntries(
+        Object.entries(transitions).map(([key, value]) => [
+          key,
+          mapValue(value, (rule) => this.resolveRule(rule, statePath))!,
+        ]),
+      )
+    );
+  }
+
+  private resolveState(
+    state: DeclarativeStateDefinition,
+    statePath: string,
+  ): DurableStateDefinition {
+    const rules = (value?: DeclarativeTransitions) =>
+      mapValue(value, (rule) => this.resolveRule(rule, statePath));
+    const record = (value?: Record<string, DeclarativeTransitions>) =>
+      this.resolveTransitions(value, statePath);
+
+    return withoutUndefined<DurableStateDefinition>({
+      ...state,
+      states: state.states && this.resolveStates(state.states, statePath),
+      onDone: rules(state.onDone),
+      after: record(state.after),
+      on: record(state.on),
+      always: rules(state.always),
+      onError: rules(state.onError),
+      entry: mapValue(state.entry, (action) =>
+        this.resolvePlainAction(action, statePath),
+      ),
+      exit: mapValue(state.exit, (action) =>
+        this.resolvePlainAction(action, statePath),
+      ),
+    });
+  }
+
+  private resolveRule(
+    rule: DeclarativeTransitionRule,
+    statePath: string,
+  ): TransitionRule {
+    if (typeof rule === 'string') return rule;
+
+    return withoutUndefined<TransitionConfig>({
+      ...rule,
+      guard:
+        rule.guard === undefined
+          ? undefined
+          : this.resolveGuard(rule.guard, statePath),
+      actions: mapValue(rule.actions, (action) =>
+        this.resolveAction(action, statePath),
+      ),
+      onError: mapValue(rule.onError, (handler) =>
+        this.resolveRule(handler, statePath),
+      ),
+      compensate: mapValue(rule.compensate, (action) =>
+        this.resolvePlainAction(action, statePath),
+      ),
+    });
+  }
+
+  private resolveGuard(
+    guard: DeclarativeGuard,
+    statePath: string,
+  ): WorkflowGuard {
+    if (typeof guard === 'function') return guard;
+
+    const { type, params = {} } = toReference(guard);
+    const implementation = this.implementations.guards?.[type];
+    if (!implementation) {
+      throw this.unknown('guard', type, statePath);
+    }
+    this.resolved = true;
+    return (input) => implementation(input, params);
+  }
+
+  private resolveAction(
+    action: DeclarativeAction,
+    statePath: string,
+  ): WorkflowActionEntry {
+    if (typeof action === 'function') return action;
+    if (typeof action !== 'string' && 'fn' in action) return action;
+
+    const retry = typeof action === 'string' ? undefined : action.retry;
+    const fn = this.resolvePlainAction(
+      typeof action === 'string'
+        ? action
+        : { type: action.type, params: action.params },
+      statePath,
+    );
+    return retry ? { fn, retry } : fn;
+  }
+
+  private resolvePlainAction(
+    action: DeclarativePlainAction,
+    statePath: string,
+  ): WorkflowAction {
+    if (typeof action === 'function') return action;
+
+    const reference = toReference(action);
+    if ((reference as WorkflowActionReference).retry !== undefined) {
+      throw new Error(
+        `Workflow definition ${this.definition.id}: ${describeTransitionSource(statePath)} declares a retry policy on an entry, exit or compensation action`,
+      );
+    }
+
+    const { type, params = {} } = reference;
+    const implementation = this.implementations.actions?.[type];
+    if (!implementation) {
+      throw this.unknown('action', type, statePath);
+    }
+    this.resolved = true;
+    // `assign` actions take no params and must stay recognizable in dry runs
+    if (isContextAction(implementation as WorkflowAction)) {
+      return implementation as WorkflowAction;
+    }
+    return (input) => implementation(input, params);
+  }
+
+  private unknown(
+    kind: 'guard' | 'action',
+    name: string,
+    statePath: string,
+  ): Error {
+    return new Error(
+      `Workflow definition ${this.definition.id}: ${describeTransitionSource(statePath)} references unknown ${kind} "${name}"`,
+    );
+  }
+}
+
+/**
+ * Replaces the named guards and actions of a declarative definition with
+ * their implementations, passing each reference's `params` along. Returns
+ * the definition itself when it references nothing by name.
+ */
+export function resolveDeclarativeDefinition(
+  definition: DeclarativeWorkflowDefinition,
+  implementations: WorkflowImplementations = {},
+): DurableWorkflowDefinition {
+  // Malformed definitions are left for validateWorkflowDefinition to report
+  if (typeof definition.states !== 'object' || definition.states === null) {
+    return definition as DurableWorkflowDefinition;
+  }
+
+  const resolver = new DeclarativeDefinitionResolver(
+    definition,
+    implementations,
+  );
+  const states = resolver.resolveStates(definition.states, '');
+  const on = resolver.resolveTransitions(definition.on, '');
+
+  return resolver.resolved
+    ? withoutUndefined<DurableWorkflowDefinition>({ ...definition, states, on })
+    : (definition as DurableWorkflowDefinition);
+}
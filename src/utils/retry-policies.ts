@@ -0,0 +1,90 @@
+import type {
+  DurableStateDefinition,
+  DurableWorkflowDefinition,
+  RetryPolicy,
+  TransitionConfig,
+  TransitionRule,
+  WorkflowActionEntry,
+} from '../interfaces/durable-workflow-definition.interface';
+import { WORKFLOW_RETRY_EVENT_PREFIX } from '../workflow.constants';
+import { getEventHandlers, getStateNode, listStatePaths } from './state-paths';
+
+function toArray<T>(value?: T | T[]): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toConfig(rule: TransitionRule): TransitionConfig {
+  return typeof rule === 'string' ? { target: rule } : rule;
+}
+
+/**
+ * Internal event type sent when the retry timer of a transition fires,
+ * e.g. "workflow.retry.pending:PAY:0".
+ */
+export function getRetryEventType(transitionId: string): string {
+  return `${WORKFLOW_RETRY_EVENT_PREFIX}${transitionId}`;
+}
+
+/**
+ * Returns the state that declared the retried transition, which is the
+ * first segment of its transition id.
+ */
+export function getRetryEventState(eventType: string): string | undefined {
+  if (!eventType.startsWith(WORKFLOW_RETRY_EVENT_PREFIX)) return undefined;
+  return eventType.slice(WORKFLOW_RETRY_EVENT_PREFIX.length).split(':')[0];
+}
+
+/**
+ * Delay before the retry that follows the failed `attempt` (1-based).
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  return policy.backoff === 'fixed'
+    ? policy.initialDelayMs
+    : policy.initialDelayMs * 2 ** (attempt - 1);
+}
+
+export function getRetryPolicy(
+  entry: WorkflowActionEntry,
+): RetryPolicy | undefined {
+  return typeof entry === 'function' ? undefined : entry.retry;
+}
+
+/**
+ * Lists every transition declared by a state, including nested
+ * transition-level `onError` handlers.
+ */
+export function listStateTransitions(
+  stateDef: DurableStateDefinition,
+  on = stateDef.on,
+): TransitionConfig[] {
+  const rules: TransitionRule[] = [
+    ...toArray(stateDef.always),
+    ...toArray(stateDef.onDone),
+    ...toArray(stateDef.onError),
+    ...Object.values(stateDef.after ?? {}).flatMap((value) => toArray(value)),
+    ...Object.values(on ?? {}).flatMap((value) => toArray(value)),
+  ];
+  const configs: TransitionConfig[] = [];
+
+  for (let index = 0; index < rules.length; index += 1) {
+    const config = toConfig(rules[index]);
+    configs.push(config);
+    rules.push(...toArray(config.onError));
+  }
+
+  return configs;
+}
+
+export function hasRetryPolicies(
+  definition: DurableWorkflowDefinition,
+): boolean {
+  return listStatePaths(definition).some((path) =>
+    listStateTransitions(
+      getStateNode(definition, path)!,
+      getEventHandlers(definition, path),
+    ).some((config) =>
+      toArray(config.actions).some((entry) => getRetryPolicy(entry)),
+    ),
+  );
+}
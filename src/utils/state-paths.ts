@@ -0,0 +1,335 @@
+import type {
+  DurableStateDefinition,
+  DurableWorkflowDefinition,
+  TransitionRule,
+} from '../interfaces/durable-workflow-definition.interface';
+import { WORKFLOW_ERROR_EVENT } from '../workflow.constants';
+
+export const STATE_PATH_SEPARATOR = '.';
+/** Joins the active leaves of parallel regions into a single state value. */
+export const STATE_VALUE_SEPARATOR = ',';
+
+/**
+ * Returns the state node addressed by a dot-notation path
+ * (e.g. "shipping.awaitingCarrier"), or undefined if it does not exist.
+ */
+export function getStateNode(
+  definition: DurableWorkflowDefinition,
+  path: string,
+): DurableStateDefinition | undefined {
+  let states: Record<string, DurableStateDefinition> | undefined =
+    definition.states;
+  let node: DurableStateDefinition | undefined;
+
+  for (const key of path.split(STATE_PATH_SEPARATOR)) {
+    if (!states || !Object.prototype.hasOwnProperty.call(states, key)) {
+      return undefined;
+    }
+    node = states[key];
+    states = node.states;
+  }
+
+  return node;
+}
+
+export function isCompoundState(node?: DurableStateDefinition): boolean {
+  return Boolean(node?.states && Object.keys(node.states).length > 0);
+}
+
+export function isParallelState(node?: DurableStateDefinition): boolean {
+  return node?.type === 'parallel';
+}
+
+export function isFinalNode(node?: DurableStateDefinition): boolean {
+  return Boolean(node?.final || node?.type === 'final');
+}
+
+/**
+ * Event handlers of a state. Top-level non-final states also inherit the
+ * definition-level `on` handlers for events they do not declare.
+ */
+export function getEventHandlers(
+  definition: DurableWorkflowDefinition,
+  path: string,
+): Record<string, TransitionRule | TransitionRule[]> {
+  const node = getStateNode(definition, path);
+  if (
+    !definition.on ||
+    path.includes(STATE_PATH_SEPARATOR) ||
+    isFinalNode(node)
+  ) {
+    return node?.on ?? {};
+  }
+  const handlers = { ...node?.on };
+  for (const [eventType, rules] of Object.entries(definition.on)) {
+    handlers[eventType] ??= rules;
+  }
+  return handlers;
+}
+
+/**
+ * Event types declared by the active states of a state value or their
+ * ancestors, in bubbling order. Runtime-internal events are left out since
+ * they are never sent.
+ */
+export function getHandledEventTypes(
+  definition: DurableWorkflowDefinition,
+  stateValue: string,
+): string[] {
+  const eventTypes = new Set<string>();
+  for (const leaf of parseStateValue(stateValue)) {
+    for (const path of getAncestorPaths(leaf).reverse()) {
+      for (const eventType of Object.keys(getEventHandlers(definition, path))) {
+        if (
+          eventType !== WORKFLOW_ERROR_EVENT &&
+          !eventType.startsWith('done.')
+        ) {
+          eventTypes.add(eventType);
+        }
+      }
+    }
+  }
+  return Array.from(eventTypes);
+}
+
+/**
+ * Names the owner of a transition in error messages. The empty path stands
+ * for the definition-level `on`.
+ */
+export function describeTransitionSource(path: string): string {
+  return path === '' ? 'definition-level on' : `state "${path}"`;
+}
+
+export function getParentPath(path: string): string {
+  const index = path.lastIndexOf(STATE_PATH_SEPARATOR);
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+export function joinStatePath(parentPath: string, key: string): string {
+  return parentPath ? `${parentPath}${STATE_PATH_SEPARATOR}${key}` : key;
+}
+
+/**
+ * Lists the path itself and all of its ancestors, outermost first.
+ * E.g. "a.b.c" -> ["a", "a.b", "a.b.c"]
+ */
+export function getAncestorPaths(path: string): string[] {
+  const keys = path.split(STATE_PATH_SEPARATOR);
+  return keys.map((_, index) =>
+    keys.slice(0, index + 1).join(STATE_PATH_SEPARATOR),
+  );
+}
+
+export function isDescendantPath(path: string, ancestorPath: string): boolean {
+  if (ancestorPath === '') return true;
+  return (
+    path === ancestorPath ||
+    path.startsWith(`${ancestorPath}${STATE_PATH_SEPARATOR}`)
+  );
+}
+
+/**
+ * Descends from a state path through `initial` markers (and into every
+ * region of parallel states) until atomic states are reached.
+ */
+export function resolveInitialLeaves(
+  definition: DurableWorkflowDefinition,
+  path: string,
+): string[] {
+  const node = getStateNode(definition, path);
+  if (!node || !isCompoundState(node)) {
+    return [path];
+  }
+
+  if (isParallelState(node)) {
+    return Object.keys(node.states!).flatMap((key) =>
+      resolveInitialLeaves(definition, joinStatePath(path, key)),
+    );
+  }
+
+  return node.initial
+    ? resolveInitialLeaves(definition, joinStatePath(path, node.initial))
+    : [path];
+}
+
+/**
+ * Resolves a transition target declared on `sourcePath`. Targets are looked
+ * up as siblings of the source first, then at each enclosing level up to the
+ * root, so top-level state names keep working from inside compound states.
+ */
+export function resolveTargetPath(
+  definition: DurableWorkflowDefinition,
+  sourcePath: string,
+  target: string,
+): string | undefined {
+  let scope = getParentPath(sourcePath);
+
+  for (;;) {
+    const candidate = joinStatePath(scope, target);
+    if (getStateNode(definition, candidate)) {
+      return candidate;
+    }
+    if (scope === '') {
+      return undefined;
+    }
+    scope = getParentPath(scope);
+  }
+}
+
+/**
+ * Lists every state path of the definition in declaration order, parents
+ * before their children.
+ */
+export function listStatePaths(
+  definition: DurableWorkflowDefinition,
+): string[] {
+  const paths: string[] = [];
+
+  const visit = (
+    states: Record<string, DurableStateDefinition>,
+    parentPath: string,
+  ) => {
+    for (const [key, node] of Object.entries(states)) {
+      const path = joinStatePath(parentPath, key);
+      paths.push(path);
+      if (node.states) {
+        visit(node.states, path);
+      }
+    }
+  };
+
+  visit(definition.states, '');
+  return paths;
+}
+
+/**
+ * Returns the region a state belongs to: the innermost ancestor-or-self whose
+ * parent is a parallel state, or "" for the root region.
+ */
+export function getRegionPath(
+  definition: DurableWorkflowDefinition,
+  path: string,
+): string {
+  const ancestors = getAncestorPaths(path).reverse();
+  for (const ancestor of ancestors) {
+    const parentPath = getParentPath(ancestor);
+    if (
+      parentPath !== '' &&
+      isParallelState(getStateNode(definition, parentPath))
+    ) {
+      return ancestor;
+    }
+  }
+  return '';
+}
+
+/**
+ * Lists the states a region can rest in: its atomic descendants and the
+ * parallel states that open nested regions, without descending into them.
+ */
+export function getRegionStates(
+  definition: DurableWorkflowDefinition,
+  regionPath: string,
+): string[] {
+  const collect = (path: string): string[] => {
+    const node = getStateNode(definition, path);
+    if (!isCompoundState(node) || isParallelState(node)) {
+      return [path];
+    }
+    return Object.keys(node!.states!).flatMap((key) =>
+      collect(joinStatePath(path, key)),
+    );
+  };
+
+  if (regionPath === '') {
+    return Object.keys(definition.states).flatMap(collect);
+  }
+  return collect(regionPath);
+}
+
+/**
+ * Sorts state paths in declaration order and removes duplicates.
+ */
+export function sortStatePaths(
+  definition: DurableWorkflowDefinition,
+  paths: string[],
+): string[] {
+  const order = new Map(
+    listStatePaths(definition).map((path, index) => [path, index]),
+  );
+  return Array.from(new Set(paths)).sort(
+    (a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0),
+  );
+}
+
+export function parseStateValue(stateValue: string): string[] {
+  return stateValue.split(STATE_VALUE_SEPARATOR);
+}
+
+/**
+ * SQL LIKE pattern matching the state values nested under a state path,
+ * with the LIKE wildcards of the path escaped.
+ */
+export function toNestedStatePattern(statePath: string): string {
+  return `${statePath.replace(/[\\%_]/g, '\\$&')}${STATE_PATH_SEPARATOR}%`;
+}
+
+export function formatStateValue(
+  definition: DurableWorkflowDefinition,
+  leaves: string[],
+): string {
+  return sortStatePaths(definition, leaves).join(STATE_VALUE_SEPARATOR);
+}
+
+/**
+ * Resolves a persisted state value into a complete set of active leaves.
+ * Compound states resume at their initial leaves and regions missing from
+ * the value are entered at their initial state. Returns undefined when the
+ * value references unknown states or more than one state per region.
+ */
+export function normalizeStateValue(
+  definition: DurableWorkflowDefinition,
+  stateValue: string,
+): string | undefined {
+  const regionStates = new Map<string, string>();
+  const pending = parseStateValue(stateValue).map((path) => ({
+    path,
+    missingRegion: false,
+  }));
+
+  while (pending.length > 0) {
+    const { path, missingRegion } = pending.shift()!;
+    if (missingRegion && regionStates.has(path)) {
+      continue;
+    }
+    if (!path || !getStateNode(definition, path)) {
+      return undefined;
+    }
+
+    for (const leaf of resolveInitialLeaves(definition, path)) {
+      for (const ancestor of getAncestorPaths(leaf)) {
+        const node = getStateNode(definition, ancestor);
+        if (isCompoundState(node) && !isParallelState(node)) continue;
+
+        const region = getRegionPath(definition, ancestor);
+        const existing = regionStates.get(region);
+        if (existing !== undefined && existing !== ancestor) {
+          return undefined;
+        }
+        regionStates.set(region, ancestor);
+
+        if (isParallelState(node)) {
+          for (const key of Object.keys(node!.states!)) {
+            const child = joinStatePath(ancestor, key);
+            pending.push({ path: child, missingRegion: true });
+          }
+        }
+      }
+    }
+  }
+
+  const leaves = Array.from(regionStates.values()).filter(
+    (path) => !isParallelState(getStateNode(definition, path)),
+  );
+  return formatStateValue(definition, leaves);
+}
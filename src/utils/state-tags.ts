@@ -0,0 +1,59 @@
+import type { DurableWorkflowDefinition } from '../interfaces/durable-workflow-definition.interface';
+import {
+  getAncestorPaths,
+  getStateNode,
+  isCompoundState,
+  listStatePaths,
+  parseStateValue,
+} from './state-paths';
+
+/**
+ * Tags of the active states of a state value, including the tags their
+ * ancestors pass down, without duplicates.
+ */
+export function getStateTags(
+  definition: DurableWorkflowDefinition,
+  stateValue: string,
+): string[] {
+  const tags = new Set<string>();
+  for (const leaf of parseStateValue(stateValue)) {
+    for (const path of getAncestorPaths(leaf)) {
+      for (const tag of getStateNode(definition, path)?.tags ?? []) {
+        tags.add(tag);
+      }
+    }
+  }
+  return Array.from(tags);
+}
+
+/**
+ * `meta` of the active states of a state value and their ancestors, keyed
+ * by state path. States without `meta` are left out.
+ */
+export function getStateMeta(
+  definition: DurableWorkflowDefinition,
+  stateValue: string,
+): Record<string, Record<string, unknown>> {
+  const meta: Record<string, Record<string, unknown>> = {};
+  for (const leaf of parseStateValue(stateValue)) {
+    for (const path of getAncestorPaths(leaf)) {
+      const stateMeta = getStateNode(definition, path)?.meta;
+      if (stateMeta) meta[path] = stateMeta;
+    }
+  }
+  return meta;
+}
+
+/** Atomic state paths tagged `tag` themselves or through an ancestor. */
+export function getTaggedLeafPaths(
+  definition: DurableWorkflowDefinition,
+  tag: string,
+): string[] {
+  return listStatePaths(definition).filter(
+    (statePath) =>
+      !isCompoundState(getStateNode(definition, statePath)) &&
+      getAncestorPaths(statePath).some((path) =>
+        getStateNode(definition, path)!.tags?.includes(tag),
+      ),
+  );
+}
@@ -1,8 +1,30 @@
 import type {
+  DurableStateDefinition,
   DurableWorkflowDefinition,
   TransitionConfig,
   TransitionRule,
 } from '../interfaces/durable-workflow-definition.interface';
+import { WorkflowDefinitionDiagnosticsError } from '../errors/workflow-definition-diagnostics.error';
+import {
+  STATE_PATH_SEPARATOR,
+  STATE_VALUE_SEPARATOR,
+  describeTransitionSource,
+  isCompoundState,
+  isFinalNode,
+  isParallelState,
+  joinStatePath,
+  resolveTargetPath,
+} from './state-paths';
+import { parseDelay } from './delayed-transitions';
+import { analyzeWorkflowDefinition } from './analyze-workflow-definition';
+
+export interface ValidateWorkflowDefinitionOptions {
+  /**
+   * Also rejects definitions for which `analyzeWorkflowDefinition` reports
+   * diagnostics, by throwing `WorkflowDefinitionDiagnosticsError`.
+   */
+  strict?: boolean;
+}
 
 function toRules(input?: TransitionRule | TransitionRule[]): TransitionRule[] {
   if (!input) return [];
@@ -16,38 +38,151 @@ function toConfig(rule: TransitionRule): TransitionConfig {
 function assertTargetExists(
   definition: DurableWorkflowDefinition,
   target: string,
-  stateName: string,
+  statePath: string,
 ): void {
-  if (!(target in definition.states)) {
+  if (!resolveTargetPath(definition, statePath, target)) {
     throw new Error(
-      `Workflow definition ${definition.id}: state "${stateName}" targets unknown state "${target}"`,
+      `Workflow definition ${definition.id}: ${describeTransitionSource(statePath)} targets unknown state "${target}"`,
     );
   }
 }
 
-export function validateWorkflowDefinition(
+function validateActions(
   definition: DurableWorkflowDefinition,
+  config: TransitionConfig,
+  statePath: string,
 ): void {
-  if (!definition.id || typeof definition.id !== 'string') {
-    throw new Error('Workflow definition id must be a non-empty string');
+  const entries = config.actions
+    ? Array.isArray(config.actions)
+      ? config.actions
+      : [config.actions]
+    : [];
+
+  for (const entry of entries) {
+    if (typeof entry === 'function') continue;
+
+    const retry = entry?.retry;
+    if (
+      typeof entry?.fn !== 'function' ||
+      (retry !== undefined &&
+        (!Number.isInteger(retry.attempts) ||
+          retry.attempts < 1 ||
+          typeof retry.initialDelayMs !== 'number' ||
+          retry.initialDelayMs < 0 ||
+          (retry.backoff !== undefined &&
+            retry.backoff !== 'exponential' &&
+            retry.backoff !== 'fixed')))
+    ) {
+      throw new Error(
+        `Workflow definition ${definition.id}: ${describeTransitionSource(statePath)} has an invalid action or retry policy`,
+      );
+    }
   }
+}
 
-  if (!definition.initial || typeof definition.initial !== 'string') {
+function validateRules(
+  definition: DurableWorkflowDefinition,
+  rules: TransitionRule[],
+  statePath: string,
+): void {
+  // Transition-level onError handlers may nest their own onError
+  for (let index = 0; index < rules.length; index += 1) {
+    const config = toConfig(rules[index]);
+    if (typeof config.target === 'string') {
+      assertTargetExists(definition, config.target, statePath);
+    }
+    validateActions(definition, config, statePath);
+    rules.push(...toRules(config.onError));
+  }
+}
+
+function validateTimeout(
+  definition: DurableWorkflowDefinition,
+  stateDef: DurableStateDefinition,
+  statePath: string,
+): void {
+  const { timeout } = stateDef;
+
+  if (stateDef.timeoutMinutes !== undefined) {
     throw new Error(
-      `Workflow definition ${definition.id}: initial state must be a non-empty string`,
+      `Workflow definition ${definition.id}: state "${statePath}" must not declare both timeout and timeoutMinutes`,
     );
   }
 
-  if (!(definition.initial in definition.states)) {
+  if (
+    typeof timeout?.minutes !== 'number' ||
+    timeout.minutes < 0 ||
+    (timeout.event !== undefined &&
+      (typeof timeout.event !== 'string' || timeout.event.length === 0)) ||
+    (timeout.payload !== undefined &&
+      (typeof timeout.payload !== 'object' ||
+        timeout.payload === null ||
+        Array.isArray(timeout.payload)))
+  ) {
     throw new Error(
-      `Workflow definition ${definition.id}: initial state "${definition.initial}" does not exist`,
+      `Workflow definition ${definition.id}: state "${statePath}" has invalid timeout`,
     );
   }
+}
 
-  for (const [stateName, stateDef] of Object.entries(definition.states)) {
-    if ('states' in (stateDef as Record<string, unknown>)) {
+function validateStates(
+  definition: DurableWorkflowDefinition,
+  states: Record<string, DurableStateDefinition>,
+  parentPath: string,
+): void {
+  for (const [stateName, stateDef] of Object.entries(states)) {
+    const statePath = joinStatePath(parentPath, stateName);
+
+    for (const separator of [STATE_PATH_SEPARATOR, STATE_VALUE_SEPARATOR]) {
+      if (stateName.includes(separator)) {
+        throw new Error(
+          `Workflow definition ${definition.id}: state name "${statePath}" must not contain "${separator}"`,
+        );
+      }
+    }
+
+    if (stateDef.states !== undefined) {
+      if (!isCompoundState(stateDef)) {
+        throw new Error(
+          `Workflow definition ${definition.id}: state "${statePath}" must declare at least one child state`,
+        );
+      }
+
+      if (isFinalNode(stateDef)) {
+        throw new Error(
+          `Workflow definition ${definition.id}: final state "${statePath}" cannot have child states`,
+        );
+      }
+
+      if (isParallelState(stateDef)) {
+        if (stateDef.initial !== undefined) {
+          throw new Error(
+            `Workflow definition ${definition.id}: parallel state "${statePath}" must not declare initial`,
+          );
+        }
+      } else if (
+        !stateDef.initial ||
+        !Object.prototype.hasOwnProperty.call(stateDef.states, stateDef.initial)
+      ) {
+        throw new Error(
+          `Workflow definition ${definition.id}: compound state "${statePath}" has missing or unknown initial state "${String(stateDef.initial)}"`,
+        );
+      }
+
+      validateStates(definition, stateDef.states!, statePath);
+    } else if (stateDef.initial !== undefined) {
+      throw new Error(
+        `Workflow definition ${definition.id}: state "${statePath}" declares initial but has no child states`,
+      );
+    } else if (isParallelState(stateDef)) {
       throw new Error(
-        `Workflow definition ${definition.id}: nested states are not supported (state "${stateName}")`,
+        `Workflow definition ${definition.id}: parallel state "${statePath}" must declare at least one child state`,
+      );
+    }
+
+    if (stateDef.onDone !== undefined && !isCompoundState(stateDef)) {
+      throw new Error(
+        `Workflow definition ${definition.id}: state "${statePath}" declares onDone but has no child states`,
       );
     }
 
@@ -57,6 +192,25 @@ export function validateWorkflowDefinition(
       allRules.push(rule);
     }
 
+    for (const rule of toRules(stateDef.onDone)) {
+      allRules.push(rule);
+    }
+
+    for (const rule of toRules(stateDef.onError)) {
+      allRules.push(rule);
+    }
+
+    for (const [delay, value] of Object.entries(stateDef.after ?? {})) {
+      if (parseDelay(delay) === undefined) {
+        throw new Error(
+          `Workflow definition ${definition.id}: state "${statePath}" has invalid after delay "${delay}"`,
+        );
+      }
+      for (const rule of toRules(value)) {
+        allRules.push(rule);
+      }
+    }
+
     if (stateDef.on) {
       for (const value of Object.values(stateDef.on)) {
         for (const rule of toRules(value)) {
@@ -65,11 +219,10 @@ export function validateWorkflowDefinition(
       }
     }
 
-    for (const rule of allRules) {
-      const config = toConfig(rule);
-      if (typeof config.target === 'string') {
-        assertTargetExists(definition, config.target, stateName);
-      }
+    validateRules(definition, allRules, statePath);
+
+    if (stateDef.timeout !== undefined) {
+      validateTimeout(definition, stateDef, statePath);
     }
 
     if (
@@ -78,8 +231,96 @@ export function validateWorkflowDefinition(
         stateDef.timeoutMinutes < 0)
     ) {
       throw new Error(
-        `Workflow definition ${definition.id}: state "${stateName}" has invalid timeoutMinutes`,
+        `Workflow definition ${definition.id}: state "${statePath}" has invalid timeoutMinutes`,
+      );
+    }
+
+    if (
+      stateDef.tags !== undefined &&
+      (!Array.isArray(stateDef.tags) ||
+        stateDef.tags.some(
+          (tag) => typeof tag !== 'string' || tag.length === 0,
+        ))
+    ) {
+      throw new Error(
+        `Workflow definition ${definition.id}: state "${statePath}" has invalid tags`,
+      );
+    }
+
+    if (
+      stateDef.meta !== undefined &&
+      (typeof stateDef.meta !== 'object' ||
+        stateDef.meta === null ||
+        Array.isArray(stateDef.meta))
+    ) {
+      throw new Error(
+        `Workflow definition ${definition.id}: state "${statePath}" has invalid meta`,
       );
     }
   }
 }
+
+export function validateWorkflowDefinition(
+  definition: DurableWorkflowDefinition,
+  options: ValidateWorkflowDefinitionOptions = {},
+): void {
+  if (!definition.id || typeof definition.id !== 'string') {
+    throw new Error('Workflow definition id must be a non-empty string');
+  }
+
+  if (
+    definition.version !== undefined &&
+    !(Number.isInteger(definition.version) && definition.version >= 1)
+  ) {
+    throw new Error(
+      `Workflow definition ${definition.id}: version must be a positive integer`,
+    );
+  }
+
+  if (
+    definition.migrate !== undefined &&
+    typeof definition.migrate !== 'function'
+  ) {
+    throw new Error(
+      `Workflow definition ${definition.id}: migrate must be a function`,
+    );
+  }
+
+  if (!definition.initial || typeof definition.initial !== 'string') {
+    throw new Error(
+      `Workflow definition ${definition.id}: initial state must be a non-empty string`,
+    );
+  }
+
+  if (!(definition.initial in definition.states)) {
+    throw new Error(
+      `Workflow definition ${definition.id}: initial state "${definition.initial}" does not exist`,
+    );
+  }
+
+  validateStates(definition, definition.states, '');
+
+  if (definition.on !== undefined) {
+    if (
+      typeof definition.on !== 'object' ||
+      definition.on === null ||
+      Array.isArray(definition.on)
+    ) {
+      throw new Error(
+        `Workflow definition ${definition.id}: on must be an object of event handlers`,
+      );
+    }
+    validateRules(
+      definition,
+      Object.values(definition.on).flatMap((value) => toRules(value)),
+      '',
+    );
+  }
+
+  if (options.strict) {
+    const diagnostics = analyzeWorkflowDefinition(definition);
+    if (diagnostics.length > 0) {
+      throw new WorkflowDefinitionDiagnosticsError(definition.id, diagnostics);
+    }
+  }
+}
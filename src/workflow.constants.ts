@@ -5,5 +5,29 @@ export const WORKFLOW_ENGINE = 'WORKFLOW_ENGINE';
 export const DEFAULT_CRON_EXPRESSION = '*/60 * * * * *';
 export const DEFAULT_TIMEOUT_EVENT = 'TIMEOUT';
 export const DEFAULT_MAX_DEPTH = 100;
+export const DEFAULT_GUARD_TIMEOUT_MS = 5000;
+/** Outbox rows published per relay transaction. */
+export const DEFAULT_OUTBOX_BATCH_SIZE = 100;
+/** Version of definitions and snapshots that do not declare one. */
+export const DEFAULT_DEFINITION_VERSION = 1;
+
+/** First event sent to a spawned child when no event is given. */
+export const WORKFLOW_INIT_EVENT = 'workflow.init';
+/** History event type recorded when an instance is cancelled. */
+export const WORKFLOW_CANCEL_EVENT = 'workflow.cancel';
+/** History event type recorded for each compensation step. */
+export const WORKFLOW_COMPENSATE_EVENT = 'workflow.compensate';
+/** History event type recorded when a snapshot moves to a newer definition version. */
+export const WORKFLOW_MIGRATE_EVENT = 'workflow.migrate';
+/** Raised when an action throws; handled by `onError` transitions. */
+export const WORKFLOW_ERROR_EVENT = 'error.execution';
+/** Retry timers fire `workflow.retry.<transitionId>`. */
+export const WORKFLOW_RETRY_EVENT_PREFIX = 'workflow.retry.';
+/** Outbox event type of the messages actions send with `sendTo`. */
+export const WORKFLOW_MESSAGE_EVENT = 'workflow.message';
+/** Parents receive `done.child.<id>` when a spawned child completes. */
+export const DONE_CHILD_EVENT_PREFIX = 'done.child.';
+/** `on` key handling any event a state does not declare, except runtime-internal ones. */
+export const WILDCARD_EVENT = '*';
 
 export const WORKFLOW_ENTITY_METADATA = 'WORKFLOW_ENTITY_METADATA';
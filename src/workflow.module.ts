@@ -5,6 +5,7 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 import { WorkflowManager } from './services/workflow-manager.service';
 import { WorkflowRegistry } from './services/workflow-registry.service';
 import { TimeoutCronService } from './services/timeout-cron.service';
+import { OutboxRelayService } from './services/outbox-relay.service';
 import {
   WorkflowModuleOptions,
   WorkflowModuleAsyncOptions,
@@ -16,6 +17,7 @@ import {
   DEFAULT_CRON_EXPRESSION,
   DEFAULT_TIMEOUT_EVENT,
   DEFAULT_MAX_DEPTH,
+  DEFAULT_GUARD_TIMEOUT_MS,
 } from './workflow.constants';
 import { JavascriptStateMachineEngine } from './engines/javascript-state-machine.engine';
 
@@ -42,18 +44,23 @@ export class WorkflowModule {
           provide: WORKFLOW_MODULE_OPTIONS,
           useValue: {
             maxTransitionDepth: options.maxTransitionDepth ?? DEFAULT_MAX_DEPTH,
+            guardTimeoutMs: options.guardTimeoutMs ?? DEFAULT_GUARD_TIMEOUT_MS,
             timeoutEventType: options.timeoutEventType ?? DEFAULT_TIMEOUT_EVENT,
             cronExpression: options.cronExpression ?? DEFAULT_CRON_EXPRESSION,
             enableTimeoutCron: options.enableTimeoutCron ?? true,
+            implementations: options.implementations ?? {},
+            strictDefinitions: options.strictDefinitions ?? false,
           },
         },
         WorkflowRegistry,
         WorkflowManager,
+        OutboxRelayService,
         TimeoutCronService,
       ],
       exports: [
         WorkflowManager,
         WorkflowRegistry,
+        OutboxRelayService,
         WORKFLOW_DB_ADAPTER,
         WORKFLOW_ENGINE,
       ],
@@ -77,9 +84,12 @@ export class WorkflowModule {
             const opts = await options.useFactory(...args);
             return {
               maxTransitionDepth: opts.maxTransitionDepth ?? DEFAULT_MAX_DEPTH,
+              guardTimeoutMs: opts.guardTimeoutMs ?? DEFAULT_GUARD_TIMEOUT_MS,
               timeoutEventType: opts.timeoutEventType ?? DEFAULT_TIMEOUT_EVENT,
               cronExpression: opts.cronExpression ?? DEFAULT_CRON_EXPRESSION,
               enableTimeoutCron: opts.enableTimeoutCron ?? true,
+              implementations: opts.implementations ?? {},
+              strictDefinitions: opts.strictDefinitions ?? false,
             };
           },
           inject: options.inject ?? [],
@@ -102,11 +112,13 @@ export class WorkflowModule {
         },
         WorkflowRegistry,
         WorkflowManager,
+        OutboxRelayService,
         TimeoutCronService,
       ],
       exports: [
         WorkflowManager,
         WorkflowRegistry,
+        OutboxRelayService,
         WORKFLOW_DB_ADAPTER,
         WORKFLOW_ENGINE,
       ],
@@ -72,6 +72,7 @@ describe('E2E: Concurrency (FOR UPDATE lock)', () => {
   });
 
   afterAll(async () => {
+    await setupClient.query(`DROP TABLE IF EXISTS ${TABLE_NAME}_timers`);
     await setupClient.query(`DROP TABLE IF EXISTS ${TABLE_NAME}_history`);
     await setupClient.query(`DROP TABLE IF EXISTS ${TABLE_NAME}`);
     await setupClient.end();
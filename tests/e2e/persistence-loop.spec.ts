@@ -63,6 +63,7 @@ describe('E2E: Persistence Loop', () => {
   });
 
   afterAll(async () => {
+    await client.query(`DROP TABLE IF EXISTS ${TABLE_NAME}_timers`);
     await client.query(`DROP TABLE IF EXISTS ${TABLE_NAME}_history`);
     await client.query(`DROP TABLE IF EXISTS ${TABLE_NAME}`);
     await client.end();
@@ -1,6 +1,7 @@
 import { DiscoveryService, Reflector } from '@nestjs/core';
 import { WorkflowRegistry } from '../src/services/workflow-registry.service';
 import { IWorkflowDbAdapter } from '../src/interfaces/workflow-db-adapter.interface';
+import type { OutboxRecord } from '../src/interfaces/workflow-records.interface';
 
 export function createMockRegistry(): WorkflowRegistry {
   const mockDiscovery = {
@@ -10,13 +11,52 @@ export function createMockRegistry(): WorkflowRegistry {
   return new WorkflowRegistry(mockDiscovery, mockReflector);
 }
 
+/**
+ * Jest-mocked adapter. The outbox methods keep their rows in memory so the
+ * relay publishes the events written by a send.
+ */
 export function createMockAdapter(): jest.Mocked<IWorkflowDbAdapter> {
+  const outbox: OutboxRecord[] = [];
   const mockAdapter: jest.Mocked<IWorkflowDbAdapter> = {
     findOne: jest.fn().mockResolvedValue(null),
     upsertLive: jest.fn().mockResolvedValue(undefined),
     insertHistory: jest.fn().mockResolvedValue(undefined),
+    findHistory: jest.fn().mockResolvedValue([]),
     findExpired: jest.fn().mockResolvedValue([]),
     findByState: jest.fn().mockResolvedValue([]),
+    findByStates: jest.fn().mockResolvedValue([]),
+    findOutdated: jest.fn().mockResolvedValue([]),
+    replaceTimers: jest.fn().mockResolvedValue(undefined),
+    findDueTimers: jest.fn().mockResolvedValue([]),
+    insertOutbox: jest.fn().mockImplementation(async (_tableName, data) => {
+      outbox.push({
+        ...data,
+        id: String(outbox.length + 1),
+        payload: JSON.parse(JSON.stringify(data.payload)),
+        createdAt: new Date(),
+        dispatchedAt: null,
+        attempts: 0,
+        lastError: null,
+      });
+    }),
+    findPendingOutbox: jest
+      .fn()
+      .mockImplementation(async (_tableName, limit, filter) =>
+        outbox
+          .filter(
+            (row) =>
+              row.dispatchedAt === null &&
+              (!filter ||
+                (row.eventType === filter.eventType) === !filter.exclude),
+          )
+          .slice(0, limit),
+      ),
+    markOutboxDispatched: jest
+      .fn()
+      .mockImplementation(async (_tableName, id) => {
+        outbox.find((row) => row.id === id)!.dispatchedAt = new Date();
+      }),
+    markOutboxFailed: jest.fn().mockResolvedValue(undefined),
     transaction: jest.fn().mockImplementation(async (cb) => cb(mockAdapter)),
   };
   return mockAdapter;
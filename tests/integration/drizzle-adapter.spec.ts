@@ -30,11 +30,12 @@ describe('Integration: DrizzleWorkflowAdapter (real Postgres)', () => {
 
   beforeEach(async () => {
     await setupClient.query(
-      `TRUNCATE TABLE ${TABLE_NAME}_history, ${TABLE_NAME}`,
+      `TRUNCATE TABLE ${TABLE_NAME}_timers, ${TABLE_NAME}_history, ${TABLE_NAME}`,
     );
   });
 
   afterAll(async () => {
+    await setupClient.query(`DROP TABLE IF EXISTS ${TABLE_NAME}_timers`);
     await setupClient.query(`DROP TABLE IF EXISTS ${TABLE_NAME}_history`);
     await setupClient.query(`DROP TABLE IF EXISTS ${TABLE_NAME}`);
     await pool.end();
@@ -163,6 +164,32 @@ describe('Integration: DrizzleWorkflowAdapter (real Postgres)', () => {
     expect(activeRows.map((row) => row.id)).not.toContain(doneId);
   });
 
+  it('should replace timers and find due ones', async () => {
+    const id = randomUUID();
+    await adapter.upsertLive(TABLE_NAME, id, {
+      stateValue: 'active',
+      snapshot: { value: 'active', context: {} },
+      expiresAt: null,
+    });
+
+    await adapter.replaceTimers(TABLE_NAME, id, [
+      { eventType: 'after.1m.active', dueAt: new Date(Date.now() - 60_000) },
+      { eventType: 'after.1h.active', dueAt: new Date(Date.now() + 60_000) },
+    ]);
+    await adapter.replaceTimers(TABLE_NAME, id, [
+      { eventType: 'after.5m.active', dueAt: new Date(Date.now() - 60_000) },
+    ]);
+
+    const due = await adapter.findDueTimers(TABLE_NAME);
+    expect(due).toEqual([
+      {
+        workflowId: id,
+        eventType: 'after.5m.active',
+        dueAt: expect.any(Date),
+      },
+    ]);
+  });
+
   it('should commit transaction changes', async () => {
     const id = randomUUID();
 
@@ -0,0 +1,199 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { InMemoryWorkflowAdapter } from '../../src/adapters/in-memory-workflow.adapter';
+import { NativeWorkflowEngine } from '../../src/engines/native.engine';
+import { WorkflowManager } from '../../src/services/workflow-manager.service';
+import { generateTestPaths } from '../../src/utils/generate-test-paths';
+import {
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_TIMEOUT_EVENT,
+} from '../../src/workflow.constants';
+import { assign } from '../../src/utils/assign';
+import { createMockRegistry } from '../helpers';
+import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
+
+// idle -SUBMIT-> review -DECIDE-> approved (amount < 100) -always-> closed
+//                              -> manual.queued -ASSIGN-> manual.assigned -RESOLVE-> approved
+const reviewMachine: DurableWorkflowDefinition = {
+  id: 'review',
+  initial: 'idle',
+  context: {},
+  states: {
+    idle: { on: { SUBMIT: 'review' } },
+    review: {
+      on: {
+        DECIDE: [
+          {
+            target: 'approved',
+            guard: ({ event }) => (event.amount as number) < 100,
+          },
+          { target: 'manual' },
+        ],
+      },
+    },
+    manual: {
+      initial: 'queued',
+      after: { '1d': 'expired' },
+      states: {
+        queued: { on: { ASSIGN: 'assigned' } },
+        assigned: { on: { RESOLVE: 'approved' } },
+      },
+    },
+    approved: { always: 'closed' },
+    closed: { final: true },
+    expired: { final: true },
+    archived: { final: true },
+  },
+};
+
+describe('generateTestPaths', () => {
+  const payloads = { DECIDE: [{ amount: 50 }, { amount: 500 }] };
+
+  it('should find the shortest plan entering each state', async () => {
+    const paths = await generateTestPaths(reviewMachine, { payloads });
+
+    expect(paths.states.idle).toEqual({
+      events: [],
+      expectedStateValue: 'idle',
+    });
+    expect(paths.states.approved).toEqual({
+      events: [{ type: 'SUBMIT' }, { type: 'DECIDE', amount: 50 }],
+      expectedStateValue: 'closed',
+    });
+    expect(paths.states['manual.assigned']).toEqual({
+      events: [
+        { type: 'SUBMIT' },
+        { type: 'DECIDE', amount: 500 },
+        { type: 'ASSIGN' },
+      ],
+      expectedStateValue: 'manual.assigned',
+    });
+    expect(paths.states.manual).toBe(paths.states['manual.queued']);
+    expect(paths.unreachedStates).toEqual(['expired', 'archived']);
+  });
+
+  it('should cover each transition and report the ones it cannot take', async () => {
+    const paths = await generateTestPaths(reviewMachine, { payloads });
+
+    expect(Object.keys(paths.transitions).sort()).toEqual([
+      'approved:always:0',
+      'idle:SUBMIT:0',
+      'manual.assigned:RESOLVE:0',
+      'manual.queued:ASSIGN:0',
+      'review:DECIDE:0',
+      'review:DECIDE:1',
+    ]);
+    expect(paths.transitions['manual.assigned:RESOLVE:0'].events).toHaveLength(
+      4,
+    );
+    expect(paths.uncoveredTransitions).toEqual(['manual:after.1d:0']);
+  });
+
+  it('should only take guarded transitions the sample payloads satisfy', async () => {
+    const paths = await generateTestPaths(reviewMachine, {
+      engine: new NativeWorkflowEngine(),
+    });
+
+    expect(paths.states.approved.events).toEqual([
+      { type: 'SUBMIT' },
+      { type: 'DECIDE' },
+      { type: 'ASSIGN' },
+      { type: 'RESOLVE' },
+    ]);
+    expect(paths.uncoveredTransitions).toContain('review:DECIDE:0');
+  });
+
+  it('should produce plans that replay through WorkflowManager', async () => {
+    const adapter = new InMemoryWorkflowAdapter('reviews');
+    const registry = createMockRegistry();
+    registry.register('reviews', reviewMachine, class ReviewWorkflow {});
+    const manager = new WorkflowManager(
+      registry,
+      adapter,
+      new EventEmitter2(),
+      {
+        maxTransitionDepth: DEFAULT_MAX_DEPTH,
+        timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+      },
+    );
+    const paths = await generateTestPaths(reviewMachine, { payloads });
+
+    for (const [statePath, plan] of Object.entries(paths.states)) {
+      if (plan.events.length === 0) continue;
+
+      let stateValue = '';
+      for (const event of plan.events) {
+        ({ stateValue } = await manager.send('reviews', statePath, event));
+      }
+      expect(stateValue).toBe(plan.expectedStateValue);
+    }
+  });
+
+  it('should cover wildcard handlers with an undeclared event type', async () => {
+    const paths = await generateTestPaths({
+      id: 'inbox',
+      initial: 'open',
+      context: {},
+      states: {
+        open: {
+          on: { UNDECLARED_EVENT: 'open', '*': 'unexpected', CLOSE: 'closed' },
+        },
+        unexpected: { final: true },
+        closed: { final: true },
+      },
+    });
+
+    expect(paths.transitions['open:*:0']).toEqual({
+      events: [{ type: 'UNDECLARED_EVENT_2' }],
+      expectedStateValue: 'unexpected',
+    });
+    expect(
+      Object.values(paths.transitions).flatMap((plan) =>
+        plan.events.map((event) => event.type),
+      ),
+    ).not.toContain('*');
+  });
+
+  it('should run assign actions but replace the others with the action stub', async () => {
+    const notify = jest.fn();
+    const actionStub = jest.fn();
+    const paths = await generateTestPaths(
+      {
+        id: 'counter',
+        initial: 'counting',
+        context: { count: 0 },
+        states: {
+          counting: {
+            on: {
+              INCREMENT: {
+                target: 'counted',
+                actions: [
+                  assign(({ context }) => ({
+                    count: Number(context.count) + 1,
+                  })),
+                  notify,
+                ],
+              },
+            },
+          },
+          counted: {
+            on: {
+              FINISH: {
+                target: 'finished',
+                guard: ({ context }) => context.count === 1,
+              },
+            },
+          },
+          finished: { final: true },
+        },
+      },
+      { actionStub },
+    );
+
+    expect(paths.states.finished.events).toEqual([
+      { type: 'INCREMENT' },
+      { type: 'FINISH' },
+    ]);
+    expect(notify).not.toHaveBeenCalled();
+    expect(actionStub).toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,15 @@
 import { TimeoutCronService } from '../../src/services/timeout-cron.service';
 import { WorkflowManager } from '../../src/services/workflow-manager.service';
+import { OutboxRelayService } from '../../src/services/outbox-relay.service';
 import { WorkflowRegistry } from '../../src/services/workflow-registry.service';
 import { IWorkflowDbAdapter } from '../../src/interfaces/workflow-db-adapter.interface';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { SchedulerRegistry } from '@nestjs/schedule';
 import { WorkflowEventType } from '../../src/events/workflow-event-type.enum';
-import { DEFAULT_TIMEOUT_EVENT } from '../../src/workflow.constants';
+import {
+  DEFAULT_TIMEOUT_EVENT,
+  WORKFLOW_MESSAGE_EVENT,
+} from '../../src/workflow.constants';
 import { createMockRegistry, createMockAdapter } from '../helpers';
 import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
 
@@ -55,7 +59,7 @@ describe('TimeoutCronService', () => {
       manager,
       adapter,
       schedulerRegistry,
-      emitter,
+      new OutboxRelayService(registry, adapter, emitter),
       {
         cronExpression: '*/60 * * * * *',
         timeoutEventType: DEFAULT_TIMEOUT_EVENT,
@@ -86,7 +90,7 @@ describe('TimeoutCronService', () => {
         manager,
         adapter,
         schedulerRegistry,
-        emitter,
+        new OutboxRelayService(registry, adapter, emitter),
         {
           cronExpression: '*/60 * * * * *',
           timeoutEventType: DEFAULT_TIMEOUT_EVENT,
@@ -103,7 +107,10 @@ describe('TimeoutCronService', () => {
 
   it('should send timeout event to each expired instance', async () => {
     // Mock: findExpired returns two expired instances
-    adapter.findExpired.mockResolvedValue([{ id: 'wf-1' }, { id: 'wf-2' }]);
+    adapter.findExpired.mockResolvedValue([
+      { id: 'wf-1', stateValue: 'active' },
+      { id: 'wf-2', stateValue: 'active' },
+    ]);
 
     // Mock: findOne returns an active workflow for each
     adapter.findOne.mockResolvedValue({
@@ -114,17 +121,23 @@ describe('TimeoutCronService', () => {
       updatedAt: new Date(),
     });
 
-    const sendSpy = jest.spyOn(manager, 'send');
+    const sendSpy = jest.spyOn(manager, 'sendTimeout');
 
     const summary = await cronService.processExpiredWorkflows();
 
     expect(sendSpy).toHaveBeenCalledTimes(2);
-    expect(sendSpy).toHaveBeenCalledWith('orders', 'wf-1', {
-      type: 'TIMEOUT',
-    });
-    expect(sendSpy).toHaveBeenCalledWith('orders', 'wf-2', {
-      type: 'TIMEOUT',
-    });
+    expect(sendSpy).toHaveBeenCalledWith(
+      'orders',
+      'wf-1',
+      { type: 'TIMEOUT' },
+      'active',
+    );
+    expect(sendSpy).toHaveBeenCalledWith(
+      'orders',
+      'wf-2',
+      { type: 'TIMEOUT' },
+      'active',
+    );
     expect(summary).toMatchObject({
       workflowTypesScanned: 1,
       expiredFound: 2,
@@ -137,7 +150,9 @@ describe('TimeoutCronService', () => {
   });
 
   it('should emit workflow.timeout.triggered for each processed instance', async () => {
-    adapter.findExpired.mockResolvedValue([{ id: 'wf-1' }]);
+    adapter.findExpired.mockResolvedValue([
+      { id: 'wf-1', stateValue: 'active' },
+    ]);
     adapter.findOne.mockResolvedValue({
       id: 'wf-1',
       stateValue: 'active',
@@ -146,7 +161,7 @@ describe('TimeoutCronService', () => {
       updatedAt: new Date(),
     });
 
-    const emitSpy = jest.spyOn(emitter, 'emit');
+    const emitSpy = jest.spyOn(emitter, 'emitAsync');
 
     const summary = await cronService.processExpiredWorkflows();
 
@@ -161,7 +176,9 @@ describe('TimeoutCronService', () => {
   });
 
   it('should keep send metrics when side effects fail', async () => {
-    adapter.findExpired.mockResolvedValue([{ id: 'wf-1' }]);
+    adapter.findExpired.mockResolvedValue([
+      { id: 'wf-1', stateValue: 'active' },
+    ]);
     adapter.findOne.mockResolvedValue({
       id: 'wf-1',
       stateValue: 'active',
@@ -170,14 +187,16 @@ describe('TimeoutCronService', () => {
       updatedAt: new Date(),
     });
 
-    const originalEmit = emitter.emit.bind(emitter);
-    jest.spyOn(emitter, 'emit').mockImplementation((...emitArgs: any[]) => {
-      const [event, ...args] = emitArgs;
-      if (event === WorkflowEventType.TIMEOUT_TRIGGERED) {
-        throw new Error('emitter failed');
-      }
-      return originalEmit(event, ...args);
-    });
+    const originalEmitAsync = emitter.emitAsync.bind(emitter);
+    jest
+      .spyOn(emitter, 'emitAsync')
+      .mockImplementation((...emitArgs: any[]) => {
+        const [event, ...args] = emitArgs;
+        if (event === WorkflowEventType.TIMEOUT_TRIGGERED) {
+          return Promise.reject(new Error('emitter failed'));
+        }
+        return originalEmitAsync(event, ...args);
+      });
 
     const summary = await cronService.processExpiredWorkflows();
 
@@ -190,7 +209,10 @@ describe('TimeoutCronService', () => {
   });
 
   it('should continue processing when one instance fails', async () => {
-    adapter.findExpired.mockResolvedValue([{ id: 'wf-fail' }, { id: 'wf-ok' }]);
+    adapter.findExpired.mockResolvedValue([
+      { id: 'wf-fail', stateValue: 'active' },
+      { id: 'wf-ok', stateValue: 'active' },
+    ]);
 
     // First call fails, second succeeds
     let callCount = 0;
@@ -208,7 +230,7 @@ describe('TimeoutCronService', () => {
       };
     });
 
-    const sendSpy = jest.spyOn(manager, 'send');
+    const sendSpy = jest.spyOn(manager, 'sendTimeout');
 
     // Should not throw
     const summary = await cronService.processExpiredWorkflows();
@@ -234,7 +256,7 @@ describe('TimeoutCronService', () => {
   it('should not process instances when none are expired', async () => {
     adapter.findExpired.mockResolvedValue([]);
 
-    const sendSpy = jest.spyOn(manager, 'send');
+    const sendSpy = jest.spyOn(manager, 'sendTimeout');
 
     const summary = await cronService.processExpiredWorkflows();
 
@@ -248,4 +270,253 @@ describe('TimeoutCronService', () => {
       failures: [],
     });
   });
+
+  it('should publish outbox events left pending by an interrupted dispatch', async () => {
+    await adapter.insertOutbox('orders', {
+      workflowId: 'wf-1',
+      eventType: WorkflowEventType.CREATED,
+      payload: { workflowType: 'orders', instanceId: 'wf-1' },
+    });
+    const listener = jest.fn();
+    emitter.on(WorkflowEventType.CREATED, listener);
+
+    const summary = await cronService.processExpiredWorkflows();
+
+    expect(listener).toHaveBeenCalledWith({
+      workflowType: 'orders',
+      instanceId: 'wf-1',
+    });
+    expect(summary.outboxDispatched).toBe(1);
+  });
+
+  it('should deliver messages left pending by an interrupted delivery', async () => {
+    await adapter.insertOutbox('orders', {
+      workflowId: 'wf-1',
+      eventType: WORKFLOW_MESSAGE_EVENT,
+      payload: { tableName: 'orders', id: 'wf-2', event: { type: 'TIMEOUT' } },
+    });
+
+    const summary = await cronService.processExpiredWorkflows();
+
+    expect(summary.messagesDelivered).toBe(1);
+    expect(summary.outboxDispatched).toBe(0);
+    expect(adapter.upsertLive).toHaveBeenCalledWith(
+      'orders',
+      'wf-2',
+      expect.any(Object),
+    );
+  });
+
+  describe('state-specific timeouts', () => {
+    const paymentMachine: DurableWorkflowDefinition = {
+      id: 'payment',
+      initial: 'awaitingPayment',
+      context: {},
+      states: {
+        awaitingPayment: {
+          timeout: {
+            minutes: 30,
+            event: 'PAYMENT_EXPIRED',
+            payload: { reason: 'unpaid' },
+          },
+          on: { PAYMENT_EXPIRED: 'cancelled' },
+        },
+        cancelled: { final: true },
+      },
+    };
+
+    beforeEach(() => {
+      registry.register('payments', paymentMachine, class Payment {});
+    });
+
+    it('should dispatch the event and payload declared by the expired state', async () => {
+      adapter.findExpired.mockImplementation(async (tableName) =>
+        tableName === 'payments'
+          ? [{ id: 'p-1', stateValue: 'awaitingPayment' }]
+          : [],
+      );
+      const sendSpy = jest
+        .spyOn(manager, 'sendTimeout')
+        .mockResolvedValue({} as never);
+
+      await cronService.processExpiredWorkflows();
+
+      expect(sendSpy).toHaveBeenCalledWith(
+        'payments',
+        'p-1',
+        { type: 'PAYMENT_EXPIRED', reason: 'unpaid' },
+        'awaitingPayment',
+      );
+    });
+
+    it('should dispatch the timeout whose deadline comes first', async () => {
+      registry.register(
+        'shipments',
+        {
+          id: 'shipment',
+          initial: 'shipping',
+          context: {},
+          states: {
+            shipping: {
+              timeout: { minutes: 60, event: 'SHIPPING_OVERDUE' },
+              initial: 'inTransit',
+              states: {
+                inTransit: { timeout: { minutes: 30, event: 'CARRIER_LATE' } },
+              },
+            },
+          },
+        },
+        class Shipment {},
+      );
+      adapter.findExpired.mockImplementation(async (tableName) =>
+        tableName === 'shipments'
+          ? [
+              {
+                id: 's-1',
+                stateValue: 'shipping.inTransit',
+                deadlines: {
+                  shipping: '2026-03-01T11:00:00.000Z',
+                  'shipping.inTransit': '2026-03-01T11:20:00.000Z',
+                },
+              },
+            ]
+          : [],
+      );
+      const sendSpy = jest
+        .spyOn(manager, 'sendTimeout')
+        .mockResolvedValue({} as never);
+
+      await cronService.processExpiredWorkflows();
+
+      expect(sendSpy).toHaveBeenCalledWith(
+        'shipments',
+        's-1',
+        { type: 'SHIPPING_OVERDUE' },
+        'shipping',
+      );
+    });
+
+    it('should fall back to the global timeout event', async () => {
+      adapter.findExpired.mockImplementation(async (tableName) =>
+        tableName === 'orders' ? [{ id: 'wf-1', stateValue: 'active' }] : [],
+      );
+      const sendSpy = jest
+        .spyOn(manager, 'sendTimeout')
+        .mockResolvedValue({} as never);
+
+      await cronService.processExpiredWorkflows();
+
+      expect(sendSpy).toHaveBeenCalledWith(
+        'orders',
+        'wf-1',
+        { type: 'TIMEOUT' },
+        'active',
+      );
+    });
+  });
+
+  describe('after timers', () => {
+    const reminderMachine: DurableWorkflowDefinition = {
+      id: 'reminder',
+      initial: 'waiting',
+      context: {},
+      states: {
+        waiting: { after: { '15m': 'reminded' } },
+        reminded: {},
+      },
+    };
+
+    beforeEach(() => {
+      registry.register('reminders', reminderMachine, class Reminder {});
+    });
+
+    it('should send the event of each due timer', async () => {
+      adapter.findDueTimers.mockImplementation(async (tableName) =>
+        tableName === 'reminders'
+          ? [
+              {
+                workflowId: 'r-1',
+                eventType: 'after.15m.waiting',
+                dueAt: new Date(Date.now() - 1000),
+              },
+            ]
+          : [],
+      );
+      const sendSpy = jest
+        .spyOn(manager, 'sendTimeout')
+        .mockResolvedValue({} as never);
+
+      const summary = await cronService.processExpiredWorkflows();
+
+      expect(sendSpy).toHaveBeenCalledWith(
+        'reminders',
+        'r-1',
+        { type: 'after.15m.waiting' },
+        'waiting',
+      );
+      expect(summary).toMatchObject({
+        workflowTypesScanned: 2,
+        dueTimersFound: 1,
+        attempted: 1,
+        succeeded: 1,
+      });
+    });
+
+    it('should only query timers for definitions with after transitions', async () => {
+      await cronService.processExpiredWorkflows();
+
+      expect(adapter.findDueTimers).toHaveBeenCalledTimes(1);
+      expect(adapter.findDueTimers).toHaveBeenCalledWith('reminders');
+    });
+
+    it('should also query timers for definitions with retry policies', async () => {
+      registry.register(
+        'payments',
+        {
+          id: 'payment',
+          initial: 'pending',
+          context: {},
+          states: {
+            pending: {
+              on: {
+                PAY: {
+                  target: 'paid',
+                  actions: {
+                    fn: () => undefined,
+                    retry: { attempts: 3, initialDelayMs: 1000 },
+                  },
+                },
+              },
+            },
+            paid: {},
+          },
+        },
+        class Payment {},
+      );
+      adapter.findDueTimers.mockImplementation(async (tableName) =>
+        tableName === 'payments'
+          ? [
+              {
+                workflowId: 'p-1',
+                eventType: 'workflow.retry.pending:PAY:0',
+                dueAt: new Date(Date.now() - 1000),
+              },
+            ]
+          : [],
+      );
+      const sendSpy = jest
+        .spyOn(manager, 'sendTimeout')
+        .mockResolvedValue({} as never);
+
+      await cronService.processExpiredWorkflows();
+
+      expect(adapter.findDueTimers).toHaveBeenCalledWith('payments');
+      expect(sendSpy).toHaveBeenCalledWith(
+        'payments',
+        'p-1',
+        { type: 'workflow.retry.pending:PAY:0' },
+        'pending',
+      );
+    });
+  });
 });
@@ -3,10 +3,19 @@ import { WorkflowRegistry } from '../../src/services/workflow-registry.service';
 import { IWorkflowDbAdapter } from '../../src/interfaces/workflow-db-adapter.interface';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { WorkflowEventType } from '../../src/events/workflow-event-type.enum';
+import { GuardTimeoutError } from '../../src/errors/guard-timeout.error';
+import { WorkflowNotFoundError } from '../../src/errors/workflow-not-found.error';
+import { WorkflowNotRegisteredError } from '../../src/errors/workflow-not-registered.error';
+import { WorkflowVersionNotRegisteredError } from '../../src/errors/workflow-version-not-registered.error';
+import { InMemoryWorkflowAdapter } from '../../src/adapters/in-memory-workflow.adapter';
 import {
   DEFAULT_MAX_DEPTH,
   DEFAULT_TIMEOUT_EVENT,
+  WORKFLOW_COMPENSATE_EVENT,
+  WORKFLOW_MESSAGE_EVENT,
+  WORKFLOW_MIGRATE_EVENT,
 } from '../../src/workflow.constants';
+import { assign } from '../../src/utils/assign';
 import { createMockRegistry, createMockAdapter } from '../helpers';
 import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
 
@@ -62,7 +71,8 @@ describe('WorkflowManager.send() - persistence loop', () => {
   it('should call transaction() wrapping all operations', async () => {
     await manager.send('orders', 'order-1', { type: 'START' });
 
-    expect(adapter.transaction).toHaveBeenCalledTimes(1);
+    // The send, then the outbox relay and the message delivery after commit
+    expect(adapter.transaction).toHaveBeenCalledTimes(3);
   });
 
   it('should call findOne with lock=true inside transaction', async () => {
@@ -151,7 +161,7 @@ describe('WorkflowManager.send() - persistence loop', () => {
 
   it('should emit workflow.created event for new instances', async () => {
     const emitter = new EventEmitter2();
-    const emitSpy = jest.spyOn(emitter, 'emit');
+    const emitSpy = jest.spyOn(emitter, 'emitAsync');
     ({ manager } = createManager(adapter, emitter));
 
     await manager.send('orders', 'order-1', { type: 'START' });
@@ -167,7 +177,7 @@ describe('WorkflowManager.send() - persistence loop', () => {
 
   it('should emit workflow.transition event for each transition', async () => {
     const emitter = new EventEmitter2();
-    const emitSpy = jest.spyOn(emitter, 'emit');
+    const emitSpy = jest.spyOn(emitter, 'emitAsync');
     ({ manager } = createManager(adapter, emitter));
 
     await manager.send('orders', 'order-1', { type: 'START' });
@@ -183,3 +193,1508 @@ describe('WorkflowManager.send() - persistence loop', () => {
     );
   });
 });
+
+describe('WorkflowManager.send() - after timers', () => {
+  const reminderMachine: DurableWorkflowDefinition = {
+    id: 'reminder',
+    initial: 'idle',
+    context: {},
+    states: {
+      idle: { on: { START: 'waiting' } },
+      waiting: { after: { '15m': 'reminded' }, on: { DONE: 'done' } },
+      reminded: { on: { DONE: 'done' } },
+      done: { final: true },
+    },
+  };
+
+  let adapter: jest.Mocked<IWorkflowDbAdapter>;
+  let manager: WorkflowManager;
+
+  beforeEach(() => {
+    adapter = createMockAdapter();
+    const registry = createMockRegistry();
+    registry.register('reminders', reminderMachine, class ReminderWorkflow {});
+    manager = new WorkflowManager(registry, adapter, new EventEmitter2(), {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+  });
+
+  it('should persist timers started by the settled state', async () => {
+    await manager.send('reminders', 'r-1', { type: 'START' });
+
+    expect(adapter.replaceTimers).toHaveBeenCalledWith('reminders', 'r-1', [
+      { eventType: 'after.15m.waiting', dueAt: expect.any(Date) },
+    ]);
+  });
+
+  it('should not touch the timers table when timers are unchanged', async () => {
+    await manager.send('reminders', 'r-1', { type: 'UNKNOWN' });
+
+    expect(adapter.replaceTimers).not.toHaveBeenCalled();
+  });
+});
+
+describe('WorkflowManager.send() - state timeouts', () => {
+  const start = Date.parse('2026-03-01T10:00:00.000Z');
+  const minutes = (count: number) => count * 60 * 1000;
+
+  let adapter: InMemoryWorkflowAdapter;
+  let manager: WorkflowManager;
+
+  function createTimeoutManager(definition: DurableWorkflowDefinition) {
+    const registry = createMockRegistry();
+    registry.register('shipments', definition, class ShipmentWorkflow {});
+    manager = new WorkflowManager(registry, adapter, new EventEmitter2(), {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+  }
+
+  async function expiresAt(id: string): Promise<number | undefined> {
+    return (await adapter.findOne('shipments', id))?.expiresAt?.getTime();
+  }
+
+  beforeEach(() => {
+    adapter = new InMemoryWorkflowAdapter('shipments');
+    jest.spyOn(Date, 'now').mockReturnValue(start);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('on a compound state', () => {
+    beforeEach(() => {
+      createTimeoutManager({
+        id: 'shipment',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { on: { START: 'shipping' } },
+          shipping: {
+            timeoutMinutes: 60,
+            initial: 'packing',
+            on: { RESTART: 'shipping' },
+            states: {
+              packing: { on: { PACKED: 'inTransit' } },
+              inTransit: { timeoutMinutes: 90 },
+            },
+          },
+        },
+      });
+    });
+
+    it('should keep the deadline while the child states change', async () => {
+      await manager.send('shipments', 's-1', { type: 'START' });
+      jest.spyOn(Date, 'now').mockReturnValue(start + minutes(30));
+      const result = await manager.send('shipments', 's-1', {
+        type: 'PACKED',
+      });
+
+      expect(result.stateValue).toBe('shipping.inTransit');
+      expect(await expiresAt('s-1')).toBe(start + minutes(60));
+      expect(result.snapshot.deadlines).toEqual({
+        shipping: new Date(start + minutes(60)).toISOString(),
+        'shipping.inTransit': new Date(start + minutes(120)).toISOString(),
+      });
+    });
+
+    it('should restart the deadline when the state is re-entered', async () => {
+      await manager.send('shipments', 's-1', { type: 'START' });
+      jest.spyOn(Date, 'now').mockReturnValue(start + minutes(30));
+      await manager.send('shipments', 's-1', { type: 'RESTART' });
+
+      expect(await expiresAt('s-1')).toBe(start + minutes(90));
+    });
+
+    it('should not fire a timeout again until its state is re-entered', async () => {
+      await manager.send('shipments', 's-1', { type: 'START' });
+      jest.spyOn(Date, 'now').mockReturnValue(start + minutes(61));
+      await manager.sendTimeout(
+        'shipments',
+        's-1',
+        { type: DEFAULT_TIMEOUT_EVENT },
+        'shipping',
+      );
+
+      expect(await expiresAt('s-1')).toBeUndefined();
+    });
+
+    it('should not fire a timeout whose deadline is not due yet', async () => {
+      await manager.send('shipments', 's-1', { type: 'START' });
+      jest.spyOn(Date, 'now').mockReturnValue(start + minutes(30));
+      await manager.send('shipments', 's-1', { type: 'RESTART' });
+      // The cron read the deadline of the first visit to the state
+      jest.spyOn(Date, 'now').mockReturnValue(start + minutes(61));
+      const result = await manager.sendTimeout(
+        'shipments',
+        's-1',
+        { type: DEFAULT_TIMEOUT_EVENT },
+        'shipping',
+      );
+
+      expect(result.transitionCount).toBe(0);
+      expect(await expiresAt('s-1')).toBe(start + minutes(90));
+    });
+  });
+
+  describe('on parallel regions', () => {
+    beforeEach(() => {
+      createTimeoutManager({
+        id: 'shipment',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { on: { START: 'shipping' } },
+          shipping: {
+            type: 'parallel',
+            states: {
+              payment: {
+                initial: 'pending',
+                states: {
+                  pending: { timeoutMinutes: 60, on: { PAID: 'paid' } },
+                  paid: {},
+                },
+              },
+              delivery: {
+                initial: 'packing',
+                states: {
+                  packing: { timeoutMinutes: 120, on: { PACKED: 'loading' } },
+                  loading: { on: { LOADED: 'packing' } },
+                },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    it('should not restart one region deadline on a transition in another', async () => {
+      await manager.send('shipments', 's-1', { type: 'START' });
+      jest.spyOn(Date, 'now').mockReturnValue(start + minutes(30));
+      const result = await manager.send('shipments', 's-1', {
+        type: 'PACKED',
+      });
+
+      expect(await expiresAt('s-1')).toBe(start + minutes(60));
+      expect(result.snapshot.deadlines).toEqual({
+        'shipping.payment.pending': new Date(start + minutes(60)).toISOString(),
+      });
+    });
+
+    it('should keep the other region deadline when one region exits its state', async () => {
+      await manager.send('shipments', 's-1', { type: 'START' });
+      jest.spyOn(Date, 'now').mockReturnValue(start + minutes(30));
+      await manager.send('shipments', 's-1', { type: 'PAID' });
+
+      expect(await expiresAt('s-1')).toBe(start + minutes(120));
+    });
+  });
+});
+
+describe('WorkflowManager.send() - async guards', () => {
+  it('should fail the dispatch without persisting when a guard times out', async () => {
+    const adapter = createMockAdapter();
+    const registry = createMockRegistry();
+    registry.register(
+      'approvals',
+      {
+        id: 'approval',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            on: {
+              APPROVE: {
+                target: 'approved',
+                guard: () => new Promise<boolean>(() => undefined),
+              },
+            },
+          },
+          approved: {},
+        },
+      },
+      class ApprovalWorkflow {},
+    );
+    const manager = new WorkflowManager(
+      registry,
+      adapter,
+      new EventEmitter2(),
+      {
+        maxTransitionDepth: DEFAULT_MAX_DEPTH,
+        timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+        guardTimeoutMs: 20,
+      },
+    );
+
+    await expect(
+      manager.send('approvals', 'a-1', { type: 'APPROVE' }),
+    ).rejects.toBeInstanceOf(GuardTimeoutError);
+    expect(adapter.upsertLive).not.toHaveBeenCalled();
+  });
+});
+
+describe('WorkflowManager - child workflows', () => {
+  const orderMachine: DurableWorkflowDefinition = {
+    id: 'order',
+    initial: 'idle',
+    context: { shipmentId: null, shipment: null },
+    states: {
+      idle: {
+        on: {
+          PLACE: {
+            target: 'fulfilling',
+            actions: ({ context, spawn }) => {
+              context.shipmentId = spawn('shipments', {
+                id: 'ship-1',
+                event: { type: 'PACK' },
+              });
+            },
+          },
+        },
+      },
+      fulfilling: {
+        on: {
+          'done.child': {
+            target: 'completed',
+            actions: ({ context, event }) => {
+              context.shipment = event.output;
+            },
+          },
+          ABORT: 'aborted',
+        },
+      },
+      completed: { final: true },
+      aborted: { final: true },
+    },
+  };
+
+  const shipmentMachine: DurableWorkflowDefinition = {
+    id: 'shipment',
+    initial: 'pending',
+    context: { carrier: 'acme' },
+    states: {
+      pending: { on: { PACK: 'packed' } },
+      packed: { on: { SHIP: 'shipped' } },
+      shipped: { final: true },
+    },
+  };
+
+  let adapter: InMemoryWorkflowAdapter;
+  let manager: WorkflowManager;
+  let eventEmitter: EventEmitter2;
+
+  beforeEach(() => {
+    adapter = new InMemoryWorkflowAdapter('orders');
+    eventEmitter = new EventEmitter2();
+    const registry = createMockRegistry();
+    registry.register('orders', orderMachine, class OrderWorkflow {});
+    registry.register('shipments', shipmentMachine, class ShipmentWorkflow {});
+    manager = new WorkflowManager(registry, adapter, eventEmitter, {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+  });
+
+  it('should create spawned children linked to the parent', async () => {
+    const result = await manager.send('orders', 'order-1', { type: 'PLACE' });
+
+    expect(result.snapshot.children).toEqual([
+      { id: 'ship-1', tableName: 'shipments' },
+    ]);
+    expect(result.snapshot.context).toMatchObject({ shipmentId: 'ship-1' });
+
+    const child = await adapter.findOne('shipments', 'ship-1');
+    expect(child).toMatchObject({
+      stateValue: 'packed',
+      parentTable: 'orders',
+      parentId: 'order-1',
+    });
+  });
+
+  it('should send done.child.<id> to the parent when a child completes', async () => {
+    await manager.send('orders', 'order-1', { type: 'PLACE' });
+
+    const childResult = await manager.send('shipments', 'ship-1', {
+      type: 'SHIP',
+    });
+    expect(childResult.done).toBe(true);
+
+    const parent = await adapter.findOne('orders', 'order-1');
+    expect(parent!.stateValue).toBe('completed');
+    expect(parent!.snapshot.children).toEqual([]);
+    expect(parent!.snapshot.context).toMatchObject({
+      shipment: { carrier: 'acme' },
+    });
+  });
+
+  it('should notify the parent after the child transaction commits', async () => {
+    await manager.send('orders', 'order-1', { type: 'PLACE' });
+    const transaction = adapter.transaction.bind(adapter);
+    const locked: string[][] = [];
+    jest.spyOn(adapter, 'transaction').mockImplementation((callback) =>
+      transaction(async (txAdapter) => {
+        const rows: string[] = [];
+        locked.push(rows);
+        const findOne = txAdapter.findOne.bind(txAdapter);
+        jest
+          .spyOn(txAdapter, 'findOne')
+          .mockImplementation(async (tableName, id, lock) => {
+            if (lock) rows.push(`${tableName}/${id}`);
+            return findOne(tableName, id, lock);
+          });
+        return callback(txAdapter);
+      }),
+    );
+
+    await manager.send('shipments', 'ship-1', { type: 'SHIP' });
+
+    expect(locked[0]).toEqual(['shipments/ship-1']);
+    expect(locked).toContainEqual(['orders/order-1']);
+    expect((await adapter.findOne('orders', 'order-1'))!.stateValue).toBe(
+      'completed',
+    );
+  });
+
+  it('should cascade cancel to active children', async () => {
+    const cancelled = jest.fn();
+    eventEmitter.on(WorkflowEventType.CANCELLED, cancelled);
+    await manager.send('orders', 'order-1', { type: 'PLACE' });
+
+    await manager.cancel('orders', 'order-1');
+
+    const parent = await adapter.findOne('orders', 'order-1');
+    const child = await adapter.findOne('shipments', 'ship-1');
+    expect(parent!.snapshot.status).toBe('cancelled');
+    expect(child!.snapshot.status).toBe('cancelled');
+    expect(cancelled).toHaveBeenCalledTimes(2);
+
+    const ignored = await manager.send('shipments', 'ship-1', {
+      type: 'SHIP',
+    });
+    expect(ignored.stateValue).toBe('packed');
+    expect(ignored.transitionCount).toBe(0);
+  });
+
+  it('should cancel active children when the parent reaches a final state', async () => {
+    await manager.send('orders', 'order-1', { type: 'PLACE' });
+
+    await manager.send('orders', 'order-1', { type: 'ABORT' });
+
+    const child = await adapter.findOne('shipments', 'ship-1');
+    expect(child!.snapshot.status).toBe('cancelled');
+  });
+
+  it('should throw WorkflowNotFoundError when cancelling an unknown instance', async () => {
+    await expect(manager.cancel('orders', 'missing')).rejects.toBeInstanceOf(
+      WorkflowNotFoundError,
+    );
+  });
+});
+
+describe('WorkflowManager.send() - action errors', () => {
+  const paymentMachine: DurableWorkflowDefinition = {
+    id: 'payment',
+    initial: 'pending',
+    context: {},
+    states: {
+      pending: {
+        timeoutMinutes: 30,
+        on: {
+          PAY: {
+            target: 'paid',
+            actions: () => {
+              throw new Error('card declined');
+            },
+          },
+        },
+      },
+      paid: { final: true },
+    },
+  };
+
+  let adapter: jest.Mocked<IWorkflowDbAdapter>;
+  let manager: WorkflowManager;
+  let eventEmitter: EventEmitter2;
+
+  beforeEach(() => {
+    adapter = createMockAdapter();
+    eventEmitter = new EventEmitter2();
+    const registry = createMockRegistry();
+    registry.register('payments', paymentMachine, class PaymentWorkflow {});
+    manager = new WorkflowManager(registry, adapter, eventEmitter, {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+  });
+
+  it('should persist error status instead of rolling back an unhandled failure', async () => {
+    const result = await manager.send('payments', 'p-1', { type: 'PAY' });
+
+    expect(result.status).toBe('error');
+    expect(result.stateValue).toBe('pending');
+    expect(adapter.upsertLive).toHaveBeenCalledWith(
+      'payments',
+      'p-1',
+      expect.objectContaining({
+        expiresAt: null,
+        snapshot: expect.objectContaining({ status: 'error' }),
+      }),
+    );
+    expect(adapter.insertHistory).toHaveBeenCalledWith('payments', {
+      workflowId: 'p-1',
+      fromState: 'pending',
+      toState: 'pending',
+      eventType: 'error.execution',
+      eventPayload: {
+        type: 'error.execution',
+        error: { name: 'Error', message: 'card declined' },
+        event: { type: 'PAY' },
+      },
+    });
+  });
+
+  it('should emit workflow.transition.error', async () => {
+    const listener = jest.fn();
+    eventEmitter.on(WorkflowEventType.TRANSITION_ERROR, listener);
+
+    await manager.send('payments', 'p-1', { type: 'PAY' });
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowType: 'payments',
+        instanceId: 'p-1',
+        state: 'pending',
+        eventType: 'PAY',
+        error: { name: 'Error', message: 'card declined' },
+        handled: false,
+      }),
+    );
+  });
+
+  it('should ignore further events in error until the instance is cancelled', async () => {
+    const store = new InMemoryWorkflowAdapter('payments');
+    const registry = createMockRegistry();
+    registry.register('payments', paymentMachine, class PaymentWorkflow {});
+    manager = new WorkflowManager(registry, store, eventEmitter, {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+    await manager.send('payments', 'p-1', { type: 'PAY' });
+
+    const ignored = await manager.send('payments', 'p-1', { type: 'PAY' });
+    expect(ignored).toMatchObject({ status: 'error', transitionCount: 0 });
+
+    await manager.cancel('payments', 'p-1');
+    expect((await store.findOne('payments', 'p-1'))!.snapshot.status).toBe(
+      'cancelled',
+    );
+  });
+});
+
+describe('WorkflowManager.send() - retry policies', () => {
+  it('should persist the retry timer and report the retry time', async () => {
+    const adapter = createMockAdapter();
+    const eventEmitter = new EventEmitter2();
+    const registry = createMockRegistry();
+    registry.register(
+      'payments',
+      {
+        id: 'payment',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            on: {
+              PAY: {
+                target: 'paid',
+                actions: {
+                  fn: () => {
+                    throw new Error('gateway unavailable');
+                  },
+                  retry: { attempts: 2, initialDelayMs: 60_000 },
+                },
+              },
+            },
+          },
+          paid: { final: true },
+        },
+      },
+      class PaymentWorkflow {},
+    );
+    const manager = new WorkflowManager(registry, adapter, eventEmitter, {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+    const listener = jest.fn();
+    eventEmitter.on(WorkflowEventType.TRANSITION_ERROR, listener);
+
+    const result = await manager.send('payments', 'p-1', { type: 'PAY' });
+
+    expect(result.status).toBe('active');
+    expect(adapter.replaceTimers).toHaveBeenCalledWith('payments', 'p-1', [
+      {
+        eventType: 'workflow.retry.pending:PAY:0',
+        dueAt: expect.any(Date),
+      },
+    ]);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ handled: true, retryAt: expect.any(Date) }),
+    );
+  });
+});
+
+describe('WorkflowManager.send() - raised events', () => {
+  it('should record transitions of raised events with their own event type', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+    const registry = createMockRegistry();
+    registry.register(
+      'orders',
+      {
+        id: 'order',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: {
+            on: {
+              SUBMIT: {
+                target: 'validating',
+                actions: ({ raise }) => raise({ type: 'VALIDATED' }),
+              },
+            },
+          },
+          validating: { on: { VALIDATED: 'approved' } },
+          approved: {},
+        },
+      },
+      class OrderWorkflow {},
+    );
+    const manager = new WorkflowManager(
+      registry,
+      adapter,
+      new EventEmitter2(),
+      {
+        maxTransitionDepth: DEFAULT_MAX_DEPTH,
+        timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+      },
+    );
+
+    const result = await manager.send('orders', 'order-1', {
+      type: 'SUBMIT',
+    });
+
+    expect(result.stateValue).toBe('approved');
+    const history = await adapter.findHistory('orders', 'order-1');
+    expect(
+      history.map((row) => [row.fromState, row.toState, row.eventType]),
+    ).toEqual([
+      ['idle', 'validating', 'SUBMIT'],
+      ['validating', 'approved', 'VALIDATED'],
+    ]);
+  });
+});
+
+describe('WorkflowManager - messages between workflows', () => {
+  const paymentMachine: DurableWorkflowDefinition = {
+    id: 'payment',
+    initial: 'pending',
+    context: { orderId: 'order-1' },
+    states: {
+      pending: {
+        on: {
+          CAPTURE: {
+            target: 'captured',
+            actions: ({ context, sendTo }) => {
+              sendTo('orders', context.orderId as string, {
+                type: 'PAYMENT_CAPTURED',
+                paymentId: 'pay-1',
+              });
+            },
+          },
+          REFUND: {
+            target: 'refunded',
+            actions: ({ sendTo }) => sendTo('invoices', 'inv-1', { type: 'X' }),
+          },
+        },
+      },
+      captured: {},
+      refunded: {},
+    },
+  };
+
+  const orderMachine: DurableWorkflowDefinition = {
+    id: 'order',
+    initial: 'awaitingPayment',
+    context: {},
+    states: {
+      awaitingPayment: { on: { PAYMENT_CAPTURED: 'paid' } },
+      paid: {},
+    },
+  };
+
+  let adapter: InMemoryWorkflowAdapter;
+  let manager: WorkflowManager;
+  let eventEmitter: EventEmitter2;
+
+  beforeEach(async () => {
+    adapter = new InMemoryWorkflowAdapter('payments');
+    eventEmitter = new EventEmitter2();
+    const registry = createMockRegistry();
+    registry.register('payments', paymentMachine, class PaymentWorkflow {});
+    registry.register('orders', orderMachine, class OrderWorkflow {});
+    manager = new WorkflowManager(registry, adapter, eventEmitter, {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+
+    await manager.send('orders', 'order-1', { type: 'workflow.init' });
+  });
+
+  it('should deliver messages after the sending transaction commits', async () => {
+    const transitions: string[] = [];
+    eventEmitter.on(WorkflowEventType.TRANSITION, (event) =>
+      transitions.push(`${event.workflowType}:${event.toState}`),
+    );
+
+    const result = await manager.send('payments', 'pay-1', {
+      type: 'CAPTURE',
+    });
+
+    expect(result.stateValue).toBe('captured');
+    await expect(adapter.findOne('orders', 'order-1')).resolves.toMatchObject({
+      stateValue: 'paid',
+    });
+    const history = await adapter.findHistory('orders', 'order-1');
+    expect(history[history.length - 1]).toMatchObject({
+      eventType: 'PAYMENT_CAPTURED',
+      eventPayload: { type: 'PAYMENT_CAPTURED', paymentId: 'pay-1' },
+    });
+    expect(transitions).toEqual(['payments:captured', 'orders:paid']);
+    await expect(
+      adapter.findPendingOutbox('payments', 10),
+    ).resolves.toHaveLength(0);
+  });
+
+  it('should keep failed messages pending until they are delivered', async () => {
+    // Transactions run on a separate adapter instance over a copy of the state
+    const { upsertLive } = InMemoryWorkflowAdapter.prototype;
+    const spy = jest
+      .spyOn(InMemoryWorkflowAdapter.prototype, 'upsertLive')
+      .mockImplementation(function (
+        this: InMemoryWorkflowAdapter,
+        tableName,
+        ...args
+      ) {
+        return tableName === 'orders'
+          ? Promise.reject(new Error('db down'))
+          : upsertLive.call(this, tableName, ...args);
+      });
+
+    const result = await manager.send('payments', 'pay-1', {
+      type: 'CAPTURE',
+    });
+    spy.mockRestore();
+
+    expect(result.stateValue).toBe('captured');
+    await expect(adapter.findOne('payments', 'pay-1')).resolves.toMatchObject({
+      stateValue: 'captured',
+    });
+    await expect(adapter.findOne('orders', 'order-1')).resolves.toMatchObject({
+      stateValue: 'awaitingPayment',
+    });
+    await expect(adapter.findPendingOutbox('payments', 10)).resolves.toEqual([
+      expect.objectContaining({
+        eventType: WORKFLOW_MESSAGE_EVENT,
+        attempts: 1,
+        lastError: 'db down',
+      }),
+    ]);
+
+    await expect(manager.deliverMessages()).resolves.toEqual({
+      dispatched: 1,
+      failed: 0,
+    });
+    await expect(adapter.findOne('orders', 'order-1')).resolves.toMatchObject({
+      stateValue: 'paid',
+    });
+    await expect(manager.deliverMessages()).resolves.toEqual({
+      dispatched: 0,
+      failed: 0,
+    });
+  });
+
+  it('should reject messages to unregistered workflow tables', async () => {
+    await expect(
+      manager.send('payments', 'pay-1', { type: 'REFUND' }),
+    ).rejects.toThrow(WorkflowNotRegisteredError);
+
+    await expect(adapter.findOne('payments', 'pay-1')).resolves.toBeNull();
+  });
+});
+
+describe('WorkflowManager - definition versions', () => {
+  const v1: DurableWorkflowDefinition = {
+    id: 'order',
+    initial: 'idle',
+    context: {},
+    states: {
+      idle: { on: { START: 'active' } },
+      active: { on: { COMPLETE: 'done' } },
+      done: { final: true },
+    },
+  };
+  const v2: DurableWorkflowDefinition = {
+    id: 'order',
+    version: 2,
+    initial: 'idle',
+    context: {},
+    states: {
+      idle: { on: { START: 'processing' } },
+      processing: { on: { COMPLETE: 'done' } },
+      done: { final: true },
+    },
+  };
+
+  let adapter: InMemoryWorkflowAdapter;
+
+  function createVersionedManager(
+    definitions: DurableWorkflowDefinition[],
+  ): WorkflowManager {
+    const registry = createMockRegistry();
+    registry.register('orders', definitions, class OrderWorkflow {});
+    return new WorkflowManager(registry, adapter, new EventEmitter2(), {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+  }
+
+  beforeEach(async () => {
+    adapter = new InMemoryWorkflowAdapter('orders');
+    await createVersionedManager([v1]).send('orders', 'order-1', {
+      type: 'START',
+    });
+  });
+
+  it('should keep in-flight instances on the version they started on', async () => {
+    const manager = createVersionedManager([v1, v2]);
+
+    const existing = await manager.send('orders', 'order-1', {
+      type: 'COMPLETE',
+    });
+    const created = await manager.send('orders', 'order-2', {
+      type: 'START',
+    });
+
+    expect(existing).toMatchObject({
+      stateValue: 'done',
+      snapshot: { definitionVersion: 1 },
+    });
+    expect(created).toMatchObject({
+      stateValue: 'processing',
+      snapshot: { definitionVersion: 2 },
+    });
+  });
+
+  it('should resume snapshots without a definition version on version 1', async () => {
+    const row = await adapter.findOne('orders', 'order-1');
+    const { definitionVersion: _, ...legacySnapshot } = row!.snapshot;
+    await adapter.upsertLive('orders', 'order-1', {
+      stateValue: row!.stateValue,
+      snapshot: legacySnapshot,
+      expiresAt: null,
+    });
+
+    const result = await createVersionedManager([v1, v2]).send(
+      'orders',
+      'order-1',
+      { type: 'COMPLETE' },
+    );
+
+    expect(result.stateValue).toBe('done');
+  });
+
+  it('should reject instances whose version is no longer registered', async () => {
+    await expect(
+      createVersionedManager([v2]).send('orders', 'order-1', {
+        type: 'COMPLETE',
+      }),
+    ).rejects.toThrow(WorkflowVersionNotRegisteredError);
+  });
+
+  describe('snapshot migrations', () => {
+    const migratedV2: DurableWorkflowDefinition = {
+      ...v2,
+      migrate: (_fromVersion, snapshot) => ({
+        ...snapshot,
+        state: snapshot.state === 'active' ? 'processing' : snapshot.state,
+        context: { ...snapshot.context, migrated: true },
+      }),
+    };
+
+    it('should migrate instances when they are loaded and record it in history', async () => {
+      const result = await createVersionedManager([v1, migratedV2]).send(
+        'orders',
+        'order-1',
+        { type: 'COMPLETE' },
+      );
+
+      expect(result).toMatchObject({
+        stateValue: 'done',
+        snapshot: { definitionVersion: 2, context: { migrated: true } },
+      });
+      const history = await adapter.findHistory('orders', 'order-1');
+      expect(
+        history.slice(1).map(({ fromState, toState, eventPayload }) => ({
+          fromState,
+          toState,
+          eventPayload,
+        })),
+      ).toEqual([
+        {
+          fromState: 'active',
+          toState: 'processing',
+          eventPayload: {
+            type: WORKFLOW_MIGRATE_EVENT,
+            fromVersion: 1,
+            toVersion: 2,
+          },
+        },
+        {
+          fromState: 'processing',
+          toState: 'done',
+          eventPayload: { type: 'COMPLETE' },
+        },
+      ]);
+    });
+
+    it('should migrate every outdated instance with migrateSnapshots()', async () => {
+      const manager = createVersionedManager([v1, migratedV2]);
+
+      await expect(manager.migrateSnapshots('orders')).resolves.toBe(1);
+      await expect(manager.migrateSnapshots('orders')).resolves.toBe(0);
+
+      const row = await adapter.findOne('orders', 'order-1');
+      expect(row).toMatchObject({
+        stateValue: 'processing',
+        snapshot: { definitionVersion: 2, context: { migrated: true } },
+      });
+      const history = await adapter.findHistory('orders', 'order-1');
+      expect(history[history.length - 1].eventType).toBe(
+        WORKFLOW_MIGRATE_EVENT,
+      );
+    });
+
+    it('should leave instances without a migration path on their version', async () => {
+      const manager = createVersionedManager([v1, v2]);
+
+      await expect(manager.migrateSnapshots('orders')).resolves.toBe(0);
+
+      const row = await adapter.findOne('orders', 'order-1');
+      expect(row?.snapshot.definitionVersion).toBe(1);
+    });
+  });
+});
+
+describe('WorkflowManager.compensate()', () => {
+  const bookingMachine: DurableWorkflowDefinition = {
+    id: 'booking',
+    initial: 'idle',
+    context: { log: [] },
+    states: {
+      idle: {
+        on: {
+          BOOK_FLIGHT: {
+            target: 'flightBooked',
+            compensate: ({ context }) => {
+              (context.log as string[]).push('cancel flight');
+            },
+          },
+        },
+      },
+      flightBooked: {
+        on: {
+          NOTE: {
+            actions: ({ context }) => {
+              (context.log as string[]).push('note');
+            },
+          },
+          BOOK_HOTEL: {
+            target: 'hotelBooked',
+            compensate: ({ context, fromState, toState }) => {
+              (context.log as string[]).push(
+                `cancel hotel ${fromState}->${toState}`,
+              );
+            },
+          },
+        },
+      },
+      hotelBooked: { on: { PAY: 'paid' } },
+      paid: {},
+    },
+  };
+
+  let adapter: InMemoryWorkflowAdapter;
+  let manager: WorkflowManager;
+  let eventEmitter: EventEmitter2;
+
+  beforeEach(async () => {
+    adapter = new InMemoryWorkflowAdapter('bookings');
+    eventEmitter = new EventEmitter2();
+    const registry = createMockRegistry();
+    registry.register('bookings', bookingMachine, class BookingWorkflow {});
+    manager = new WorkflowManager(registry, adapter, eventEmitter, {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+
+    for (const type of ['BOOK_FLIGHT', 'NOTE', 'BOOK_HOTEL', 'PAY']) {
+      await manager.send('bookings', 'b-1', { type });
+    }
+  });
+
+  it('should run compensations newest first and record each step', async () => {
+    const result = await manager.compensate(
+      'bookings',
+      'b-1',
+      'payment failed',
+    );
+
+    expect(result.status).toBe('compensated');
+    expect(result.stateValue).toBe('paid');
+    expect(result.transitionCount).toBe(2);
+    expect(result.snapshot.context).toEqual({
+      log: ['note', 'cancel hotel hotelBooked->flightBooked', 'cancel flight'],
+    });
+
+    const history = await adapter.findHistory('bookings', 'b-1');
+    const steps = history.filter(
+      (row) => row.eventType === WORKFLOW_COMPENSATE_EVENT,
+    );
+    expect(steps.map((row) => row.eventPayload)).toEqual([
+      expect.objectContaining({ reason: 'payment failed' }),
+      expect.objectContaining({ reason: 'payment failed' }),
+    ]);
+  });
+
+  it('should resume after a failed step without repeating completed ones', async () => {
+    const registry = createMockRegistry();
+    let failFlight = true;
+    registry.register(
+      'bookings',
+      {
+        ...bookingMachine,
+        states: {
+          ...bookingMachine.states,
+          idle: {
+            on: {
+              BOOK_FLIGHT: {
+                target: 'flightBooked',
+                compensate: ({ context }) => {
+                  if (failFlight) throw new Error('airline unavailable');
+                  (context.log as string[]).push('cancel flight');
+                },
+              },
+            },
+          },
+        },
+      },
+      class BookingWorkflow {},
+    );
+    const flakyManager = new WorkflowManager(registry, adapter, eventEmitter, {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+
+    await expect(
+      flakyManager.compensate('bookings', 'b-1', 'payment failed'),
+    ).rejects.toThrow('airline unavailable');
+    const halfway = await adapter.findOne('bookings', 'b-1');
+    expect(halfway!.snapshot).toEqual(
+      expect.objectContaining({ status: 'compensating' }),
+    );
+
+    failFlight = false;
+    const result = await flakyManager.compensate(
+      'bookings',
+      'b-1',
+      'payment failed',
+    );
+
+    expect(result.transitionCount).toBe(1);
+    expect(result.snapshot.context).toEqual({
+      log: ['note', 'cancel hotel hotelBooked->flightBooked', 'cancel flight'],
+    });
+  });
+
+  it('should ignore events once compensation has started', async () => {
+    await manager.compensate('bookings', 'b-1', 'payment failed');
+
+    const result = await manager.send('bookings', 'b-1', { type: 'PAY' });
+
+    expect(result.status).toBe('compensated');
+    expect(result.transitionCount).toBe(0);
+  });
+
+  it('should emit workflow.compensated once', async () => {
+    const listener = jest.fn();
+    eventEmitter.on(WorkflowEventType.COMPENSATED, listener);
+
+    await manager.compensate('bookings', 'b-1', 'payment failed');
+    await manager.compensate('bookings', 'b-1', 'payment failed');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowType: 'bookings',
+        instanceId: 'b-1',
+        state: 'paid',
+        reason: 'payment failed',
+      }),
+    );
+  });
+
+  it('should throw WorkflowNotFoundError for an unknown instance', async () => {
+    await expect(
+      manager.compensate('bookings', 'missing', 'payment failed'),
+    ).rejects.toThrow(WorkflowNotFoundError);
+  });
+});
+
+describe('WorkflowManager.simulate()', () => {
+  const charge = jest.fn();
+  const refund = jest.fn();
+  const orderMachine: DurableWorkflowDefinition = {
+    id: 'order',
+    initial: 'pending',
+    context: { total: 10, refunded: false },
+    states: {
+      pending: {
+        on: {
+          PAY: 'paid',
+          CANCEL: { target: 'cancelling', actions: charge },
+          DISCOUNT: {
+            actions: [
+              assign(({ context, event }) => ({
+                total: Number(context.total) - Number(event.amount),
+              })),
+              charge,
+            ],
+          },
+        },
+      },
+      paid: {},
+      cancelling: {
+        timeoutMinutes: 30,
+        entry: refund,
+        always: {
+          target: 'cancelled',
+          guard: ({ context }) => context.refunded === true,
+        },
+      },
+      cancelled: { final: true },
+    },
+  };
+
+  let adapter: InMemoryWorkflowAdapter;
+  let manager: WorkflowManager;
+
+  beforeEach(async () => {
+    adapter = new InMemoryWorkflowAdapter('orders');
+    const registry = createMockRegistry();
+    registry.register('orders', orderMachine, class OrderWorkflow {});
+    manager = new WorkflowManager(registry, adapter, new EventEmitter2(), {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+    await manager.send('orders', 'o-1', { type: 'workflow.init' });
+    charge.mockClear();
+    refund.mockClear();
+  });
+
+  it('should report the outcome without running actions or writing', async () => {
+    const findOne = jest.spyOn(adapter, 'findOne');
+    const upsertLive = jest.spyOn(adapter, 'upsertLive');
+    const insertHistory = jest.spyOn(adapter, 'insertHistory');
+    const insertOutbox = jest.spyOn(adapter, 'insertOutbox');
+    const transaction = jest.spyOn(adapter, 'transaction');
+
+    const before = Date.now();
+    const result = await manager.simulate('orders', 'o-1', {
+      type: 'CANCEL',
+    });
+
+    expect(result).toMatchObject({
+      id: 'o-1',
+      stateValue: 'cancelling',
+      done: false,
+      status: 'active',
+      contextChanges: {},
+      spawned: [],
+      messages: [],
+    });
+    expect(result.transitions).toEqual([
+      expect.objectContaining({ fromState: 'pending', toState: 'cancelling' }),
+    ]);
+    expect(result.expiresAt!.getTime()).toBeGreaterThanOrEqual(
+      before + 30 * 60 * 1000,
+    );
+    expect(charge).not.toHaveBeenCalled();
+    expect(refund).not.toHaveBeenCalled();
+    expect(findOne).toHaveBeenCalledWith('orders', 'o-1');
+    expect(upsertLive).not.toHaveBeenCalled();
+    expect(insertHistory).not.toHaveBeenCalled();
+    expect(insertOutbox).not.toHaveBeenCalled();
+    expect(transaction).not.toHaveBeenCalled();
+    expect((await adapter.findOne('orders', 'o-1'))!.stateValue).toBe(
+      'pending',
+    );
+  });
+
+  it('should run the action stub in place of every action', async () => {
+    const stub = jest.fn(({ context, toState }) => {
+      if (toState === 'cancelling') context.refunded = true;
+    });
+
+    const result = await manager.simulate(
+      'orders',
+      'o-1',
+      { type: 'CANCEL' },
+      { actionStub: stub },
+    );
+
+    expect(result).toMatchObject({
+      stateValue: 'cancelled',
+      done: true,
+      status: 'done',
+      expiresAt: null,
+      contextChanges: { refunded: { before: false, after: true } },
+    });
+    expect(result.transitions.map((transition) => transition.toState)).toEqual([
+      'cancelling',
+      'cancelled',
+    ]);
+    // The transition action and the entry action of cancelling
+    expect(stub).toHaveBeenCalledTimes(2);
+    expect(charge).not.toHaveBeenCalled();
+    expect(refund).not.toHaveBeenCalled();
+    expect((await adapter.findOne('orders', 'o-1'))!.snapshot.context).toEqual({
+      total: 10,
+      refunded: false,
+    });
+  });
+
+  it('should run assign actions and report their context changes', async () => {
+    const result = await manager.simulate('orders', 'o-1', {
+      type: 'DISCOUNT',
+      amount: 3,
+    });
+
+    expect(result).toMatchObject({
+      stateValue: 'pending',
+      contextChanges: { total: { before: 10, after: 7 } },
+    });
+    expect(charge).not.toHaveBeenCalled();
+    expect((await adapter.findOne('orders', 'o-1'))!.snapshot.context).toEqual({
+      total: 10,
+      refunded: false,
+    });
+  });
+
+  it('should throw WorkflowNotFoundError for unknown instances', async () => {
+    await expect(
+      manager.simulate('orders', 'missing', { type: 'CANCEL' }),
+    ).rejects.toThrow(WorkflowNotFoundError);
+  });
+});
+
+describe('WorkflowManager.getAvailableEvents() and can()', () => {
+  const notify = jest.fn();
+  const reviewMachine: DurableWorkflowDefinition = {
+    id: 'review',
+    initial: 'submitted',
+    context: { limit: 100 },
+    on: { CANCEL: 'cancelled' },
+    states: {
+      submitted: {
+        on: {
+          APPROVE: {
+            target: 'approved',
+            guard: ({ context, event }) =>
+              (event.amount as number) <= (context.limit as number),
+          },
+          COMMENT: { actions: notify },
+          ESCALATE: {
+            target: 'escalated',
+            guard: ({ event }) => typeof event.reason === 'string',
+          },
+        },
+      },
+      escalated: {
+        initial: 'queued',
+        states: { queued: { on: { '*': 'queued' } } },
+      },
+      approved: { final: true },
+      cancelled: { final: true },
+    },
+  };
+
+  let adapter: InMemoryWorkflowAdapter;
+  let manager: WorkflowManager;
+
+  beforeEach(async () => {
+    adapter = new InMemoryWorkflowAdapter('reviews');
+    const registry = createMockRegistry();
+    registry.register('reviews', reviewMachine, class ReviewWorkflow {});
+    manager = new WorkflowManager(registry, adapter, new EventEmitter2(), {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+    await manager.send('reviews', 'r-1', { type: 'workflow.init' });
+    notify.mockClear();
+  });
+
+  it('should list accepted events with the state each leads to', async () => {
+    const upsertLive = jest.spyOn(adapter, 'upsertLive');
+
+    const available = await manager.getAvailableEvents('reviews', 'r-1', {
+      payloads: { APPROVE: { amount: 50 } },
+    });
+
+    expect(available).toEqual([
+      { type: 'APPROVE', target: 'approved' },
+      { type: 'COMMENT', target: 'submitted' },
+      { type: 'CANCEL', target: 'cancelled' },
+    ]);
+    expect(notify).not.toHaveBeenCalled();
+    expect(upsertLive).not.toHaveBeenCalled();
+  });
+
+  it('should evaluate guards against the given payload', async () => {
+    const available = await manager.getAvailableEvents('reviews', 'r-1', {
+      payloads: { APPROVE: { amount: 500 } },
+    });
+
+    expect(available.map((event) => event.type)).toEqual(['COMMENT', 'CANCEL']);
+    await expect(
+      manager.can('reviews', 'r-1', { type: 'APPROVE', amount: 50 }),
+    ).resolves.toBe(true);
+    await expect(
+      manager.can('reviews', 'r-1', { type: 'APPROVE', amount: 500 }),
+    ).resolves.toBe(false);
+    await expect(
+      manager.can('reviews', 'r-1', { type: 'UNKNOWN' }),
+    ).resolves.toBe(false);
+  });
+
+  it('should accept any event through a wildcard handler without listing it', async () => {
+    await manager.send('reviews', 'r-1', {
+      type: 'ESCALATE',
+      reason: 'over limit',
+    });
+
+    await expect(manager.can('reviews', 'r-1', { type: 'PING' })).resolves.toBe(
+      true,
+    );
+    // The definition-level CANCEL handler takes priority over the wildcard
+    await expect(manager.getAvailableEvents('reviews', 'r-1')).resolves.toEqual(
+      [{ type: 'CANCEL', target: 'cancelled' }],
+    );
+  });
+
+  it('should accept nothing once the instance is done', async () => {
+    await manager.send('reviews', 'r-1', { type: 'CANCEL' });
+
+    await expect(manager.getAvailableEvents('reviews', 'r-1')).resolves.toEqual(
+      [],
+    );
+    await expect(
+      manager.can('reviews', 'r-1', { type: 'COMMENT' }),
+    ).resolves.toBe(false);
+  });
+
+  it('should throw WorkflowNotFoundError for unknown instances', async () => {
+    await expect(
+      manager.can('reviews', 'missing', { type: 'CANCEL' }),
+    ).rejects.toThrow(WorkflowNotFoundError);
+  });
+});
+
+describe('WorkflowManager.findByTag()', () => {
+  const v1: DurableWorkflowDefinition = {
+    id: 'ticket',
+    initial: 'open',
+    context: {},
+    states: {
+      open: { on: { ASK: 'waiting' } },
+      waiting: { tags: ['awaiting-customer'], on: { REPLY: 'open' } },
+    },
+  };
+  const v2: DurableWorkflowDefinition = {
+    id: 'ticket',
+    version: 2,
+    initial: 'open',
+    context: {},
+    states: {
+      open: { on: { ASK: 'waiting', CONFIRM: 'confirming' } },
+      waiting: { on: { REPLY: 'open' } },
+      confirming: {
+        tags: ['awaiting-customer'],
+        initial: 'sent',
+        states: { sent: { on: { REMIND: 'reminded' } }, reminded: {} },
+      },
+    },
+  };
+
+  let adapter: InMemoryWorkflowAdapter;
+
+  function createTicketManager(
+    definitions: DurableWorkflowDefinition[],
+  ): WorkflowManager {
+    const registry = createMockRegistry();
+    registry.register('tickets', definitions, class TicketWorkflow {});
+    return new WorkflowManager(registry, adapter, new EventEmitter2(), {
+      maxTransitionDepth: DEFAULT_MAX_DEPTH,
+      timeoutEventType: DEFAULT_TIMEOUT_EVENT,
+    });
+  }
+
+  beforeEach(() => {
+    adapter = new InMemoryWorkflowAdapter('tickets');
+  });
+
+  it('should find instances in states tagged directly or through an ancestor', async () => {
+    const manager = createTicketManager([v2]);
+    await manager.send('tickets', 'ticket-1', { type: 'CONFIRM' });
+    await manager.send('tickets', 'ticket-1', { type: 'REMIND' });
+    await manager.send('tickets', 'ticket-2', { type: 'ASK' });
+    await manager.send('tickets', 'ticket-3', { type: 'REPLY' });
+
+    const records = await manager.findByTag('tickets', 'awaiting-customer');
+
+    expect(records.map(({ id, stateValue }) => ({ id, stateValue }))).toEqual([
+      { id: 'ticket-1', stateValue: 'confirming.reminded' },
+    ]);
+    await expect(manager.findByTag('tickets', 'unknown')).resolves.toEqual([]);
+  });
+
+  it('should apply the tags of the version each instance runs on', async () => {
+    await createTicketManager([v1]).send('tickets', 'ticket-1', {
+      type: 'ASK',
+    });
+    const manager = createTicketManager([v1, v2]);
+    await manager.send('tickets', 'ticket-2', { type: 'ASK' });
+    await manager.send('tickets', 'ticket-3', { type: 'CONFIRM' });
+
+    const records = await manager.findByTag('tickets', 'awaiting-customer');
+
+    expect(records.map(({ id }) => id).sort()).toEqual([
+      'ticket-1',
+      'ticket-3',
+    ]);
+  });
+});
+
+describe('WorkflowManager - transactional outbox', () => {
+  let adapter: InMemoryWorkflowAdapter;
+  let emitter: EventEmitter2;
+  let manager: WorkflowManager;
+
+  beforeEach(() => {
+    adapter = new InMemoryWorkflowAdapter('orders');
+    emitter = new EventEmitter2();
+    ({ manager } = createManager(adapter, emitter));
+  });
+
+  it('should publish events after commit and mark them dispatched', async () => {
+    const received: string[] = [];
+    emitter.on(WorkflowEventType.CREATED, () => received.push('created'));
+    emitter.on(WorkflowEventType.TRANSITION, (event) => {
+      expect(event.timestamp).toBeInstanceOf(Date);
+      received.push('transition');
+    });
+
+    await manager.send('orders', 'order-1', { type: 'START' });
+
+    expect(received).toEqual(['created', 'transition']);
+    await expect(adapter.findPendingOutbox('orders', 10)).resolves.toEqual([]);
+  });
+
+  it('should not publish events of a rolled back send', async () => {
+    const listener = jest.fn();
+    emitter.on(WorkflowEventType.CREATED, listener);
+    // Transactions run on a separate adapter instance over a copy of the state
+    const insertHistory = jest
+      .spyOn(InMemoryWorkflowAdapter.prototype, 'insertHistory')
+      .mockRejectedValueOnce(new Error('db down'));
+
+    await expect(
+      manager.send('orders', 'order-1', { type: 'START' }),
+    ).rejects.toThrow('db down');
+    insertHistory.mockRestore();
+
+    expect(listener).not.toHaveBeenCalled();
+    await expect(adapter.findPendingOutbox('orders', 10)).resolves.toEqual([]);
+  });
+
+  it('should publish each event once when a listener sends an event', async () => {
+    const received: string[] = [];
+    let completed: Promise<unknown> | undefined;
+    emitter.on(WorkflowEventType.CREATED, () => {
+      received.push('created');
+      completed = manager.send('orders', 'order-1', { type: 'COMPLETE' });
+    });
+    emitter.on(WorkflowEventType.TRANSITION, (event) =>
+      received.push(event.toState),
+    );
+
+    await manager.send('orders', 'order-1', { type: 'START' });
+    await completed;
+
+    expect(received).toEqual(['created', 'active', 'done']);
+    expect((await adapter.findOne('orders', 'order-1'))!.stateValue).toBe(
+      'done',
+    );
+    await expect(adapter.findPendingOutbox('orders', 10)).resolves.toEqual([]);
+  });
+
+  it('should keep events pending when a listener throws', async () => {
+    emitter.on(WorkflowEventType.TRANSITION, () => {
+      throw new Error('listener failed');
+    });
+
+    const result = await manager.send('orders', 'order-1', { type: 'START' });
+
+    expect(result.stateValue).toBe('active');
+    await expect(adapter.findPendingOutbox('orders', 10)).resolves.toEqual([
+      expect.objectContaining({
+        eventType: WorkflowEventType.TRANSITION,
+        attempts: 1,
+        lastError: 'listener failed',
+      }),
+    ]);
+  });
+
+  it('should await async listeners and keep events pending when one rejects', async () => {
+    const received: string[] = [];
+    emitter.on(WorkflowEventType.CREATED, async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      received.push('created');
+    });
+    emitter.on(WorkflowEventType.TRANSITION, async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      throw new Error('async listener failed');
+    });
+
+    await manager.send('orders', 'order-1', { type: 'START' });
+
+    expect(received).toEqual(['created']);
+    await expect(adapter.findPendingOutbox('orders', 10)).resolves.toEqual([
+      expect.objectContaining({
+        eventType: WorkflowEventType.TRANSITION,
+        attempts: 1,
+        lastError: 'async listener failed',
+      }),
+    ]);
+  });
+});
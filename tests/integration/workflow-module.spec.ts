@@ -4,6 +4,7 @@ import { WorkflowModule } from '../../src/workflow.module';
 import { WorkflowRegistry } from '../../src/services/workflow-registry.service';
 import { WorkflowManager } from '../../src/services/workflow-manager.service';
 import { WorkflowEntity } from '../../src/decorators/workflow-entity.decorator';
+import { NativeWorkflowEngine } from '../../src/engines/native.engine';
 import { IWorkflowDbAdapter } from '../../src/interfaces/workflow-db-adapter.interface';
 import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
 
@@ -30,8 +31,17 @@ function createMockAdapter(): IWorkflowDbAdapter {
     findOne: jest.fn().mockResolvedValue(null),
     upsertLive: jest.fn().mockResolvedValue(undefined),
     insertHistory: jest.fn().mockResolvedValue(undefined),
+    findHistory: jest.fn().mockResolvedValue([]),
     findExpired: jest.fn().mockResolvedValue([]),
     findByState: jest.fn().mockResolvedValue([]),
+    findByStates: jest.fn().mockResolvedValue([]),
+    findOutdated: jest.fn().mockResolvedValue([]),
+    replaceTimers: jest.fn().mockResolvedValue(undefined),
+    findDueTimers: jest.fn().mockResolvedValue([]),
+    insertOutbox: jest.fn().mockResolvedValue(undefined),
+    findPendingOutbox: jest.fn().mockResolvedValue([]),
+    markOutboxDispatched: jest.fn().mockResolvedValue(undefined),
+    markOutboxFailed: jest.fn().mockResolvedValue(undefined),
     transaction: jest
       .fn()
       .mockImplementation(async (cb) => cb(createMockAdapter())),
@@ -135,4 +145,28 @@ describe('WorkflowModule integration', () => {
     expect(result.stateValue).toBe('active');
     expect(adapter.upsertLive).toHaveBeenCalled();
   });
+
+  it('should run workflows on the engine selected in options', async () => {
+    const adapter = createMockAdapter();
+    (adapter.transaction as jest.Mock).mockImplementation(async (cb: any) =>
+      cb(adapter),
+    );
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.forRoot({ adapter, engine: new NativeWorkflowEngine() }),
+      ],
+      providers: [OrderWorkflow],
+    }).compile();
+
+    await module.init();
+
+    const manager = module.get<WorkflowManager>(WorkflowManager);
+    const result = await manager.send('order_workflows', 'test-1', {
+      type: 'START',
+    });
+
+    expect(result.stateValue).toBe('active');
+    expect(result.snapshot).toMatchObject({ engine: 'native' });
+  });
 });
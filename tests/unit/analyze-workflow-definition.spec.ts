@@ -0,0 +1,268 @@
+import { analyzeWorkflowDefinition } from '../../src/utils/analyze-workflow-definition';
+import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
+
+describe('analyzeWorkflowDefinition', () => {
+  const isPaid = () => true;
+
+  it('should report nothing for a sound definition', () => {
+    expect(
+      analyzeWorkflowDefinition({
+        id: 'order',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            timeoutMinutes: 30,
+            on: { PAY: [{ target: 'paid', guard: isPaid }, 'failed'] },
+          },
+          paid: {
+            initial: 'packing',
+            states: {
+              packing: { on: { PACKED: 'packed' } },
+              packed: { final: true },
+            },
+            onDone: 'done',
+          },
+          failed: { type: 'final' },
+          done: { final: true },
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it('should report unreachable states once per subtree', () => {
+    const diagnostics = analyzeWorkflowDefinition({
+      id: 'order',
+      initial: 'pending',
+      context: {},
+      states: {
+        pending: { on: { PAY: 'done' } },
+        archived: {
+          initial: 'cold',
+          states: { cold: { on: { THAW: 'warm' } }, warm: { final: true } },
+          onDone: 'done',
+        },
+        done: { final: true },
+      },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: 'unreachable-state',
+        statePath: 'archived',
+        message: 'no transition leads to this state',
+      },
+    ]);
+  });
+
+  it('should treat every region of an entered parallel state as reachable', () => {
+    const diagnostics = analyzeWorkflowDefinition({
+      id: 'fulfilment',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: { on: { START: 'processing.payment.paid' } },
+        processing: {
+          type: 'parallel',
+          states: {
+            payment: {
+              initial: 'pending',
+              states: {
+                pending: { on: { PAID: 'paid' } },
+                paid: { final: true },
+              },
+            },
+            shipping: {
+              initial: 'pending',
+              states: {
+                pending: { on: { SHIPPED: 'shipped' } },
+                shipped: { final: true },
+              },
+            },
+          },
+          onDone: 'done',
+        },
+        done: { final: true },
+      },
+    });
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should report non-final states that can never be left', () => {
+    const diagnostics = analyzeWorkflowDefinition({
+      id: 'order',
+      initial: 'pending',
+      context: {},
+      states: {
+        pending: { on: { PAY: 'paid', NOTE: { actions: () => undefined } } },
+        paid: { on: { AUDIT: 'paid' } },
+        review: {
+          initial: 'open',
+          states: { open: {} },
+          on: { CLOSE: 'pending' },
+        },
+      },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: 'dead-end-state',
+        statePath: 'paid',
+        message:
+          'non-final state has no outgoing transitions or timeout and can never be left',
+      },
+      {
+        code: 'unreachable-state',
+        statePath: 'review',
+        message: 'no transition leads to this state',
+      },
+    ]);
+  });
+
+  it('should accept timeouts as a way out of a state', () => {
+    const diagnostics = analyzeWorkflowDefinition({
+      id: 'order',
+      initial: 'pending',
+      context: {},
+      states: { pending: { timeout: { minutes: 5, event: 'EXPIRE' } } },
+    });
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should follow definition-level handlers inherited by top-level states', () => {
+    const diagnostics = analyzeWorkflowDefinition({
+      id: 'order',
+      initial: 'pending',
+      context: {},
+      on: { CANCEL: 'cancelled' },
+      states: {
+        pending: {
+          initial: 'waiting',
+          states: { waiting: {} },
+        },
+        cancelled: { final: true },
+      },
+    });
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should report rules shadowed by an unguarded rule', () => {
+    const diagnostics = analyzeWorkflowDefinition({
+      id: 'order',
+      initial: 'pending',
+      context: {},
+      states: {
+        pending: {
+          on: {
+            PAY: [
+              { target: 'paid', guard: isPaid },
+              'failed',
+              { target: 'paid', guard: isPaid },
+            ],
+          },
+          always: [{ actions: () => undefined }, 'failed'],
+        },
+        paid: { type: 'final' },
+        failed: { type: 'final' },
+      },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: 'shadowed-rule',
+        statePath: 'pending',
+        message:
+          'on.PAY rule 2 has no guard, so the 1 rule(s) after it are never taken',
+      },
+      {
+        code: 'shadowed-rule',
+        statePath: 'pending',
+        message:
+          'always rule 1 has no guard, so the 1 rule(s) after it are never taken',
+      },
+    ]);
+  });
+
+  it('should report transitions declared on final states', () => {
+    const diagnostics = analyzeWorkflowDefinition({
+      id: 'order',
+      initial: 'pending',
+      context: {},
+      states: {
+        pending: { on: { PAY: 'done' } },
+        done: {
+          final: true,
+          on: { REOPEN: 'pending' },
+          after: { '1h': 'pending' },
+        },
+      },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: 'final-state-transition',
+        statePath: 'done',
+        message:
+          'final state declares on.REOPEN, after.1h, which are never taken',
+      },
+    ]);
+  });
+
+  describe('always cycles', () => {
+    const cyclic = (): DurableWorkflowDefinition => ({
+      id: 'loop',
+      initial: 'a',
+      context: {},
+      states: {
+        a: { on: { GO: 'b' } },
+        b: { always: 'c' },
+        c: {
+          initial: 'inner',
+          states: { inner: { always: { target: 'b' } } },
+        },
+      },
+    });
+
+    it('should report unguarded always cycles through nested states', () => {
+      expect(analyzeWorkflowDefinition(cyclic())).toEqual([
+        {
+          code: 'always-cycle',
+          statePath: 'b',
+          message:
+            'unguarded always transitions loop through "b" -> "c.inner" -> "b" and always raise RecursiveTransitionError',
+        },
+      ]);
+    });
+
+    it('should not report cycles broken by a guard', () => {
+      const definition = cyclic();
+      definition.states.b.always = [{ target: 'c', guard: isPaid }, 'a'];
+
+      expect(analyzeWorkflowDefinition(definition)).toEqual([]);
+    });
+
+    it('should report self-targeting always transitions', () => {
+      expect(
+        analyzeWorkflowDefinition({
+          id: 'loop',
+          initial: 'spin',
+          context: {},
+          states: {
+            spin: { always: 'spin', on: { STOP: 'done' } },
+            done: { final: true },
+          },
+        }),
+      ).toEqual([
+        {
+          code: 'always-cycle',
+          statePath: 'spin',
+          message:
+            'unguarded always transitions loop through "spin" -> "spin" and always raise RecursiveTransitionError',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { assign, isContextAction } from '../../src/utils/assign';
+import { resolveDeclarativeDefinition } from '../../src/utils/resolve-declarative-definition';
+
+describe('assign', () => {
+  it('should merge the returned keys into the context', () => {
+    const context: Record<string, unknown> = { total: 10, note: 'keep' };
+    const action = assign(({ context, event }) => ({
+      total: Number(context.total) + Number(event.amount),
+    }));
+
+    void action({
+      context,
+      event: { type: 'ADD', amount: 5 },
+      fromState: 'open',
+      toState: 'open',
+      spawn: jest.fn(),
+      raise: jest.fn(),
+      sendTo: jest.fn(),
+    });
+
+    expect(context).toEqual({ total: 15, note: 'keep' });
+    expect(isContextAction(action)).toBe(true);
+    expect(isContextAction(() => undefined)).toBe(false);
+  });
+
+  it('should stay recognizable when referenced by a declarative definition', () => {
+    const setTotal = assign(() => ({ total: 0 }));
+    const definition = resolveDeclarativeDefinition(
+      {
+        id: 'cart',
+        initial: 'open',
+        context: {},
+        states: { open: { on: { RESET: { actions: 'setTotal' } } } },
+      },
+      { actions: { setTotal } },
+    );
+
+    const rule = definition.states.open.on!.RESET;
+    expect(
+      typeof rule === 'object' && !Array.isArray(rule) && rule.actions,
+    ).toBe(setTotal);
+  });
+});
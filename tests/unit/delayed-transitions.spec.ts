@@ -0,0 +1,51 @@
+import {
+  getAfterEventType,
+  hasDelayedTransitions,
+  parseDelay,
+} from '../../src/utils/delayed-transitions';
+
+describe('delayed transitions', () => {
+  it('should parse delays with and without units', () => {
+    expect(parseDelay('5000')).toBe(5000);
+    expect(parseDelay('30s')).toBe(30_000);
+    expect(parseDelay('15m')).toBe(15 * 60_000);
+    expect(parseDelay('24h')).toBe(24 * 60 * 60_000);
+    expect(parseDelay('7d')).toBe(7 * 24 * 60 * 60_000);
+  });
+
+  it('should reject malformed delays', () => {
+    expect(parseDelay('15 minutes')).toBeUndefined();
+    expect(parseDelay('-1m')).toBeUndefined();
+    expect(parseDelay('')).toBeUndefined();
+  });
+
+  it('should build one event type per state and delay', () => {
+    expect(getAfterEventType('shipping.awaitingCarrier', '24h')).toBe(
+      'after.24h.shipping.awaitingCarrier',
+    );
+  });
+
+  it('should detect after transitions in nested states', () => {
+    expect(
+      hasDelayedTransitions({
+        id: 'order',
+        initial: 'shipping',
+        context: {},
+        states: {
+          shipping: {
+            initial: 'waiting',
+            states: { waiting: { after: { '1h': 'late' } }, late: {} },
+          },
+        },
+      }),
+    ).toBe(true);
+    expect(
+      hasDelayedTransitions({
+        id: 'order',
+        initial: 'idle',
+        context: {},
+        states: { idle: {} },
+      }),
+    ).toBe(false);
+  });
+});
@@ -1,3 +1,4 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
 import { DrizzleWorkflowAdapter } from '../../src/adapters/drizzle-workflow.adapter';
 
 // Mock Drizzle db that captures executed SQL
@@ -101,6 +102,8 @@ describe('DrizzleWorkflowAdapter', () => {
         snapshot: { value: 'active', context: { count: 1 } },
         expiresAt: new Date('2025-01-01T01:00:00.000Z'),
         updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        parentTable: null,
+        parentId: null,
       });
     });
   });
@@ -137,6 +140,27 @@ describe('DrizzleWorkflowAdapter', () => {
     });
   });
 
+  describe('timers', () => {
+    it('should call execute for replaceTimers', async () => {
+      const { db } = createMockDrizzleDb();
+      const adapter = new DrizzleWorkflowAdapter(db as any, 'orders');
+
+      await adapter.replaceTimers('orders', 'id-1', [
+        { eventType: 'after.15m.active', dueAt: new Date() },
+      ]);
+
+      expect(db.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should call execute for findDueTimers', async () => {
+      const { db } = createMockDrizzleDb();
+      const adapter = new DrizzleWorkflowAdapter(db as any, 'orders');
+
+      await expect(adapter.findDueTimers('orders')).resolves.toEqual([]);
+      expect(db.execute).toHaveBeenCalled();
+    });
+  });
+
   describe('findExpired', () => {
     it('should call execute for findExpired', async () => {
       const { db } = createMockDrizzleDb();
@@ -159,14 +183,17 @@ describe('DrizzleWorkflowAdapter', () => {
 
     it('should handle execute result as an array', async () => {
       const db = {
-        execute: jest.fn().mockResolvedValue([{ id: 'id-1' }, { id: 'id-2' }]),
+        execute: jest.fn().mockResolvedValue([
+          { id: 'id-1', state_value: 'active' },
+          { id: 'id-2', state_value: 'picking' },
+        ]),
         transaction: jest.fn(),
       };
       const adapter = new DrizzleWorkflowAdapter(db as any, 'orders');
 
       await expect(adapter.findExpired('orders')).resolves.toEqual([
-        { id: 'id-1' },
-        { id: 'id-2' },
+        { id: 'id-1', stateValue: 'active' },
+        { id: 'id-2', stateValue: 'picking' },
       ]);
     });
   });
@@ -206,11 +233,40 @@ describe('DrizzleWorkflowAdapter', () => {
           snapshot: { value: 'active', context: {} },
           expiresAt: new Date('2025-01-01T01:00:00.000Z'),
           updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+          parentTable: null,
+          parentId: null,
         },
       ]);
     });
   });
 
+  describe('findByStates', () => {
+    it('should bind each state path as a parameter of an IN list', async () => {
+      const { db } = createMockDrizzleDb();
+      const adapter = new DrizzleWorkflowAdapter(db as any, 'orders');
+
+      await adapter.findByStates('orders', ['review', 'manual.queued']);
+
+      const query = new PgDialect().sqlToQuery(db.execute.mock.calls[0][0]);
+      expect(query.sql).toContain('WHERE state_value IN ($1, $2)');
+      expect(query.sql).toContain('WHERE leaf IN ($3, $4)');
+      expect(query.params).toEqual([
+        'review',
+        'manual.queued',
+        'review',
+        'manual.queued',
+      ]);
+    });
+
+    it('should not query without state paths', async () => {
+      const { db } = createMockDrizzleDb();
+      const adapter = new DrizzleWorkflowAdapter(db as any, 'orders');
+
+      await expect(adapter.findByStates('orders', [])).resolves.toEqual([]);
+      expect(db.execute).not.toHaveBeenCalled();
+    });
+  });
+
   describe('transaction', () => {
     it('should provide a new adapter instance bound to tx', async () => {
       const { db } = createMockDrizzleDb();
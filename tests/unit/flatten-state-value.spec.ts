@@ -24,4 +24,12 @@ describe('flattenStateValue', () => {
   it('should handle single-word string state', () => {
     expect(flattenStateValue('done')).toBe('done');
   });
+
+  it('should comma-join the regions of a parallel state', () => {
+    expect(
+      flattenStateValue({
+        fulfillment: { payment: 'pending', picking: { review: 'open' } },
+      }),
+    ).toBe('fulfillment.payment.pending,fulfillment.picking.review.open');
+  });
 });
@@ -0,0 +1,324 @@
+import { NativeWorkflowEngine } from '../../src/engines/native.engine';
+import { UnsupportedXStateConfigError } from '../../src/errors/unsupported-xstate-config.error';
+import type {
+  XStateImplementations,
+  XStateMachineConfig,
+} from '../../src/interfaces/xstate-config.interface';
+import { fromXStateConfig } from '../../src/utils/from-xstate-config';
+
+function getIssues(
+  config: XStateMachineConfig,
+  implementations?: XStateImplementations,
+): UnsupportedXStateConfigError['issues'] {
+  try {
+    fromXStateConfig(config, implementations);
+  } catch (error) {
+    if (error instanceof UnsupportedXStateConfigError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  throw new Error('Expected the config to be rejected');
+}
+
+describe('fromXStateConfig', () => {
+  it('should convert states, transitions, timers and final states', () => {
+    const isPaid = () => true;
+    const notify = jest.fn();
+
+    const definition = fromXStateConfig(
+      {
+        id: 'order',
+        initial: 'pending',
+        context: { total: 10 },
+        predictableActionArguments: true,
+        states: {
+          pending: {
+            on: {
+              PAY: [{ target: 'paid', cond: 'isPaid' }, { target: 'failed' }],
+            },
+            after: { 60000: 'failed' },
+            exit: 'notify',
+          },
+          paid: {
+            entry: ['notify'],
+            always: { target: 'done', guard: { type: 'isPaid' } },
+          },
+          failed: { type: 'final' },
+          done: { type: 'final', description: 'Order completed' },
+        },
+      },
+      { guards: { isPaid }, actions: { notify } },
+    );
+
+    expect(definition).toEqual({
+      id: 'order',
+      initial: 'pending',
+      context: { total: 10 },
+      states: {
+        pending: {
+          on: {
+            PAY: [{ target: 'paid', guard: isPaid }, { target: 'failed' }],
+          },
+          after: { 60000: { target: 'failed' } },
+          exit: [notify],
+        },
+        paid: {
+          entry: [notify],
+          always: { target: 'done', guard: isPaid },
+        },
+        failed: { final: true },
+        done: { final: true },
+      },
+    });
+  });
+
+  it('should keep state tags and meta', () => {
+    const definition = fromXStateConfig({
+      id: 'ticket',
+      initial: 'open',
+      meta: { owner: 'support' },
+      states: {
+        open: { tags: 'awaiting-agent', meta: { sla: 'P1' } },
+        waiting: { tags: ['awaiting-customer'], meta: 'ignored' },
+      },
+    });
+
+    expect(definition.states).toEqual({
+      open: { tags: ['awaiting-agent'], meta: { sla: 'P1' } },
+      waiting: { tags: ['awaiting-customer'] },
+    });
+  });
+
+  it('should resolve child, id and nested targets', () => {
+    const definition = fromXStateConfig({
+      id: 'shipping',
+      initial: 'idle',
+      states: {
+        idle: { on: { SHIP: 'active.inTransit' } },
+        active: {
+          id: 'active',
+          on: { RESTART: '.awaitingCarrier' },
+          initial: 'awaitingCarrier',
+          states: {
+            awaitingCarrier: { on: { CANCEL: '#shipping.idle' } },
+            inTransit: { on: { RESET: '#active' } },
+          },
+          onDone: 'idle',
+        },
+      },
+    });
+
+    expect(definition.states.idle.on).toEqual({
+      SHIP: { target: 'active.inTransit' },
+    });
+    expect(definition.states.active.on).toEqual({
+      RESTART: { target: 'active.awaitingCarrier' },
+    });
+    expect(definition.states.active.states!.awaitingCarrier.on).toEqual({
+      CANCEL: { target: 'idle' },
+    });
+    expect(definition.states.active.states!.inTransit.on).toEqual({
+      RESET: { target: 'active' },
+    });
+  });
+
+  it('should run converted definitions on the engines', async () => {
+    const definition = fromXStateConfig(
+      {
+        id: 'shipping',
+        initial: 'active',
+        context: { log: [] },
+        states: {
+          active: {
+            initial: 'awaitingCarrier',
+            states: {
+              awaitingCarrier: { on: { PICKED_UP: 'inTransit' } },
+              inTransit: { on: { RESET: '#shipping.active' } },
+            },
+            on: { CANCEL: { target: 'cancelled', actions: 'log' } },
+          },
+          cancelled: { type: 'final' },
+        },
+      },
+      {
+        actions: {
+          log: ({ context, event }) => {
+            (context.log as string[]).push(event.type);
+          },
+        },
+      },
+    );
+    const runtime = new NativeWorkflowEngine().createRuntime({
+      definition,
+      maxTransitionDepth: 10,
+      workflowId: 'wf-1',
+    });
+
+    await runtime.send({ type: 'PICKED_UP' });
+    const reset = await runtime.send({ type: 'RESET' });
+    const cancelled = await runtime.send({ type: 'CANCEL' });
+
+    expect(reset.stateValue).toBe('active.awaitingCarrier');
+    expect(cancelled.done).toBe(true);
+    expect(runtime.getSnapshot().context).toEqual({ log: ['CANCEL'] });
+  });
+
+  it('should convert wildcard events', async () => {
+    const definition = fromXStateConfig({
+      id: 'review',
+      initial: 'open',
+      states: {
+        open: { on: { APPROVE: 'approved', '*': 'flagged' } },
+        approved: { type: 'final' },
+        flagged: {},
+      },
+    });
+    const runtime = new NativeWorkflowEngine().createRuntime({
+      definition,
+      maxTransitionDepth: 10,
+      workflowId: 'wf-1',
+    });
+
+    expect(definition.states.open.on).toEqual({
+      APPROVE: { target: 'approved' },
+      '*': { target: 'flagged' },
+    });
+    await expect(runtime.send({ type: 'PING' })).resolves.toMatchObject({
+      stateValue: 'flagged',
+    });
+  });
+
+  it('should convert root-level transitions to the definition-level on', async () => {
+    const definition = fromXStateConfig({
+      id: 'ticket',
+      initial: 'open',
+      on: { CLOSE: '.closed', ESCALATE: { target: '#ticket.open.urgent' } },
+      states: {
+        open: {
+          initial: 'normal',
+          states: { normal: {}, urgent: {} },
+        },
+        closed: { type: 'final' },
+      },
+    });
+    const runtime = new NativeWorkflowEngine().createRuntime({
+      definition,
+      maxTransitionDepth: 10,
+      workflowId: 'wf-1',
+    });
+
+    expect(definition.on).toEqual({
+      CLOSE: { target: 'closed' },
+      ESCALATE: { target: 'open.urgent' },
+    });
+    await expect(runtime.send({ type: 'ESCALATE' })).resolves.toMatchObject({
+      stateValue: 'open.urgent',
+    });
+    await expect(runtime.send({ type: 'CLOSE' })).resolves.toMatchObject({
+      stateValue: 'closed',
+      done: true,
+    });
+  });
+
+  it('should report every unsupported construct with its path', () => {
+    const issues = getIssues({
+      id: 'order',
+      initial: 'pending',
+      always: 'pending',
+      states: {
+        pending: {
+          invoke: { src: 'fetchOrder' },
+          on: {
+            'payment.*': 'failed',
+            PAY: { target: ['paid', 'failed'], reenter: true },
+            CHECK: { target: 'paid', cond: 'isPaid' },
+          },
+          after: { PAYMENT_DELAY: 'failed' },
+          entry: { type: 'notify', params: { channel: 'email' } },
+        },
+        paid: { type: 'history' },
+        failed: { on: { RETRY: 'missing' }, exit: 'audit' },
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: 'always', message: 'root-level "always" is not supported' },
+      { path: 'states.pending.invoke', message: 'unsupported key "invoke"' },
+      {
+        path: 'states.pending.on.payment.*',
+        message: 'partial wildcard events are not supported',
+      },
+      {
+        path: 'states.pending.on.PAY.reenter',
+        message: 'unsupported key "reenter"',
+      },
+      {
+        path: 'states.pending.on.PAY.target',
+        message: 'multiple targets are not supported',
+      },
+      {
+        path: 'states.pending.on.CHECK.cond',
+        message: 'guard "isPaid" has no implementation',
+      },
+      {
+        path: 'states.pending.after.PAYMENT_DELAY',
+        message: 'named delay "PAYMENT_DELAY" is not supported',
+      },
+      {
+        path: 'states.pending.entry',
+        message: 'action params are not supported',
+      },
+      {
+        path: 'states.paid.type',
+        message: 'state type "history" is not supported',
+      },
+      {
+        path: 'states.failed.on.RETRY.target',
+        message: 'unknown target "missing"',
+      },
+      {
+        path: 'states.failed.exit',
+        message: 'action "audit" has no implementation',
+      },
+    ]);
+  });
+
+  it('should list the issues in the error message', () => {
+    expect(() =>
+      fromXStateConfig({
+        id: 'order',
+        initial: 'pending',
+        states: { pending: { entry: 'notify' } },
+      }),
+    ).toThrow(
+      'XState config "order" cannot be converted:\n' +
+        '- states.pending.entry: action "notify" has no implementation',
+    );
+  });
+
+  it('should reject retry policies on entry and exit actions', () => {
+    const issues = getIssues(
+      {
+        id: 'order',
+        initial: 'pending',
+        states: { pending: { entry: 'charge' } },
+      },
+      {
+        actions: {
+          charge: {
+            fn: () => undefined,
+            retry: { attempts: 3, initialDelayMs: 100 },
+          },
+        },
+      },
+    );
+
+    expect(issues).toEqual([
+      {
+        path: 'states.pending.entry',
+        message: 'retry policies are only supported on transition actions',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import { generateDiagram } from '../../src/utils/generate-diagram';
+import { runDiagramCommand } from '../../src/cli/generate-diagram';
+import type { DeclarativeWorkflowDefinition } from '../../src/interfaces/declarative-workflow-definition.interface';
+
+describe('generateDiagram', () => {
+  const isPaid = () => true;
+  const definition: DeclarativeWorkflowDefinition = {
+    id: 'order',
+    initial: 'pending',
+    context: {},
+    states: {
+      pending: {
+        timeoutMinutes: 30,
+        on: {
+          PAY: [{ target: 'shipping', guard: isPaid }, { target: 'failed' }],
+          NOTE: { actions: 'log' },
+        },
+      },
+      shipping: {
+        initial: 'awaitingCarrier',
+        timeout: { minutes: 60, event: 'SLA_BREACHED' },
+        states: {
+          awaitingCarrier: { after: { '2h': 'inTransit' } },
+          inTransit: { always: { target: 'delivered', guard: 'hasProof' } },
+          delivered: { final: true },
+        },
+        onDone: 'done',
+      },
+      failed: { type: 'final' },
+      done: { final: true },
+    },
+  };
+
+  describe('mermaid', () => {
+    it('should render states, transitions, guards and timeouts', () => {
+      expect(generateDiagram(definition)).toBe(
+        [
+          'stateDiagram-v2',
+          '  [*] --> pending',
+          '  pending',
+          '  pending : timeout 30 min',
+          '  state shipping {',
+          '    [*] --> awaitingCarrier',
+          '    awaitingCarrier',
+          '    inTransit',
+          '    delivered',
+          '    delivered --> [*]',
+          '  }',
+          '  note right of shipping : timeout 60 min (SLA_BREACHED)',
+          '  failed',
+          '  failed --> [*]',
+          '  done',
+          '  done --> [*]',
+          '  pending --> shipping : PAY [isPaid]',
+          '  pending --> failed : PAY',
+          '  shipping --> done : done',
+          '  awaitingCarrier --> inTransit : after 2h',
+          '  inTransit --> delivered : always [hasProof]',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should separate parallel regions and disambiguate repeated keys', () => {
+      const diagram = generateDiagram({
+        id: 'fulfilment',
+        initial: 'processing',
+        context: {},
+        states: {
+          processing: {
+            type: 'parallel',
+            states: {
+              payment: {
+                initial: 'pending',
+                states: { pending: { on: { PAID: 'done' } }, done: {} },
+              },
+              shipping: {
+                initial: 'pending',
+                states: { pending: { on: { SHIPPED: 'done' } }, done: {} },
+              },
+            },
+          },
+        },
+      });
+
+      expect(diagram).toContain(
+        [
+          '  state processing {',
+          '    state payment {',
+          '      [*] --> processing_payment_pending',
+          '      state "pending" as processing_payment_pending',
+          '      state "done" as processing_payment_done',
+          '    }',
+          '    --',
+          '    state shipping {',
+        ].join('\n'),
+      );
+      expect(diagram).toContain(
+        'processing_shipping_pending --> processing_shipping_done : SHIPPED',
+      );
+    });
+
+    it('should highlight the current states of an instance', () => {
+      const diagram = generateDiagram(definition, {
+        currentState: 'shipping.inTransit',
+      });
+
+      expect(diagram).toContain('  class inTransit current\n');
+    });
+  });
+
+  describe('dot', () => {
+    it('should render clusters for compound states and label edges', () => {
+      const diagram = generateDiagram(definition, { format: 'dot' });
+
+      expect(diagram).toContain('digraph "order" {');
+      expect(diagram).toContain('  "[*]" -> "pending";');
+      expect(diagram).toContain(
+        '  "pending" [label="pending\\ntimeout 30 min"];',
+      );
+      expect(diagram).toContain(
+        [
+          '  subgraph "cluster_shipping" {',
+          '    label="shipping\\ntimeout 60 min (SLA_BREACHED)";',
+          '    style=rounded;',
+          '    "shipping" [shape=point];',
+          '    "shipping" -> "shipping.awaitingCarrier";',
+        ].join('\n'),
+      );
+      expect(diagram).toContain(
+        '    "shipping.delivered" [label="delivered", peripheries=2];',
+      );
+      expect(diagram).toContain(
+        '  "pending" -> "shipping" [label="PAY [isPaid]", lhead="cluster_shipping"];',
+      );
+      expect(diagram).toContain(
+        '  "shipping" -> "done" [label="done", ltail="cluster_shipping"];',
+      );
+      expect(diagram).toContain(
+        '  "shipping.inTransit" -> "shipping.delivered" [label="always [hasProof]"];',
+      );
+      expect(diagram).not.toContain('NOTE');
+    });
+
+    it('should highlight the current states of an instance', () => {
+      const diagram = generateDiagram(definition, {
+        format: 'dot',
+        currentState: 'pending',
+      });
+
+      expect(diagram).toContain(
+        '"pending" [label="pending\\ntimeout 30 min", style="rounded,filled", fillcolor="#fde68a"];',
+      );
+    });
+  });
+
+  it('should reject unknown current states', () => {
+    expect(() =>
+      generateDiagram(definition, { currentState: 'shipping.lost' }),
+    ).toThrow(
+      'Workflow definition order: current state "shipping.lost" references unknown state "shipping.lost"',
+    );
+  });
+});
+
+describe('runDiagramCommand', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should print the error and exit with 1 when the definition cannot be rendered', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`exit ${code}`);
+    });
+
+    expect(() => runDiagramCommand(['missing-definition.json'])).toThrow(
+      'exit 1',
+    );
+    expect(error).toHaveBeenCalledWith(
+      expect.stringMatching(/^Error: .*missing-definition\.json/),
+    );
+  });
+});
@@ -1,4 +1,7 @@
-import { generateMigration } from '../../src/cli/generate-migration';
+import {
+  generateMigration,
+  generateUpgradeMigration,
+} from '../../src/cli/generate-migration';
 
 describe('generateMigration', () => {
   const sql = generateMigration('orders');
@@ -21,15 +24,28 @@ describe('generateMigration', () => {
       expect(sql).toContain('WHERE expires_at IS NOT NULL');
     });
 
-    it('should create a btree index on state_value', () => {
+    it('should create a pattern btree index on state_value', () => {
       expect(sql).toContain('CREATE INDEX idx_orders_state_value');
-      expect(sql).toContain('ON orders (state_value)');
+      expect(sql).toContain('ON orders (state_value text_pattern_ops)');
+    });
+
+    it('should create a partial index on parallel state values', () => {
+      expect(sql).toContain('CREATE INDEX idx_orders_state_value_parallel');
+      expect(sql).toContain("WHERE state_value LIKE '%,%'");
     });
 
     it('should create a GIN index on snapshot', () => {
       expect(sql).toContain('CREATE INDEX idx_orders_snapshot_gin');
       expect(sql).toContain('ON orders USING gin (snapshot)');
     });
+
+    it('should create nullable parent link columns with a partial index', () => {
+      expect(sql).toContain('parent_table TEXT,');
+      expect(sql).toContain('parent_id UUID');
+      expect(sql).toContain('CREATE INDEX idx_orders_parent');
+      expect(sql).toContain('ON orders (parent_table, parent_id)');
+      expect(sql).toContain('WHERE parent_id IS NOT NULL');
+    });
   });
 
   describe('history table', () => {
@@ -43,6 +59,7 @@ describe('generateMigration', () => {
       expect(sql).toContain(
         'transitioned_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP',
       );
+      expect(sql).toContain('transition_id TEXT');
     });
 
     it('should create a btree index on workflow_id', () => {
@@ -63,6 +80,36 @@ describe('generateMigration', () => {
     });
   });
 
+  describe('timers table', () => {
+    it('should create the timers table with FK to live table', () => {
+      expect(sql).toContain('CREATE TABLE orders_timers');
+      expect(sql).toContain('event_type TEXT NOT NULL');
+      expect(sql).toContain('due_at TIMESTAMPTZ NOT NULL');
+    });
+
+    it('should create a btree index on due_at', () => {
+      expect(sql).toContain('CREATE INDEX idx_orders_timers_due_at');
+      expect(sql).toContain('ON orders_timers (due_at)');
+    });
+  });
+
+  describe('outbox table', () => {
+    it('should create the outbox table without FK to live table', () => {
+      expect(sql).toContain('CREATE TABLE orders_outbox');
+      expect(sql).toContain('payload JSONB NOT NULL');
+      expect(sql).toContain('dispatched_at TIMESTAMPTZ');
+      expect(sql).toContain('attempts INTEGER NOT NULL DEFAULT 0');
+      expect(sql).toContain('last_error TEXT');
+      expect(sql).not.toMatch(/orders_outbox[^;]*REFERENCES/);
+    });
+
+    it('should create a partial index on pending rows', () => {
+      expect(sql).toContain('CREATE INDEX idx_orders_outbox_pending');
+      expect(sql).toContain('ON orders_outbox (created_at)');
+      expect(sql).toContain('WHERE dispatched_at IS NULL');
+    });
+  });
+
   describe('migrate:down', () => {
     it('should drop history table before live table', () => {
       expect(sql).toContain('-- migrate:down');
@@ -73,7 +120,12 @@ describe('generateMigration', () => {
       const dropHistoryIdx = sql.indexOf('DROP TABLE IF EXISTS orders_history');
       const dropLiveIdx = sql.indexOf('DROP TABLE IF EXISTS orders;');
 
-      // History table must be dropped before live table (FK dependency)
+      const dropTimersIdx = sql.indexOf('DROP TABLE IF EXISTS orders_timers');
+      const dropOutboxIdx = sql.indexOf('DROP TABLE IF EXISTS orders_outbox');
+
+      // History and timers tables must be dropped before live table (FK dependency)
+      expect(dropTimersIdx).toBeGreaterThan(downIdx);
+      expect(dropOutboxIdx).toBeGreaterThan(downIdx);
       expect(dropHistoryIdx).toBeGreaterThan(downIdx);
       expect(dropLiveIdx).toBeGreaterThan(dropHistoryIdx);
     });
@@ -111,3 +163,55 @@ describe('generateMigration', () => {
     });
   });
 });
+
+describe('generateUpgradeMigration', () => {
+  const sql = generateUpgradeMigration('orders');
+
+  it('should add the parent columns and index when missing', () => {
+    expect(sql).toContain('ADD COLUMN IF NOT EXISTS parent_table TEXT');
+    expect(sql).toContain('ADD COLUMN IF NOT EXISTS parent_id UUID');
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_orders_parent');
+  });
+
+  it('should rebuild the state_value indexes', () => {
+    expect(sql).toContain('DROP INDEX IF EXISTS idx_orders_state_value;');
+    expect(sql).toContain('ON orders (state_value text_pattern_ops)');
+    expect(sql).toContain(
+      'CREATE INDEX IF NOT EXISTS idx_orders_state_value_parallel',
+    );
+  });
+
+  it('should add transition_id to the history table', () => {
+    expect(sql).toContain(
+      'ALTER TABLE orders_history\n    ADD COLUMN IF NOT EXISTS transition_id TEXT',
+    );
+  });
+
+  it('should create the timers table and its indexes when missing', () => {
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS orders_timers');
+    expect(sql).toContain(
+      'CREATE INDEX IF NOT EXISTS idx_orders_timers_due_at',
+    );
+    expect(sql).toContain(
+      'CREATE INDEX IF NOT EXISTS idx_orders_timers_workflow_id',
+    );
+  });
+
+  it('should create the outbox table and its index when missing', () => {
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS orders_outbox');
+    expect(sql).toContain(
+      'CREATE INDEX IF NOT EXISTS idx_orders_outbox_pending',
+    );
+  });
+
+  it('should not drop anything on migrate:down', () => {
+    const down = sql.slice(sql.indexOf('-- migrate:down'));
+    expect(down).not.toContain('DROP');
+  });
+
+  it('should reject invalid table names', () => {
+    expect(() => generateUpgradeMigration('orders; DROP TABLE')).toThrow(
+      'Invalid table name',
+    );
+  });
+});
@@ -1,4 +1,8 @@
-import { getTimeoutExpiry } from '../../src/utils/get-timeout-minutes';
+import {
+  getDeadlineExpiry,
+  getTimeoutExpiry,
+  resolveStateTimeout,
+} from '../../src/utils/get-timeout-minutes';
 import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
 
 describe('getTimeoutExpiry', () => {
@@ -78,4 +82,110 @@ describe('getTimeoutExpiry', () => {
     expect(result!.getTime()).toBeGreaterThanOrEqual(before + 10 * 60 * 1000);
     expect(result!.getTime()).toBeLessThanOrEqual(after + 10 * 60 * 1000);
   });
+
+  it('should use the earliest timeout across a nested state and its ancestors', () => {
+    const now = new Date('2026-02-20T12:00:00Z');
+    const definition: DurableWorkflowDefinition = {
+      id: 'order',
+      initial: 'shipping',
+      context: {},
+      states: {
+        shipping: {
+          timeoutMinutes: 120,
+          initial: 'awaitingCarrier',
+          states: {
+            awaitingCarrier: { timeoutMinutes: 30 },
+            inTransit: {},
+          },
+        },
+      },
+    };
+
+    expect(
+      getTimeoutExpiry(definition, 'shipping.awaitingCarrier', now)!.getTime(),
+    ).toBe(new Date('2026-02-20T12:30:00Z').getTime());
+    expect(
+      getTimeoutExpiry(definition, 'shipping.inTransit', now)!.getTime(),
+    ).toBe(new Date('2026-02-20T14:00:00Z').getTime());
+  });
+
+  describe('resolveStateTimeout', () => {
+    const definition: DurableWorkflowDefinition = {
+      id: 'order',
+      initial: 'shipping',
+      context: {},
+      states: {
+        shipping: {
+          timeout: { minutes: 120, event: 'SHIPPING_OVERDUE' },
+          initial: 'awaitingCarrier',
+          states: {
+            awaitingCarrier: {
+              timeout: {
+                minutes: 30,
+                event: 'CARRIER_LATE',
+                payload: { reason: 'no-pickup' },
+              },
+            },
+            inTransit: { timeoutMinutes: 120 },
+          },
+        },
+      },
+    };
+
+    it('should return the event and payload of the winning state', () => {
+      expect(
+        resolveStateTimeout(definition, 'shipping.awaitingCarrier'),
+      ).toEqual({
+        statePath: 'shipping.awaitingCarrier',
+        minutes: 30,
+        event: 'CARRIER_LATE',
+        payload: { reason: 'no-pickup' },
+      });
+    });
+
+    it('should prefer the innermost state on a tie', () => {
+      expect(resolveStateTimeout(definition, 'shipping.inTransit')).toEqual({
+        statePath: 'shipping.inTransit',
+        minutes: 120,
+        event: undefined,
+        payload: undefined,
+      });
+    });
+
+    it('should prefer the state whose deadline comes first', () => {
+      expect(
+        resolveStateTimeout(definition, 'shipping.awaitingCarrier', {
+          shipping: '2026-02-20T12:10:00.000Z',
+          'shipping.awaitingCarrier': '2026-02-20T12:20:00.000Z',
+        }),
+      ).toEqual({
+        statePath: 'shipping',
+        minutes: 120,
+        event: 'SHIPPING_OVERDUE',
+        payload: undefined,
+      });
+    });
+
+    it('should return undefined when no state declares a timeout', () => {
+      expect(
+        resolveStateTimeout(
+          { id: 'x', initial: 'idle', context: {}, states: { idle: {} } },
+          'idle',
+        ),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getDeadlineExpiry', () => {
+    it('should return the earliest deadline', () => {
+      expect(
+        getDeadlineExpiry({
+          shipping: '2026-02-20T14:00:00.000Z',
+          'shipping.inTransit': '2026-02-20T12:30:00.000Z',
+        }),
+      ).toEqual(new Date('2026-02-20T12:30:00.000Z'));
+      expect(getDeadlineExpiry({})).toBeNull();
+      expect(getDeadlineExpiry(undefined)).toBeNull();
+    });
+  });
 });
@@ -92,6 +92,166 @@ describe('hydrateSnapshot', () => {
       }),
     ).toThrow(InvalidSnapshotError);
   });
+
+  it('should reject malformed timers in snapshot', () => {
+    expect(() =>
+      hydrateSnapshot('wf-1', definition, {
+        schema: 'durable-workflow-snapshot',
+        version: 1,
+        engine: 'js-state-machine',
+        state: 'active',
+        status: 'active',
+        context: {},
+        timers: [{ event: 'after.1m.active', dueAt: 'soon' }],
+      }),
+    ).toThrow('invalid timers payload');
+  });
+
+  it('should reject malformed deadlines in snapshot', () => {
+    expect(() =>
+      hydrateSnapshot('wf-1', definition, {
+        schema: 'durable-workflow-snapshot',
+        version: 1,
+        engine: 'js-state-machine',
+        state: 'active',
+        status: 'active',
+        context: {},
+        deadlines: { active: 'soon' },
+      }),
+    ).toThrow('invalid deadlines payload');
+  });
+
+  it('should reject a malformed definition version', () => {
+    expect(() =>
+      hydrateSnapshot('wf-1', definition, {
+        schema: 'durable-workflow-snapshot',
+        version: 1,
+        engine: 'js-state-machine',
+        state: 'active',
+        status: 'active',
+        context: {},
+        definitionVersion: '2',
+      }),
+    ).toThrow('invalid definition version 2');
+  });
+
+  it('should hydrate a V2 snapshot with its metadata', () => {
+    const seed = hydrateSnapshot('wf-1', definition, {
+      schema: 'durable-workflow-snapshot',
+      version: 2,
+      engine: 'js-state-machine',
+      state: 'active',
+      status: 'active',
+      context: { count: 2 },
+      definitionId: 'order',
+      definitionHash: 'abc',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      lastEventType: 'START',
+      sequence: 3,
+    });
+
+    expect(seed).toEqual({
+      state: 'active',
+      status: 'active',
+      context: { count: 2 },
+      metadata: {
+        createdAt: '2026-01-01T00:00:00.000Z',
+        lastEventType: 'START',
+        sequence: 3,
+      },
+    });
+  });
+
+  it('should reject a V2 snapshot with malformed metadata', () => {
+    expect(() =>
+      hydrateSnapshot('wf-1', definition, {
+        schema: 'durable-workflow-snapshot',
+        version: 2,
+        engine: 'js-state-machine',
+        state: 'active',
+        status: 'active',
+        context: {},
+        definitionId: 'order',
+        definitionHash: 'abc',
+        createdAt: null,
+        lastEventType: null,
+        sequence: -1,
+      }),
+    ).toThrow('invalid metadata');
+  });
+
+  it('should reject unknown envelope versions', () => {
+    expect(() =>
+      hydrateSnapshot('wf-1', definition, {
+        schema: 'durable-workflow-snapshot',
+        version: 3,
+        engine: 'js-state-machine',
+        state: 'active',
+        status: 'active',
+        context: {},
+      }),
+    ).toThrow('not a supported V1 or V2 durable snapshot');
+  });
+});
+
+describe('hydrateSnapshot - nested states', () => {
+  const nested: DurableWorkflowDefinition = {
+    id: 'order',
+    initial: 'shipping',
+    context: {},
+    states: {
+      shipping: {
+        initial: 'awaitingCarrier',
+        states: { awaitingCarrier: {}, inTransit: {} },
+      },
+      done: { final: true },
+    },
+  };
+
+  it('should seed the initial leaf of a compound initial state', () => {
+    expect(hydrateSnapshot('wf-1', nested).state).toBe(
+      'shipping.awaitingCarrier',
+    );
+  });
+
+  it('should hydrate dot-notation state values', () => {
+    const seed = hydrateSnapshot('wf-1', nested, {
+      schema: 'durable-workflow-snapshot',
+      version: 1,
+      engine: 'js-state-machine',
+      state: 'shipping.inTransit',
+      status: 'active',
+      context: {},
+    });
+
+    expect(seed.state).toBe('shipping.inTransit');
+  });
+
+  it('should resume a compound state at its initial leaf', () => {
+    const seed = hydrateSnapshot('wf-1', nested, {
+      schema: 'durable-workflow-snapshot',
+      version: 1,
+      engine: 'js-state-machine',
+      state: 'shipping',
+      status: 'active',
+      context: {},
+    });
+
+    expect(seed.state).toBe('shipping.awaitingCarrier');
+  });
+
+  it('should reject unknown nested state paths', () => {
+    expect(() =>
+      hydrateSnapshot('wf-1', nested, {
+        schema: 'durable-workflow-snapshot',
+        version: 1,
+        engine: 'js-state-machine',
+        state: 'shipping.lost',
+        status: 'active',
+        context: {},
+      }),
+    ).toThrow(InvalidSnapshotError);
+  });
 });
 
 describe('isFinalState', () => {
@@ -48,6 +48,28 @@ describe('InMemoryWorkflowAdapter', () => {
     expect(row!.updatedAt).toBeInstanceOf(Date);
   });
 
+  it('should keep the parent link written on insert', async () => {
+    const adapter = new InMemoryWorkflowAdapter('shipments');
+
+    await adapter.upsertLive('shipments', 'child-1', {
+      stateValue: 'pending',
+      snapshot: { state: 'pending', context: {} },
+      expiresAt: null,
+      parentTable: 'orders',
+      parentId: 'parent-1',
+    });
+    await adapter.upsertLive('shipments', 'child-1', {
+      stateValue: 'shipped',
+      snapshot: { state: 'shipped', context: {} },
+      expiresAt: null,
+    });
+
+    const row = await adapter.findOne('shipments', 'child-1');
+    expect(row!.stateValue).toBe('shipped');
+    expect(row!.parentTable).toBe('orders');
+    expect(row!.parentId).toBe('parent-1');
+  });
+
   it('should clone snapshots to avoid external mutations', async () => {
     const adapter = new InMemoryWorkflowAdapter('orders');
     const snapshot = { state: 'active', context: { count: 1 } };
@@ -98,6 +120,29 @@ describe('InMemoryWorkflowAdapter', () => {
     expect(rows[0].transitionedAt).toBeInstanceOf(Date);
   });
 
+  it('should find history rows of one instance oldest first', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+    for (const [workflowId, eventType] of [
+      ['id-1', 'START'],
+      ['id-2', 'START'],
+      ['id-1', 'COMPLETE'],
+    ]) {
+      await adapter.insertHistory('orders', {
+        workflowId,
+        fromState: 'idle',
+        toState: 'active',
+        eventType,
+        eventPayload: { type: eventType },
+        transitionId: `idle:${eventType}:0`,
+      });
+    }
+
+    const rows = await adapter.findHistory('orders', 'id-1');
+
+    expect(rows.map((row) => row.eventType)).toEqual(['START', 'COMPLETE']);
+    expect(rows[1].transitionId).toBe('idle:COMPLETE:0');
+  });
+
   it('should find expired rows only', async () => {
     const adapter = new InMemoryWorkflowAdapter('orders');
 
@@ -118,7 +163,74 @@ describe('InMemoryWorkflowAdapter', () => {
     });
 
     await expect(adapter.findExpired('orders')).resolves.toEqual([
-      { id: 'expired' },
+      { id: 'expired', stateValue: 'active' },
+    ]);
+  });
+
+  it('should replace timers per workflow and find due ones', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+    const past = new Date(Date.now() - 60_000);
+    const future = new Date(Date.now() + 60_000);
+
+    await adapter.replaceTimers('orders', 'id-1', [
+      { eventType: 'after.1m.active', dueAt: past },
+      { eventType: 'after.1h.active', dueAt: future },
+    ]);
+    await adapter.replaceTimers('orders', 'id-2', [
+      { eventType: 'after.1m.active', dueAt: past },
+    ]);
+    await adapter.replaceTimers('orders', 'id-2', []);
+
+    await expect(adapter.findDueTimers('orders')).resolves.toEqual([
+      { workflowId: 'id-1', eventType: 'after.1m.active', dueAt: past },
+    ]);
+  });
+
+  it('should return pending outbox rows oldest first until dispatched', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+
+    await adapter.insertOutbox('orders', {
+      workflowId: 'id-1',
+      eventType: 'workflow.created',
+      payload: { instanceId: 'id-1' },
+    });
+    await adapter.insertOutbox('orders', {
+      workflowId: 'id-1',
+      eventType: 'workflow.transition',
+      payload: { instanceId: 'id-1' },
+    });
+
+    await expect(
+      adapter.findPendingOutbox('orders', 10, {
+        eventType: 'workflow.created',
+      }),
+    ).resolves.toHaveLength(1);
+    await expect(
+      adapter.findPendingOutbox('orders', 10, {
+        eventType: 'workflow.created',
+        exclude: true,
+      }),
+    ).resolves.toEqual([
+      expect.objectContaining({ eventType: 'workflow.transition' }),
+    ]);
+
+    const [first, second] = await adapter.findPendingOutbox('orders', 10);
+    expect(first).toMatchObject({
+      eventType: 'workflow.created',
+      dispatchedAt: null,
+      attempts: 0,
+      lastError: null,
+    });
+
+    await adapter.markOutboxDispatched('orders', first.id);
+    await adapter.markOutboxFailed('orders', second.id, 'listener failed');
+
+    await expect(adapter.findPendingOutbox('orders', 10)).resolves.toEqual([
+      expect.objectContaining({
+        id: second.id,
+        attempts: 1,
+        lastError: 'listener failed',
+      }),
     ]);
   });
 
@@ -141,6 +253,87 @@ describe('InMemoryWorkflowAdapter', () => {
     expect(rows[0].id).toBe('id-1');
   });
 
+  it('should match nested state values by parent prefix', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+
+    await adapter.upsertLive('orders', 'id-1', {
+      stateValue: 'shipping.awaitingCarrier',
+      snapshot: {},
+      expiresAt: null,
+    });
+    await adapter.upsertLive('orders', 'id-2', {
+      stateValue: 'shipping_failed',
+      snapshot: {},
+      expiresAt: null,
+    });
+
+    const rows = await adapter.findByState('orders', 'shipping');
+    expect(rows.map((row) => row.id)).toEqual(['id-1']);
+    await expect(
+      adapter.findByState('orders', 'shipping.awaitingCarrier'),
+    ).resolves.toHaveLength(1);
+  });
+
+  it('should match any active leaf of a parallel state value', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+
+    await adapter.upsertLive('orders', 'id-1', {
+      stateValue: 'fulfilling.payment.pending,fulfilling.picking.packed',
+      snapshot: {},
+      expiresAt: null,
+    });
+
+    await expect(
+      adapter.findByState('orders', 'fulfilling.picking'),
+    ).resolves.toHaveLength(1);
+    await expect(
+      adapter.findByState('orders', 'fulfilling.picking.queued'),
+    ).resolves.toHaveLength(0);
+  });
+
+  it('should find instances with any active leaf among exact state paths', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+
+    for (const [id, stateValue] of [
+      ['id-1', 'fulfilling.payment.pending,fulfilling.picking.packed'],
+      ['id-2', 'shipping.awaitingCarrier'],
+      ['id-3', 'done'],
+    ]) {
+      await adapter.upsertLive('orders', id, {
+        stateValue,
+        snapshot: {},
+        expiresAt: null,
+      });
+    }
+
+    const rows = await adapter.findByStates('orders', [
+      'fulfilling.picking.packed',
+      'shipping',
+      'done',
+    ]);
+    expect(rows.map((row) => row.id)).toEqual(['id-1', 'id-3']);
+    await expect(adapter.findByStates('orders', [])).resolves.toEqual([]);
+  });
+
+  it('should find instances of older definition versions', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+
+    for (const [id, snapshot] of [
+      ['id-1', {}],
+      ['id-2', { definitionVersion: 2 }],
+      ['id-3', { definitionVersion: 3 }],
+    ] as const) {
+      await adapter.upsertLive('orders', id, {
+        stateValue: 'active',
+        snapshot,
+        expiresAt: null,
+      });
+    }
+
+    const rows = await adapter.findOutdated('orders', 3);
+    expect(rows.map((row) => row.id)).toEqual(['id-1', 'id-2']);
+  });
+
   it('should commit transaction changes', async () => {
     const adapter = new InMemoryWorkflowAdapter('orders');
 
@@ -165,6 +358,33 @@ describe('InMemoryWorkflowAdapter', () => {
     expect(readHistory(adapter, 'orders')).toHaveLength(1);
   });
 
+  it('should keep the changes of overlapping transactions', async () => {
+    const adapter = new InMemoryWorkflowAdapter('orders');
+    const write = (id: string) =>
+      adapter.transaction(async (txAdapter) => {
+        await txAdapter.upsertLive('orders', id, {
+          stateValue: 'active',
+          snapshot: {},
+          expiresAt: null,
+        });
+      });
+
+    let inner: Promise<void> | undefined;
+    await adapter.transaction(async (txAdapter) => {
+      inner = write('id-2');
+      await new Promise((resolve) => setImmediate(resolve));
+      await txAdapter.upsertLive('orders', 'id-1', {
+        stateValue: 'active',
+        snapshot: {},
+        expiresAt: null,
+      });
+    });
+    await inner;
+
+    await expect(adapter.findOne('orders', 'id-1')).resolves.not.toBeNull();
+    await expect(adapter.findOne('orders', 'id-2')).resolves.not.toBeNull();
+  });
+
   it('should rollback transaction changes on error', async () => {
     const adapter = new InMemoryWorkflowAdapter('orders');
 
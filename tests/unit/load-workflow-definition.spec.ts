@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadWorkflowDefinition,
+  parseWorkflowDefinition,
+} from '../../src/utils/load-workflow-definition';
+
+const expected = {
+  id: 'order',
+  initial: 'idle',
+  context: { total: 0 },
+  states: {
+    idle: { on: { PAY: { target: 'paid', guard: 'isPaid' } } },
+    paid: { final: true },
+  },
+};
+
+const yamlSource = `
+id: order
+initial: idle
+context:
+  total: 0
+states:
+  idle:
+    on:
+      PAY:
+        target: paid
+        guard: isPaid
+  paid:
+    final: true
+`;
+
+describe('parseWorkflowDefinition', () => {
+  it('should parse JSON and YAML into the same definition', () => {
+    expect(parseWorkflowDefinition(JSON.stringify(expected), 'json')).toEqual(
+      expected,
+    );
+    expect(parseWorkflowDefinition(yamlSource, 'yaml')).toEqual(expected);
+  });
+
+  it('should reject sources that are not definitions', () => {
+    expect(() => parseWorkflowDefinition('- idle', 'yaml')).toThrow(
+      'Workflow definition source must be an object with id, initial, context and states',
+    );
+  });
+});
+
+describe('loadWorkflowDefinition', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-definitions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load definitions by file extension', () => {
+    fs.writeFileSync(path.join(dir, 'order.yml'), yamlSource);
+    fs.writeFileSync(path.join(dir, 'order.json'), JSON.stringify(expected));
+
+    expect(loadWorkflowDefinition(path.join(dir, 'order.yml'))).toEqual(
+      expected,
+    );
+    expect(loadWorkflowDefinition(path.join(dir, 'order.json'))).toEqual(
+      expected,
+    );
+  });
+
+  it('should reject unknown file extensions', () => {
+    const filePath = path.join(dir, 'order.txt');
+
+    expect(() => loadWorkflowDefinition(filePath)).toThrow(
+      `Workflow definition file ${filePath} must have a .json, .yaml or .yml extension`,
+    );
+  });
+});
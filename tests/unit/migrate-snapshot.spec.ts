@@ -0,0 +1,98 @@
+import { InvalidSnapshotError } from '../../src/errors/invalid-snapshot.error';
+import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
+import { migrateSnapshot } from '../../src/utils/migrate-snapshot';
+
+const states = { idle: {}, active: {}, done: { final: true } };
+const v1: DurableWorkflowDefinition = {
+  id: 'order',
+  initial: 'idle',
+  context: {},
+  states,
+};
+
+const snapshot = {
+  schema: 'durable-workflow-snapshot',
+  version: 1,
+  engine: 'js-state-machine',
+  state: 'active',
+  status: 'active',
+  context: { total: 10 },
+};
+
+describe('migrateSnapshot', () => {
+  it('should run the migrations of newer versions oldest first', () => {
+    const v2: DurableWorkflowDefinition = {
+      ...v1,
+      version: 2,
+      migrate: (_fromVersion, input) => ({
+        ...input,
+        context: { amount: input.context.total },
+      }),
+    };
+    const v3: DurableWorkflowDefinition = {
+      ...v1,
+      version: 3,
+      migrate: jest.fn((_fromVersion, input) => ({
+        ...input,
+        state: 'done',
+      })),
+    };
+
+    const result = migrateSnapshot('wf-1', [v1, v2, v3], snapshot);
+
+    expect(v3.migrate).toHaveBeenCalledWith(
+      2,
+      expect.objectContaining({ definitionVersion: 2 }),
+    );
+    expect(result.snapshot).toMatchObject({
+      state: 'done',
+      context: { amount: 10 },
+      definitionVersion: 3,
+    });
+    expect(result.steps).toEqual([
+      { fromVersion: 1, toVersion: 2, fromState: 'active', toState: 'active' },
+      { fromVersion: 2, toVersion: 3, fromState: 'active', toState: 'done' },
+    ]);
+    expect(snapshot.context).toEqual({ total: 10 });
+  });
+
+  it('should stop at the first newer version without a migration', () => {
+    const v2: DurableWorkflowDefinition = { ...v1, version: 2 };
+    const v3: DurableWorkflowDefinition = {
+      ...v1,
+      version: 3,
+      migrate: jest.fn(),
+    };
+
+    const result = migrateSnapshot('wf-1', [v1, v2, v3], snapshot);
+
+    expect(result).toEqual({ snapshot, steps: [] });
+    expect(v3.migrate).not.toHaveBeenCalled();
+  });
+
+  it('should skip versions the snapshot already reached', () => {
+    const v2: DurableWorkflowDefinition = {
+      ...v1,
+      version: 2,
+      migrate: jest.fn(),
+    };
+    const current = { ...snapshot, definitionVersion: 2 };
+
+    const result = migrateSnapshot('wf-1', [v1, v2], current);
+
+    expect(result.snapshot).toBe(current);
+    expect(v2.migrate).not.toHaveBeenCalled();
+  });
+
+  it('should reject migrations that do not return a snapshot', () => {
+    const v2 = {
+      ...v1,
+      version: 2,
+      migrate: () => undefined,
+    } as unknown as DurableWorkflowDefinition;
+
+    expect(() => migrateSnapshot('wf-1', [v1, v2], snapshot)).toThrow(
+      InvalidSnapshotError,
+    );
+  });
+});
@@ -89,6 +89,8 @@ describe('PgWorkflowAdapter', () => {
         snapshot: { value: 'active', context: { count: 1 } },
         expiresAt: new Date('2025-01-01T01:00:00.000Z'),
         updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        parentTable: null,
+        parentId: null,
       });
       expect(query).toHaveBeenCalledTimes(1);
     });
@@ -108,6 +110,32 @@ describe('PgWorkflowAdapter', () => {
     expect(query).toHaveBeenCalledTimes(1);
   });
 
+  it('should insert the parent link of spawned children', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValueOnce(createQueryResult([]));
+    const adapter = new PgWorkflowAdapter(pool, 'shipments');
+
+    await adapter.upsertLive('shipments', 'child-1', {
+      stateValue: 'pending',
+      snapshot: { state: 'pending', context: {} },
+      expiresAt: null,
+      parentTable: 'orders',
+      parentId: 'parent-1',
+    });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('parent_table, parent_id');
+    expect(sql).not.toMatch(/DO UPDATE SET[\s\S]*parent_id/);
+    expect(params).toEqual([
+      'child-1',
+      'pending',
+      '{"state":"pending","context":{}}',
+      null,
+      'orders',
+      'parent-1',
+    ]);
+  });
+
   it('should execute insertHistory query', async () => {
     const { pool, query } = createMockPool();
     query.mockResolvedValueOnce(createQueryResult([]));
@@ -124,16 +152,137 @@ describe('PgWorkflowAdapter', () => {
     expect(query).toHaveBeenCalledTimes(1);
   });
 
+  it('should map findHistory rows oldest first', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValueOnce(
+      createQueryResult([
+        {
+          id: 'h-1',
+          workflow_id: 'id-1',
+          from_state: 'idle',
+          to_state: 'active',
+          event_type: 'START',
+          event_payload: '{"type":"START"}',
+          transitioned_at: '2026-01-01T00:00:00.000Z',
+          transition_id: 'idle:START:0',
+        },
+      ]),
+    );
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+
+    await expect(adapter.findHistory('orders', 'id-1')).resolves.toEqual([
+      {
+        id: 'h-1',
+        workflowId: 'id-1',
+        fromState: 'idle',
+        toState: 'active',
+        eventType: 'START',
+        eventPayload: { type: 'START' },
+        transitionedAt: new Date('2026-01-01T00:00:00.000Z'),
+        transitionId: 'idle:START:0',
+      },
+    ]);
+    expect(query.mock.calls[0][0]).toContain('ORDER BY transitioned_at, id');
+  });
+
+  it('should lock and map pending outbox rows', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValueOnce(
+      createQueryResult([
+        {
+          id: 'o-1',
+          workflow_id: 'id-1',
+          event_type: 'workflow.created',
+          payload: '{"instanceId":"id-1"}',
+          created_at: '2026-01-01T00:00:00.000Z',
+          dispatched_at: null,
+          attempts: 0,
+          last_error: null,
+        },
+      ]),
+    );
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+
+    await expect(adapter.findPendingOutbox('orders', 50)).resolves.toEqual([
+      {
+        id: 'o-1',
+        workflowId: 'id-1',
+        eventType: 'workflow.created',
+        payload: { instanceId: 'id-1' },
+        createdAt: new Date('2026-01-01T00:00:00.000Z'),
+        dispatchedAt: null,
+        attempts: 0,
+        lastError: null,
+      },
+    ]);
+    expect(query.mock.calls[0][0]).toContain('FROM orders_outbox');
+    expect(query.mock.calls[0][0]).toContain('FOR UPDATE SKIP LOCKED');
+    expect(query.mock.calls[0][1]).toEqual([50]);
+  });
+
   it('should map findExpired rows', async () => {
     const { pool, query } = createMockPool();
     query.mockResolvedValueOnce(
-      createQueryResult([{ id: 'id-1' }, { id: 'id-2' }]),
+      createQueryResult([
+        { id: 'id-1', state_value: 'active', definition_version: null },
+        {
+          id: 'id-2',
+          state_value: 'shipping.inTransit',
+          definition_version: 2,
+          deadlines: { shipping: '2025-01-01T01:00:00.000Z' },
+        },
+      ]),
     );
     const adapter = new PgWorkflowAdapter(pool, 'orders');
 
     await expect(adapter.findExpired('orders')).resolves.toEqual([
-      { id: 'id-1' },
-      { id: 'id-2' },
+      { id: 'id-1', stateValue: 'active' },
+      {
+        id: 'id-2',
+        stateValue: 'shipping.inTransit',
+        definitionVersion: 2,
+        deadlines: { shipping: '2025-01-01T01:00:00.000Z' },
+      },
+    ]);
+    expect(query.mock.calls[0][0]).toContain(
+      "(snapshot->>'definitionVersion')::int AS definition_version",
+    );
+  });
+
+  it('should delete and re-insert timers on replaceTimers', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValue(createQueryResult([]));
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+    const dueAt = new Date('2025-01-01T00:15:00.000Z');
+
+    await adapter.replaceTimers('orders', 'id-1', [
+      { eventType: 'after.15m.active', dueAt },
+    ]);
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query.mock.calls[0][0]).toContain('DELETE FROM orders_timers');
+    expect(query.mock.calls[1][1]).toEqual(['id-1', 'after.15m.active', dueAt]);
+  });
+
+  it('should map findDueTimers rows', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValueOnce(
+      createQueryResult([
+        {
+          workflow_id: 'id-1',
+          event_type: 'after.15m.active',
+          due_at: '2025-01-01T00:15:00.000Z',
+        },
+      ]),
+    );
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+
+    await expect(adapter.findDueTimers('orders')).resolves.toEqual([
+      {
+        workflowId: 'id-1',
+        eventType: 'after.15m.active',
+        dueAt: new Date('2025-01-01T00:15:00.000Z'),
+      },
     ]);
   });
 
@@ -159,10 +308,59 @@ describe('PgWorkflowAdapter', () => {
         snapshot: { value: 'active', context: {} },
         expiresAt: null,
         updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        parentTable: null,
+        parentId: null,
       },
     ]);
   });
 
+  it('should bind findByState with an escaped nested state pattern', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValueOnce(createQueryResult([]));
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+
+    await adapter.findByState('orders', 'ship_100%');
+
+    expect(query.mock.calls[0][0]).toContain(
+      'WHERE state_value = $1\n          OR state_value LIKE $2',
+    );
+    expect(query.mock.calls[0][1]).toEqual(['ship_100%', 'ship\\_100\\%.%']);
+  });
+
+  it('should pass findByStates paths as a text array', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValueOnce(createQueryResult([]));
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+
+    await adapter.findByStates('orders', ['review', 'manual.queued']);
+
+    expect(query.mock.calls[0][0]).toContain('leaf = ANY($1::text[])');
+    expect(query.mock.calls[0][1]).toEqual([['review', 'manual.queued']]);
+  });
+
+  it('should not query findByStates without state paths', async () => {
+    const { pool, query } = createMockPool();
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+
+    await expect(adapter.findByStates('orders', [])).resolves.toEqual([]);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should query outdated instances by definition version', async () => {
+    const { pool, query } = createMockPool();
+    query.mockResolvedValueOnce(createQueryResult([]));
+    const adapter = new PgWorkflowAdapter(pool, 'orders');
+
+    await adapter.findOutdated('orders', 2);
+
+    expect(query).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "COALESCE((snapshot->>'definitionVersion')::int, 1) < $1",
+      ),
+      [2],
+    );
+  });
+
   describe('transaction', () => {
     it('should BEGIN/COMMIT and release client', async () => {
       const { pool, connect, clientQuery, release } = createMockPool();
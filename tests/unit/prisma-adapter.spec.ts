@@ -93,6 +93,8 @@ describe('PrismaWorkflowAdapter', () => {
         snapshot: { value: 'active', context: { count: 1 } },
         expiresAt: null,
         updatedAt: new Date(updatedAt),
+        parentTable: null,
+        parentId: null,
       });
       expect(queryRawUnsafe).toHaveBeenCalledTimes(1);
     });
@@ -131,14 +133,57 @@ describe('PrismaWorkflowAdapter', () => {
   });
 
   describe('findExpired', () => {
-    it('should return only id fields', async () => {
+    it('should return id and state value fields', async () => {
       const { client, queryRawUnsafe } = createMockPrismaClient();
-      queryRawUnsafe.mockResolvedValueOnce([{ id: 'id-1' }, { id: 'id-2' }]);
+      queryRawUnsafe.mockResolvedValueOnce([
+        { id: 'id-1', state_value: 'active' },
+        { id: 'id-2', state_value: 'picking' },
+      ]);
       const adapter = new PrismaWorkflowAdapter(client, 'orders');
 
       const result = await adapter.findExpired('orders');
 
-      expect(result).toEqual([{ id: 'id-1' }, { id: 'id-2' }]);
+      expect(result).toEqual([
+        { id: 'id-1', stateValue: 'active' },
+        { id: 'id-2', stateValue: 'picking' },
+      ]);
+    });
+  });
+
+  describe('timers', () => {
+    it('should delete and re-insert timers on replaceTimers', async () => {
+      const { client, executeRawUnsafe } = createMockPrismaClient();
+      const adapter = new PrismaWorkflowAdapter(client, 'orders');
+      const dueAt = new Date('2025-01-01T00:15:00.000Z');
+
+      await adapter.replaceTimers('orders', 'id-1', [
+        { eventType: 'after.15m.active', dueAt },
+      ]);
+
+      expect(executeRawUnsafe).toHaveBeenCalledTimes(2);
+      expect(executeRawUnsafe.mock.calls[0][0]).toContain(
+        'DELETE FROM orders_timers',
+      );
+    });
+
+    it('should map due timer rows', async () => {
+      const { client, queryRawUnsafe } = createMockPrismaClient();
+      queryRawUnsafe.mockResolvedValueOnce([
+        {
+          workflow_id: 'id-1',
+          event_type: 'after.15m.active',
+          due_at: '2025-01-01T00:15:00.000Z',
+        },
+      ]);
+      const adapter = new PrismaWorkflowAdapter(client, 'orders');
+
+      await expect(adapter.findDueTimers('orders')).resolves.toEqual([
+        {
+          workflowId: 'id-1',
+          eventType: 'after.15m.active',
+          dueAt: new Date('2025-01-01T00:15:00.000Z'),
+        },
+      ]);
     });
   });
 
@@ -165,11 +210,27 @@ describe('PrismaWorkflowAdapter', () => {
           snapshot: { value: 'active', context: {} },
           expiresAt: new Date('2025-01-01T01:00:00.000Z'),
           updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+          parentTable: null,
+          parentId: null,
         },
       ]);
     });
   });
 
+  describe('findByStates', () => {
+    it('should pass state paths as a text array', async () => {
+      const { client, queryRawUnsafe } = createMockPrismaClient();
+      const adapter = new PrismaWorkflowAdapter(client, 'orders');
+
+      await adapter.findByStates('orders', ['review', 'manual.queued']);
+
+      expect(queryRawUnsafe).toHaveBeenCalledWith(
+        expect.stringContaining('leaf = ANY($1::text[])'),
+        ['review', 'manual.queued'],
+      );
+    });
+  });
+
   describe('transaction', () => {
     it('should create a tx-bound adapter inside $transaction callback', async () => {
       const { client, transaction, txQueryRawUnsafe } =
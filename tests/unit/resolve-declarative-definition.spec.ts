@@ -0,0 +1,147 @@
+import type {
+  DeclarativeWorkflowDefinition,
+  WorkflowImplementations,
+} from '../../src/interfaces/declarative-workflow-definition.interface';
+import type { TransitionConfig } from '../../src/interfaces/durable-workflow-definition.interface';
+import { NativeWorkflowEngine } from '../../src/engines/native.engine';
+import { resolveDeclarativeDefinition } from '../../src/utils/resolve-declarative-definition';
+
+const declarative: DeclarativeWorkflowDefinition = {
+  id: 'payment',
+  initial: 'pending',
+  context: { log: [] },
+  states: {
+    pending: {
+      entry: { type: 'log', params: { message: 'entered pending' } },
+      on: {
+        PAY: [
+          {
+            target: 'paid',
+            guard: { type: 'minAmount', params: { amount: 10 } },
+            actions: [
+              { type: 'charge', retry: { attempts: 3, initialDelayMs: 10 } },
+            ],
+          },
+          { target: 'rejected', actions: 'log' },
+        ],
+      },
+    },
+    paid: { final: true },
+    rejected: { final: true },
+  },
+};
+
+const implementations: WorkflowImplementations = {
+  guards: {
+    minAmount: ({ event }, params) =>
+      (event.amount as number) >= (params.amount as number),
+  },
+  actions: {
+    log: ({ context, event }, params) => {
+      (context.log as string[]).push((params.message as string) ?? event.type);
+    },
+    charge: jest.fn(),
+  },
+};
+
+describe('resolveDeclarativeDefinition', () => {
+  it('should return definitions without references unchanged', () => {
+    const definition = {
+      id: 'plain',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: { on: { GO: { target: 'idle', actions: () => undefined } } },
+      },
+    };
+
+    expect(resolveDeclarativeDefinition(definition)).toBe(definition);
+  });
+
+  it('should resolve references into functions and keep retry policies', () => {
+    const resolved = resolveDeclarativeDefinition(declarative, implementations);
+    const [pay] = resolved.states.pending.on!.PAY as TransitionConfig[];
+
+    expect(typeof resolved.states.pending.entry).toBe('function');
+    expect(typeof pay.guard).toBe('function');
+    expect(pay.actions).toEqual([
+      { fn: expect.any(Function), retry: { attempts: 3, initialDelayMs: 10 } },
+    ]);
+    expect(resolved.states.paid).toEqual({ final: true });
+  });
+
+  it('should pass params to the implementations at runtime', async () => {
+    const runtime = new NativeWorkflowEngine().createRuntime({
+      definition: resolveDeclarativeDefinition(declarative, implementations),
+      maxTransitionDepth: 10,
+      workflowId: 'wf-1',
+    });
+
+    const result = await runtime.send({ type: 'PAY', amount: 5 });
+
+    expect(result.stateValue).toBe('rejected');
+    expect(runtime.getSnapshot().context).toEqual({ log: ['PAY'] });
+  });
+
+  it('should reject unknown guards', () => {
+    expect(() =>
+      resolveDeclarativeDefinition(declarative, {
+        actions: implementations.actions,
+      }),
+    ).toThrow(
+      'Workflow definition payment: state "pending" references unknown guard "minAmount"',
+    );
+  });
+
+  it('should resolve definition-level handlers', async () => {
+    const definition = resolveDeclarativeDefinition(
+      {
+        ...declarative,
+        on: { REJECT: { target: 'rejected', actions: 'log' } },
+      },
+      implementations,
+    );
+    const runtime = new NativeWorkflowEngine().createRuntime({
+      definition,
+      maxTransitionDepth: 10,
+      workflowId: 'payment-1',
+    });
+
+    const result = await runtime.send({ type: 'REJECT' });
+
+    expect(result.stateValue).toBe('rejected');
+    expect(runtime.getSnapshot().context.log).toEqual(['REJECT']);
+  });
+
+  it('should reject unknown guards in definition-level handlers', () => {
+    expect(() =>
+      resolveDeclarativeDefinition(
+        { ...declarative, on: { REJECT: { target: 'rejected', guard: 'x' } } },
+        implementations,
+      ),
+    ).toThrow(
+      'Workflow definition payment: definition-level on references unknown guard "x"',
+    );
+  });
+
+  it('should reject retry policies on entry actions', () => {
+    expect(() =>
+      resolveDeclarativeDefinition(
+        {
+          ...declarative,
+          states: {
+            pending: {
+              entry: {
+                type: 'log',
+                retry: { attempts: 2, initialDelayMs: 0 },
+              } as never,
+            },
+          },
+        },
+        implementations,
+      ),
+    ).toThrow(
+      'declares a retry policy on an entry, exit or compensation action',
+    );
+  });
+});
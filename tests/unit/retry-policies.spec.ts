@@ -0,0 +1,63 @@
+import {
+  getRetryDelay,
+  getRetryEventState,
+  getRetryEventType,
+  hasRetryPolicies,
+} from '../../src/utils/retry-policies';
+
+describe('retry policies', () => {
+  it('should build one event type per transition', () => {
+    expect(getRetryEventType('shipping.booking:BOOK:0')).toBe(
+      'workflow.retry.shipping.booking:BOOK:0',
+    );
+    expect(getRetryEventState('workflow.retry.shipping.booking:BOOK:0')).toBe(
+      'shipping.booking',
+    );
+    expect(getRetryEventState('after.15m.waiting')).toBeUndefined();
+  });
+
+  it('should compute exponential and fixed backoff delays', () => {
+    const policy = { attempts: 4, initialDelayMs: 500 };
+
+    expect([1, 2, 3].map((attempt) => getRetryDelay(policy, attempt))).toEqual([
+      500, 1000, 2000,
+    ]);
+    expect(getRetryDelay({ ...policy, backoff: 'fixed' }, 3)).toBe(500);
+  });
+
+  it('should detect retry policies in nested onError handlers', () => {
+    expect(
+      hasRetryPolicies({
+        id: 'payment',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            on: {
+              PAY: {
+                target: 'paid',
+                onError: {
+                  target: 'failed',
+                  actions: {
+                    fn: () => undefined,
+                    retry: { attempts: 2, initialDelayMs: 100 },
+                  },
+                },
+              },
+            },
+          },
+          paid: {},
+          failed: {},
+        },
+      }),
+    ).toBe(true);
+    expect(
+      hasRetryPolicies({
+        id: 'payment',
+        initial: 'pending',
+        context: {},
+        states: { pending: { on: { PAY: { actions: () => undefined } } } },
+      }),
+    ).toBe(false);
+  });
+});
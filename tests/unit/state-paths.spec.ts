@@ -0,0 +1,138 @@
+import {
+  getAncestorPaths,
+  getStateNode,
+  getRegionPath,
+  listStatePaths,
+  normalizeStateValue,
+  resolveInitialLeaves,
+  resolveTargetPath,
+} from '../../src/utils/state-paths';
+import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
+
+const definition: DurableWorkflowDefinition = {
+  id: 'order',
+  initial: 'idle',
+  context: {},
+  states: {
+    idle: {},
+    shipping: {
+      initial: 'packing',
+      states: {
+        packing: {
+          initial: 'picking',
+          states: { picking: {}, boxing: {} },
+        },
+        inTransit: {},
+        idle: {},
+      },
+    },
+  },
+};
+
+describe('state paths', () => {
+  it('should resolve state nodes by dot-notation path', () => {
+    expect(getStateNode(definition, 'shipping.packing.boxing')).toEqual({});
+    expect(getStateNode(definition, 'shipping.missing')).toBeUndefined();
+    expect(getStateNode(definition, 'idle.child')).toBeUndefined();
+  });
+
+  it('should list ancestor paths outermost first', () => {
+    expect(getAncestorPaths('a.b.c')).toEqual(['a', 'a.b', 'a.b.c']);
+    expect(getAncestorPaths('idle')).toEqual(['idle']);
+  });
+
+  it('should descend through initial states to a leaf', () => {
+    expect(resolveInitialLeaves(definition, 'shipping')).toEqual([
+      'shipping.packing.picking',
+    ]);
+    expect(resolveInitialLeaves(definition, 'idle')).toEqual(['idle']);
+  });
+
+  it('should prefer siblings and fall back to enclosing levels', () => {
+    expect(
+      resolveTargetPath(definition, 'shipping.packing.picking', 'boxing'),
+    ).toBe('shipping.packing.boxing');
+    expect(
+      resolveTargetPath(definition, 'shipping.packing.picking', 'inTransit'),
+    ).toBe('shipping.inTransit');
+    expect(resolveTargetPath(definition, 'shipping.inTransit', 'idle')).toBe(
+      'shipping.idle',
+    );
+    expect(resolveTargetPath(definition, 'shipping', 'idle')).toBe('idle');
+    expect(resolveTargetPath(definition, 'idle', 'shipping.inTransit')).toBe(
+      'shipping.inTransit',
+    );
+    expect(resolveTargetPath(definition, 'idle', 'missing')).toBeUndefined();
+  });
+
+  it('should list all state paths parents first', () => {
+    expect(listStatePaths(definition)).toEqual([
+      'idle',
+      'shipping',
+      'shipping.packing',
+      'shipping.packing.picking',
+      'shipping.packing.boxing',
+      'shipping.inTransit',
+      'shipping.idle',
+    ]);
+  });
+
+  describe('parallel states', () => {
+    const parallel: DurableWorkflowDefinition = {
+      id: 'fulfillment',
+      initial: 'fulfilling',
+      context: {},
+      states: {
+        fulfilling: {
+          type: 'parallel',
+          states: {
+            payment: {
+              initial: 'pending',
+              states: { pending: {}, captured: {} },
+            },
+            picking: {
+              initial: 'queued',
+              states: { queued: {}, packed: {} },
+            },
+          },
+        },
+        shipped: { type: 'final' },
+      },
+    };
+
+    it('should enter every region of a parallel state', () => {
+      expect(resolveInitialLeaves(parallel, 'fulfilling')).toEqual([
+        'fulfilling.payment.pending',
+        'fulfilling.picking.queued',
+      ]);
+    });
+
+    it('should resolve the region of a state', () => {
+      expect(getRegionPath(parallel, 'fulfilling.picking.packed')).toBe(
+        'fulfilling.picking',
+      );
+      expect(getRegionPath(parallel, 'shipped')).toBe('');
+    });
+
+    it('should complete missing regions and reject conflicting ones', () => {
+      expect(normalizeStateValue(parallel, 'fulfilling.picking.packed')).toBe(
+        'fulfilling.payment.pending,fulfilling.picking.packed',
+      );
+      expect(
+        normalizeStateValue(
+          parallel,
+          'fulfilling.picking.packed,fulfilling.payment.captured',
+        ),
+      ).toBe('fulfilling.payment.captured,fulfilling.picking.packed');
+      expect(
+        normalizeStateValue(
+          parallel,
+          'fulfilling.picking.packed,fulfilling.picking.queued',
+        ),
+      ).toBeUndefined();
+      expect(
+        normalizeStateValue(parallel, 'shipped,fulfilling'),
+      ).toBeUndefined();
+    });
+  });
+});
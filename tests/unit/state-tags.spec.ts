@@ -0,0 +1,67 @@
+import {
+  getStateMeta,
+  getStateTags,
+  getTaggedLeafPaths,
+} from '../../src/utils/state-tags';
+import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
+
+const definition: DurableWorkflowDefinition = {
+  id: 'ticket',
+  initial: 'open',
+  context: {},
+  states: {
+    open: { tags: ['awaiting-agent'], meta: { sla: 'P1' } },
+    waiting: {
+      type: 'parallel',
+      tags: ['awaiting-customer'],
+      meta: { pausesSla: true },
+      states: {
+        reply: {
+          initial: 'pending',
+          states: {
+            pending: { tags: ['reminder-due'] },
+            received: {},
+          },
+        },
+        approval: {
+          initial: 'pending',
+          states: { pending: { tags: ['reminder-due'] }, granted: {} },
+        },
+      },
+    },
+    closed: { final: true },
+  },
+};
+
+describe('state tags', () => {
+  it('should list the atomic states a tag applies to, including through ancestors', () => {
+    expect(getTaggedLeafPaths(definition, 'awaiting-customer')).toEqual([
+      'waiting.reply.pending',
+      'waiting.reply.received',
+      'waiting.approval.pending',
+      'waiting.approval.granted',
+    ]);
+    expect(getTaggedLeafPaths(definition, 'awaiting-agent')).toEqual(['open']);
+    expect(getTaggedLeafPaths(definition, 'unknown')).toEqual([]);
+  });
+
+  it('should collect the tags of every active state without duplicates', () => {
+    expect(
+      getStateTags(
+        definition,
+        'waiting.reply.pending,waiting.approval.pending',
+      ),
+    ).toEqual(['awaiting-customer', 'reminder-due']);
+    expect(getStateTags(definition, 'closed')).toEqual([]);
+  });
+
+  it('should key meta by the path of the state declaring it', () => {
+    expect(
+      getStateMeta(
+        definition,
+        'waiting.reply.received,waiting.approval.pending',
+      ),
+    ).toEqual({ waiting: { pausesSla: true } });
+    expect(getStateMeta(definition, 'open')).toEqual({ open: { sla: 'P1' } });
+  });
+});
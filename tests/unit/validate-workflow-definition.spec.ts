@@ -0,0 +1,331 @@
+import { validateWorkflowDefinition } from '../../src/utils/validate-workflow-definition';
+import { WorkflowDefinitionDiagnosticsError } from '../../src/errors/workflow-definition-diagnostics.error';
+import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
+
+describe('validateWorkflowDefinition', () => {
+  it('should accept a flat definition', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: { idle: { on: { START: 'done' } }, done: { final: true } },
+      }),
+    ).not.toThrow();
+  });
+
+  it('should reject versions that are not positive integers', () => {
+    for (const version of [0, 1.5]) {
+      expect(() =>
+        validateWorkflowDefinition({
+          id: 'flat',
+          version,
+          initial: 'idle',
+          context: {},
+          states: { idle: {} },
+        }),
+      ).toThrow('Workflow definition flat: version must be a positive integer');
+    }
+  });
+
+  it('should reject a migrate that is not a function', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        version: 2,
+        migrate: 'v1' as never,
+        initial: 'idle',
+        context: {},
+        states: { idle: {} },
+      }),
+    ).toThrow('Workflow definition flat: migrate must be a function');
+  });
+
+  it('should reject definitions with diagnostics in strict mode', () => {
+    const definition: DurableWorkflowDefinition = {
+      id: 'flat',
+      initial: 'idle',
+      context: {},
+      states: { idle: { on: { START: 'done' } }, done: {}, orphan: {} },
+    };
+
+    expect(() => validateWorkflowDefinition(definition)).not.toThrow();
+    expect(() =>
+      validateWorkflowDefinition(definition, { strict: true }),
+    ).toThrow(WorkflowDefinitionDiagnosticsError);
+    expect(() =>
+      validateWorkflowDefinition(definition, { strict: true }),
+    ).toThrow(
+      'Workflow definition flat failed strict validation:\n' +
+        '- done (dead-end-state): non-final state has no outgoing transitions or timeout and can never be left\n' +
+        '- orphan (unreachable-state): no transition leads to this state\n' +
+        '- orphan (dead-end-state): non-final state has no outgoing transitions or timeout and can never be left',
+    );
+  });
+
+  it('should reject unknown targets', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: { idle: { on: { START: 'missing' } } },
+      }),
+    ).toThrow('targets unknown state "missing"');
+  });
+
+  it('should reject invalid retry policies', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: {
+            on: {
+              START: {
+                target: 'done',
+                actions: {
+                  fn: () => undefined,
+                  retry: { attempts: 0, initialDelayMs: 100 },
+                },
+              },
+            },
+          },
+          done: { final: true },
+        },
+      }),
+    ).toThrow('state "idle" has an invalid action or retry policy');
+  });
+
+  it('should reject unknown onError targets on states and transitions', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: { idle: { onError: 'missing' } },
+      }),
+    ).toThrow('targets unknown state "missing"');
+
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { on: { START: { target: 'idle', onError: 'lost' } } },
+        },
+      }),
+    ).toThrow('targets unknown state "lost"');
+  });
+
+  it('should reject malformed after delays', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: { idle: { after: { soon: 'done' } }, done: { final: true } },
+      }),
+    ).toThrow('state "idle" has invalid after delay "soon"');
+  });
+
+  it('should reject timeout together with timeoutMinutes', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: { idle: { timeoutMinutes: 5, timeout: { minutes: 5 } } },
+      }),
+    ).toThrow('must not declare both timeout and timeoutMinutes');
+  });
+
+  it('should reject timeouts with an empty event type', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: { idle: { timeout: { minutes: 5, event: '' } } },
+      }),
+    ).toThrow('state "idle" has invalid timeout');
+  });
+
+  it('should reject tags that are not non-empty strings and non-object meta', () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: { idle: { tags: ['open', ''] } },
+      }),
+    ).toThrow('state "idle" has invalid tags');
+    expect(() =>
+      validateWorkflowDefinition({
+        id: 'flat',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { meta: ['P1'] as unknown as Record<string, unknown> },
+        },
+      }),
+    ).toThrow('state "idle" has invalid meta');
+  });
+
+  describe('nested states', () => {
+    const nested = (): DurableWorkflowDefinition => ({
+      id: 'nested',
+      initial: 'shipping',
+      context: {},
+      states: {
+        shipping: {
+          initial: 'awaitingCarrier',
+          on: { CANCEL: 'cancelled' },
+          states: {
+            awaitingCarrier: { on: { PICKED_UP: 'inTransit' } },
+            inTransit: { on: { DELIVERED: 'delivered' } },
+          },
+        },
+        delivered: { final: true },
+        cancelled: { final: true },
+      },
+    });
+
+    it('should accept sibling and root-level targets', () => {
+      expect(() => validateWorkflowDefinition(nested())).not.toThrow();
+    });
+
+    it('should reject compound states without a valid initial', () => {
+      const definition = nested();
+      definition.states.shipping.initial = 'unknown';
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'compound state "shipping" has missing or unknown initial state',
+      );
+    });
+
+    it('should reject initial on atomic states', () => {
+      const definition = nested();
+      definition.states.delivered = { initial: 'x' };
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'declares initial but has no child states',
+      );
+    });
+
+    it('should reject final states with children', () => {
+      const definition = nested();
+      definition.states.cancelled = {
+        final: true,
+        initial: 'a',
+        states: { a: {} },
+      };
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'final state "cancelled" cannot have child states',
+      );
+    });
+
+    it('should reject state names containing the path separator', () => {
+      const definition = nested();
+      definition.states['shipping.late'] = {};
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'must not contain "."',
+      );
+    });
+
+    it('should report unknown targets with the nested state path', () => {
+      const definition = nested();
+      definition.states.shipping.states!.inTransit.on = { LOST: 'lost' };
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'state "shipping.inTransit" targets unknown state "lost"',
+      );
+    });
+  });
+
+  describe('parallel states', () => {
+    const parallel = (): DurableWorkflowDefinition => ({
+      id: 'parallel',
+      initial: 'fulfilling',
+      context: {},
+      states: {
+        fulfilling: {
+          type: 'parallel',
+          onDone: 'shipped',
+          states: {
+            payment: { initial: 'pending', states: { pending: {} } },
+            picking: { initial: 'queued', states: { queued: {} } },
+          },
+        },
+        shipped: { type: 'final' },
+      },
+    });
+
+    it('should accept parallel states with onDone', () => {
+      expect(() => validateWorkflowDefinition(parallel())).not.toThrow();
+    });
+
+    it('should reject initial on parallel states', () => {
+      const definition = parallel();
+      definition.states.fulfilling.initial = 'payment';
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'parallel state "fulfilling" must not declare initial',
+      );
+    });
+
+    it('should reject onDone on atomic states', () => {
+      const definition = parallel();
+      definition.states.shipped = { onDone: 'fulfilling' };
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'state "shipped" declares onDone but has no child states',
+      );
+    });
+  });
+
+  describe('definition-level and wildcard handlers', () => {
+    const withHandlers = (): DurableWorkflowDefinition => ({
+      id: 'handlers',
+      initial: 'idle',
+      context: {},
+      on: { CANCEL: 'cancelled' },
+      states: {
+        idle: { on: { START: 'working', '*': 'idle' } },
+        working: {
+          initial: 'step',
+          states: { step: { on: { '*': { actions: () => undefined } } } },
+        },
+        cancelled: { final: true },
+      },
+    });
+
+    it('should accept definition-level handlers and wildcard events', () => {
+      expect(() => validateWorkflowDefinition(withHandlers())).not.toThrow();
+    });
+
+    it('should report unknown targets of definition-level handlers', () => {
+      const definition = withHandlers();
+      definition.on = { CANCEL: 'step' };
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'Workflow definition handlers: definition-level on targets unknown state "step"',
+      );
+    });
+
+    it('should reject a definition-level on that is not an object', () => {
+      const definition = withHandlers();
+      definition.on = [
+        'cancelled',
+      ] as unknown as DurableWorkflowDefinition['on'];
+
+      expect(() => validateWorkflowDefinition(definition)).toThrow(
+        'Workflow definition handlers: on must be an object of event handlers',
+      );
+    });
+  });
+});
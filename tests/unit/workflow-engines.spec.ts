@@ -0,0 +1,1740 @@
+import { RecursiveTransitionError } from '../../src/errors/recursive-transition.error';
+import { GuardTimeoutError } from '../../src/errors/guard-timeout.error';
+import { JavascriptStateMachineEngine } from '../../src/engines/javascript-state-machine.engine';
+import { NativeWorkflowEngine } from '../../src/engines/native.engine';
+import type {
+  DurableWorkflowDefinition,
+  WorkflowEventPayload,
+} from '../../src/interfaces/durable-workflow-definition.interface';
+
+describe.each([
+  ['JavascriptStateMachineEngine', new JavascriptStateMachineEngine()],
+  ['NativeWorkflowEngine', new NativeWorkflowEngine()],
+])('%s', (_name, engine) => {
+  describe('transitions', () => {
+    it('should process valid transition and return settled state', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'simple',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { on: { START: 'active' } },
+          active: {},
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'START' });
+
+      expect(result.stateValue).toBe('active');
+      expect(result.done).toBe(false);
+      expect(result.transitions).toEqual([
+        { fromState: 'idle', toState: 'active', transitionId: 'idle:START:0' },
+      ]);
+    });
+
+    it('should return no transition for no-op event', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'simple',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { on: { START: 'active' } },
+          active: {},
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'UNKNOWN' });
+
+      expect(result.stateValue).toBe('idle');
+      expect(result.transitions).toEqual([]);
+    });
+
+    it('should drain always transitions to stable state', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'always',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { on: { START: 'a' } },
+          a: { always: 'b' },
+          b: { always: 'c' },
+          c: {},
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'START' });
+
+      expect(result.stateValue).toBe('c');
+      expect(result.transitions).toEqual([
+        { fromState: 'idle', toState: 'a', transitionId: 'idle:START:0' },
+        { fromState: 'a', toState: 'b', transitionId: 'a:always:0' },
+        { fromState: 'b', toState: 'c', transitionId: 'b:always:0' },
+      ]);
+    });
+
+    it('should enforce recursion depth limit', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'loop',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: { on: { START: 'a' } },
+          a: { always: 'b' },
+          b: { always: 'a' },
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 5,
+        workflowId: 'wf-1',
+      });
+
+      await expect(runtime.send({ type: 'START' })).rejects.toThrow(
+        RecursiveTransitionError,
+      );
+    });
+
+    it('should await async actions', async () => {
+      const steps: string[] = [];
+
+      const definition: DurableWorkflowDefinition = {
+        id: 'async',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: {
+            on: {
+              START: {
+                target: 'active',
+                actions: async () => {
+                  await new Promise((resolve) => setTimeout(resolve, 5));
+                  steps.push('action-complete');
+                },
+              },
+            },
+          },
+          active: {},
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'START' });
+
+      expect(result.stateValue).toBe('active');
+      expect(steps).toEqual(['action-complete']);
+    });
+
+    it('should reject guards that do not return a boolean', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'guard',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: {
+            on: {
+              START: {
+                target: 'active',
+                guard: (() => Promise.resolve('yes')) as never,
+              },
+            },
+          },
+          active: {},
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await expect(runtime.send({ type: 'START' })).rejects.toThrow(
+        'must return a boolean value',
+      );
+    });
+
+    it('should run the action stub in place of every action', async () => {
+      const actions = jest.fn();
+      const stub = jest.fn();
+      const definition: DurableWorkflowDefinition = {
+        id: 'simple',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: {
+            exit: actions,
+            on: { START: { target: 'active', actions: { fn: actions } } },
+          },
+          active: { entry: actions },
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+        actionStub: stub,
+      });
+      await runtime.send({ type: 'START' });
+
+      expect(actions).not.toHaveBeenCalled();
+      expect(stub).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('definition-level and wildcard handlers', () => {
+    const orderDefinition = (): DurableWorkflowDefinition => ({
+      id: 'order',
+      initial: 'pending',
+      context: {},
+      on: { CANCEL: 'cancelled', NOTE: { actions: () => undefined } },
+      states: {
+        pending: { on: { PAY: 'shipping' } },
+        shipping: {
+          initial: 'packing',
+          on: { CANCEL: 'returning' },
+          states: {
+            packing: { on: { '*': 'onHold', PACKED: 'done' } },
+            onHold: { on: { RESUME: 'packing' } },
+            done: { final: true },
+          },
+          onDone: 'delivered',
+        },
+        returning: {},
+        delivered: { final: true },
+        cancelled: { final: true },
+      },
+    });
+
+    it('should apply definition-level handlers to top-level states', async () => {
+      const runtime = engine.createRuntime({
+        definition: orderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'CANCEL' });
+
+      expect(result.stateValue).toBe('cancelled');
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'pending',
+          toState: 'cancelled',
+          transitionId: 'pending:CANCEL:0',
+        },
+      ]);
+    });
+
+    it('should let states override definition-level handlers', async () => {
+      const runtime = engine.createRuntime({
+        definition: orderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'PAY' });
+      await runtime.send({ type: 'HOLD' });
+      const result = await runtime.send({ type: 'CANCEL' });
+
+      expect(result.stateValue).toBe('returning');
+    });
+
+    it('should take wildcard transitions for undeclared events only', async () => {
+      const runtime = engine.createRuntime({
+        definition: orderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'PAY' });
+      const held = await runtime.send({ type: 'HOLD' });
+      await runtime.send({ type: 'RESUME' });
+      const packed = await runtime.send({ type: 'PACKED' });
+
+      expect(held.stateValue).toBe('shipping.onHold');
+      expect(packed.stateValue).toBe('delivered');
+      expect(packed.done).toBe(true);
+    });
+
+    it('should prefer explicit handlers of ancestors and the definition over a nested wildcard', async () => {
+      const runtime = engine.createRuntime({
+        definition: orderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'PAY' });
+      const noted = await runtime.send({ type: 'NOTE' });
+      const cancelled = await runtime.send({ type: 'CANCEL' });
+
+      expect(noted.stateValue).toBe('shipping.packing');
+      expect(cancelled.stateValue).toBe('returning');
+    });
+
+    it('should not match runtime-internal events with a wildcard', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'job',
+        initial: 'running',
+        context: {},
+        states: {
+          running: {
+            initial: 'step',
+            onError: 'failed',
+            states: {
+              step: {
+                on: {
+                  '*': 'skipped',
+                  FAIL: {
+                    actions: () => {
+                      throw new Error('boom');
+                    },
+                  },
+                },
+              },
+              skipped: {},
+            },
+          },
+          failed: { final: true },
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      const result = await runtime.send({ type: 'FAIL' });
+
+      expect(result.stateValue).toBe('failed');
+    });
+  });
+
+  describe('snapshot metadata', () => {
+    const definition: DurableWorkflowDefinition = {
+      id: 'simple',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: { on: { START: 'active' } },
+        active: { on: { FINISH: 'done' } },
+        done: { final: true },
+      },
+    };
+
+    it('should write V2 snapshots with metadata', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'START' });
+      await runtime.send({ type: 'UNKNOWN' });
+      const snapshot = runtime.dehydrate();
+
+      expect(snapshot).toMatchObject({
+        version: 2,
+        definitionId: 'simple',
+        lastEventType: 'UNKNOWN',
+        sequence: 1,
+      });
+      expect(snapshot.definitionHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(Date.parse(snapshot.createdAt!)).not.toBeNaN();
+    });
+
+    it('should keep metadata across rehydration', async () => {
+      const first = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      await first.send({ type: 'START' });
+      const stored = first.dehydrate();
+
+      const second = engine.createRuntime({
+        definition,
+        snapshot: stored as unknown as Record<string, unknown>,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      await second.send({ type: 'FINISH' });
+
+      expect(second.dehydrate()).toMatchObject({
+        createdAt: stored.createdAt,
+        lastEventType: 'FINISH',
+        sequence: 2,
+      });
+    });
+
+    it('should upgrade V1 snapshots on write', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        snapshot: {
+          schema: 'durable-workflow-snapshot',
+          version: 1,
+          engine: 'js-state-machine',
+          state: 'active',
+          status: 'active',
+          context: {},
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'FINISH' });
+
+      expect(runtime.dehydrate()).toMatchObject({
+        version: 2,
+        status: 'done',
+        createdAt: null,
+        lastEventType: 'FINISH',
+        sequence: 1,
+      });
+    });
+  });
+
+  describe('async guards', () => {
+    const creditDefinition = (
+      checks: string[],
+      hasCredit: () => Promise<boolean>,
+    ): DurableWorkflowDefinition => ({
+      id: 'credit',
+      initial: 'pending',
+      context: {},
+      states: {
+        pending: {
+          on: {
+            APPROVE: [
+              {
+                target: 'approved',
+                guard: async () => {
+                  checks.push('credit');
+                  return hasCredit();
+                },
+              },
+              {
+                target: 'rejected',
+                guard: () => {
+                  checks.push('fallback');
+                  return true;
+                },
+              },
+            ],
+          },
+        },
+        approved: {},
+        rejected: {},
+      },
+    });
+
+    it('should await async guards before taking a transition', async () => {
+      const checks: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: creditDefinition(checks, async () => true),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'APPROVE' });
+
+      expect(result.stateValue).toBe('approved');
+      expect(checks).toEqual(['credit']);
+    });
+
+    it('should evaluate the next candidate when an async guard rejects', async () => {
+      const checks: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: creditDefinition(checks, async () => false),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'APPROVE' });
+
+      expect(result.stateValue).toBe('rejected');
+      expect(checks).toEqual(['credit', 'fallback']);
+    });
+
+    it('should fail the dispatch when a guard exceeds its budget', async () => {
+      const checks: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: creditDefinition(
+          checks,
+          () => new Promise(() => undefined),
+        ),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+        guardTimeoutMs: 20,
+      });
+
+      const error = await runtime
+        .send({ type: 'APPROVE' })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(GuardTimeoutError);
+      expect(error).toMatchObject({
+        workflowId: 'wf-1',
+        eventType: 'APPROVE',
+        timeoutMs: 20,
+      });
+      expect(runtime.getSnapshot().stateValue).toBe('pending');
+    });
+
+    it('should await guards that return thenables other than promises', async () => {
+      const thenable = (value?: boolean): PromiseLike<boolean> => ({
+        then: (onfulfilled) => {
+          if (value !== undefined) onfulfilled?.(value);
+          return thenable() as never;
+        },
+      });
+      const definition = (value?: boolean): DurableWorkflowDefinition => ({
+        id: 'credit',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            on: {
+              APPROVE: { target: 'approved', guard: () => thenable(value) },
+            },
+          },
+          approved: {},
+        },
+      });
+
+      const resolved = engine.createRuntime({
+        definition: definition(true),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      const stalled = engine.createRuntime({
+        definition: definition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+        guardTimeoutMs: 20,
+      });
+
+      await expect(resolved.send({ type: 'APPROVE' })).resolves.toMatchObject({
+        stateValue: 'approved',
+      });
+      await expect(stalled.send({ type: 'APPROVE' })).rejects.toBeInstanceOf(
+        GuardTimeoutError,
+      );
+    });
+  });
+
+  describe('nested states', () => {
+    const shippingDefinition = (
+      steps: string[] = [],
+    ): DurableWorkflowDefinition => ({
+      id: 'order',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: { on: { START: 'shipping' } },
+        shipping: {
+          initial: 'awaitingCarrier',
+          entry: () => {
+            steps.push('enter:shipping');
+          },
+          exit: () => {
+            steps.push('exit:shipping');
+          },
+          on: { CANCEL: 'cancelled' },
+          states: {
+            awaitingCarrier: {
+              entry: () => {
+                steps.push('enter:awaitingCarrier');
+              },
+              exit: () => {
+                steps.push('exit:awaitingCarrier');
+              },
+              on: { PICKED_UP: 'inTransit' },
+            },
+            inTransit: { on: { DELIVERED: 'delivered' } },
+          },
+        },
+        delivered: { final: true },
+        cancelled: { final: true },
+      },
+    });
+
+    it('should enter the initial child of a compound target', async () => {
+      const steps: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: shippingDefinition(steps),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'START' });
+
+      expect(result.stateValue).toBe('shipping.awaitingCarrier');
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'idle',
+          toState: 'shipping.awaitingCarrier',
+          transitionId: 'idle:START:0',
+        },
+      ]);
+      expect(steps).toEqual(['enter:shipping', 'enter:awaitingCarrier']);
+    });
+
+    it('should resolve sibling targets and keep the parent active', async () => {
+      const steps: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: shippingDefinition(steps),
+        snapshot: {
+          schema: 'durable-workflow-snapshot',
+          version: 1,
+          engine: 'js-state-machine',
+          state: 'shipping.awaitingCarrier',
+          status: 'active',
+          context: {},
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PICKED_UP' });
+
+      expect(result.stateValue).toBe('shipping.inTransit');
+      expect(steps).toEqual(['exit:awaitingCarrier']);
+    });
+
+    it('should bubble unhandled events from child to parent', async () => {
+      const steps: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: shippingDefinition(steps),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'START' });
+      steps.length = 0;
+      const result = await runtime.send({ type: 'CANCEL' });
+
+      expect(result.stateValue).toBe('cancelled');
+      expect(result.done).toBe(true);
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'shipping.awaitingCarrier',
+          toState: 'cancelled',
+          transitionId: 'shipping:CANCEL:0',
+        },
+      ]);
+      expect(steps).toEqual(['exit:awaitingCarrier', 'exit:shipping']);
+    });
+
+    it('should resolve root-level targets from nested states', async () => {
+      const runtime = engine.createRuntime({
+        definition: shippingDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'START' });
+      await runtime.send({ type: 'PICKED_UP' });
+      const result = await runtime.send({ type: 'DELIVERED' });
+
+      expect(result.stateValue).toBe('delivered');
+      expect(result.done).toBe(true);
+    });
+
+    it('should not complete the workflow on a nested final state', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'onboarding',
+        initial: 'kyc',
+        context: {},
+        states: {
+          kyc: {
+            initial: 'pending',
+            states: {
+              pending: { on: { VERIFY: 'verified' } },
+              verified: { final: true },
+            },
+          },
+        },
+      };
+
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'VERIFY' });
+
+      expect(result.stateValue).toBe('kyc.verified');
+      expect(result.done).toBe(false);
+    });
+  });
+
+  describe('parallel states', () => {
+    const fulfillmentDefinition = (
+      steps: string[] = [],
+    ): DurableWorkflowDefinition => ({
+      id: 'fulfillment',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: { on: { START: 'fulfilling' } },
+        fulfilling: {
+          type: 'parallel',
+          entry: () => {
+            steps.push('enter:fulfilling');
+          },
+          on: { CANCEL: 'cancelled' },
+          onDone: 'shipped',
+          states: {
+            payment: {
+              initial: 'pending',
+              states: {
+                pending: { on: { CAPTURED: 'captured' } },
+                captured: { type: 'final' },
+              },
+            },
+            picking: {
+              initial: 'queued',
+              states: {
+                queued: {
+                  exit: () => {
+                    steps.push('exit:queued');
+                  },
+                  on: { PACKED: 'packed' },
+                },
+                packed: { type: 'final' },
+              },
+            },
+          },
+        },
+        shipped: { type: 'final' },
+        cancelled: { type: 'final' },
+      },
+    });
+
+    it('should enter every region of a parallel target', async () => {
+      const steps: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: fulfillmentDefinition(steps),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'START' });
+
+      expect(result.stateValue).toBe(
+        'fulfilling.payment.pending,fulfilling.picking.queued',
+      );
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'idle',
+          toState: 'fulfilling',
+          transitionId: 'idle:START:0',
+        },
+      ]);
+      expect(steps).toEqual(['enter:fulfilling']);
+    });
+
+    it('should transition regions independently', async () => {
+      const runtime = engine.createRuntime({
+        definition: fulfillmentDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'START' });
+      const result = await runtime.send({ type: 'PACKED' });
+
+      expect(result.stateValue).toBe(
+        'fulfilling.payment.pending,fulfilling.picking.packed',
+      );
+      expect(result.done).toBe(false);
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'fulfilling.picking.queued',
+          toState: 'fulfilling.picking.packed',
+          transitionId: 'fulfilling.picking.queued:PACKED:0',
+        },
+      ]);
+    });
+
+    it('should take onDone once every region is final', async () => {
+      const runtime = engine.createRuntime({
+        definition: fulfillmentDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'START' });
+      await runtime.send({ type: 'PACKED' });
+      const result = await runtime.send({ type: 'CAPTURED' });
+
+      expect(result.stateValue).toBe('shipped');
+      expect(result.done).toBe(true);
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'fulfilling.payment.pending',
+          toState: 'fulfilling.payment.captured',
+          transitionId: 'fulfilling.payment.pending:CAPTURED:0',
+        },
+        {
+          fromState: 'fulfilling',
+          toState: 'shipped',
+          transitionId: 'fulfilling:onDone:0',
+        },
+      ]);
+    });
+
+    it('should exit all regions when the parallel state handles an event', async () => {
+      const steps: string[] = [];
+      const runtime = engine.createRuntime({
+        definition: fulfillmentDefinition(steps),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await runtime.send({ type: 'START' });
+      steps.length = 0;
+      const result = await runtime.send({ type: 'CANCEL' });
+
+      expect(result.stateValue).toBe('cancelled');
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'fulfilling',
+          toState: 'cancelled',
+          transitionId: 'fulfilling:CANCEL:0',
+        },
+      ]);
+      expect(steps).toEqual(['exit:queued']);
+    });
+
+    it('should resume regions from a comma-separated snapshot state', async () => {
+      const runtime = engine.createRuntime({
+        definition: fulfillmentDefinition(),
+        snapshot: {
+          schema: 'durable-workflow-snapshot',
+          version: 1,
+          engine: 'js-state-machine',
+          state: 'fulfilling.payment.captured,fulfilling.picking.queued',
+          status: 'active',
+          context: {},
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PACKED' });
+
+      expect(result.stateValue).toBe('shipped');
+      expect(result.done).toBe(true);
+    });
+  });
+
+  describe('delayed transitions', () => {
+    const start = new Date('2026-03-01T12:00:00.000Z');
+
+    const reminderDefinition = (): DurableWorkflowDefinition => ({
+      id: 'invoice',
+      initial: 'awaitingPayment',
+      context: { escalate: true },
+      states: {
+        awaitingPayment: {
+          after: {
+            '15m': 'reminded',
+            '24h': {
+              target: 'escalated',
+              guard: ({ context }) => context.escalate === true,
+            },
+          },
+          on: { PAID: 'paid' },
+        },
+        reminded: { on: { PAID: 'paid' } },
+        escalated: {},
+        paid: { final: true },
+      },
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: start });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start a timer per delay when the initial state is entered', () => {
+      const runtime = engine.createRuntime({
+        definition: reminderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      expect(runtime.dehydrate().timers).toEqual([
+        {
+          event: 'after.15m.awaitingPayment',
+          state: 'awaitingPayment',
+          dueAt: '2026-03-01T12:15:00.000Z',
+        },
+        {
+          event: 'after.24h.awaitingPayment',
+          state: 'awaitingPayment',
+          dueAt: '2026-03-02T12:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should ignore a timer event before it is due', async () => {
+      const runtime = engine.createRuntime({
+        definition: reminderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'after.15m.awaitingPayment' });
+
+      expect(result.stateValue).toBe('awaitingPayment');
+      expect(result.transitions).toEqual([]);
+      expect(runtime.dehydrate().timers).toHaveLength(2);
+    });
+
+    it('should take a due timer and cancel the timers of exited states', async () => {
+      const runtime = engine.createRuntime({
+        definition: reminderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      jest.setSystemTime(new Date('2026-03-01T12:15:00.000Z'));
+      const result = await runtime.send({ type: 'after.15m.awaitingPayment' });
+
+      expect(result.stateValue).toBe('reminded');
+      expect(runtime.dehydrate().timers).toEqual([]);
+    });
+
+    it('should consume the timer when its guard rejects', async () => {
+      const runtime = engine.createRuntime({
+        definition: reminderDefinition(),
+        snapshot: {
+          schema: 'durable-workflow-snapshot',
+          version: 1,
+          engine: 'js-state-machine',
+          state: 'awaitingPayment',
+          status: 'active',
+          context: { escalate: false },
+          timers: [
+            {
+              event: 'after.24h.awaitingPayment',
+              state: 'awaitingPayment',
+              dueAt: '2026-03-01T11:00:00.000Z',
+            },
+          ],
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'after.24h.awaitingPayment' });
+
+      expect(result.stateValue).toBe('awaitingPayment');
+      expect(runtime.dehydrate().timers).toEqual([]);
+    });
+
+    it('should clear timers once the workflow is done', async () => {
+      const runtime = engine.createRuntime({
+        definition: reminderDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PAID' });
+
+      expect(result.done).toBe(true);
+      expect(runtime.dehydrate().timers).toEqual([]);
+    });
+  });
+
+  describe('raised events', () => {
+    const definition: DurableWorkflowDefinition = {
+      id: 'order',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: {
+          on: {
+            SUBMIT: {
+              target: 'validating',
+              actions: ({ raise }) => {
+                raise({ type: 'VALIDATED', score: 7 });
+              },
+            },
+          },
+        },
+        validating: {
+          always: { target: 'checked' },
+        },
+        checked: {
+          entry: ({ context, event }) => {
+            context.enteredWith = event.type;
+          },
+          on: { VALIDATED: 'approved' },
+        },
+        approved: { final: true },
+      },
+    };
+
+    it('should process raised events after the transition settles', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'SUBMIT' });
+
+      expect(result.stateValue).toBe('approved');
+      expect(result.transitions).toEqual([
+        expect.objectContaining({ fromState: 'idle', toState: 'validating' }),
+        expect.objectContaining({
+          fromState: 'validating',
+          toState: 'checked',
+        }),
+        {
+          fromState: 'checked',
+          toState: 'approved',
+          transitionId: 'checked:VALIDATED:0',
+          event: { type: 'VALIDATED', score: 7 },
+        },
+      ]);
+      expect(result.transitions[0]).not.toHaveProperty('event');
+      expect(runtime.getSnapshot().context).toEqual({ enteredWith: 'SUBMIT' });
+    });
+
+    it('should discard events raised by a failed step', async () => {
+      const runtime = engine.createRuntime({
+        definition: {
+          id: 'order',
+          initial: 'idle',
+          context: {},
+          states: {
+            idle: {
+              on: {
+                SUBMIT: {
+                  target: 'done',
+                  actions: [
+                    ({ raise }) => raise({ type: 'NOTIFY' }),
+                    () => {
+                      throw new Error('boom');
+                    },
+                  ],
+                  onError: 'failed',
+                },
+              },
+            },
+            failed: { on: { NOTIFY: 'notified' } },
+            notified: {},
+            done: {},
+          },
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'SUBMIT' });
+
+      expect(result.stateValue).toBe('failed');
+    });
+
+    it('should count raised events towards maxTransitionDepth', async () => {
+      const runtime = engine.createRuntime({
+        definition: {
+          id: 'ping',
+          initial: 'idle',
+          context: {},
+          states: {
+            idle: {
+              on: {
+                PING: { actions: ({ raise }) => raise({ type: 'PING' }) },
+              },
+            },
+          },
+        },
+        maxTransitionDepth: 5,
+        workflowId: 'wf-1',
+      });
+
+      await expect(runtime.send({ type: 'PING' })).rejects.toThrow(
+        RecursiveTransitionError,
+      );
+    });
+
+    it('should reject events without a type', async () => {
+      const runtime = engine.createRuntime({
+        definition: {
+          id: 'order',
+          initial: 'idle',
+          context: {},
+          states: {
+            idle: {
+              on: {
+                SUBMIT: {
+                  target: 'done',
+                  actions: ({ raise }) => raise({} as WorkflowEventPayload),
+                },
+              },
+            },
+            done: {},
+          },
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'SUBMIT' });
+
+      expect(result.error).toMatchObject({
+        message: 'Workflow wf-1 can only raise events with a type',
+        handled: false,
+      });
+    });
+  });
+
+  describe('messages', () => {
+    it('should report messages sent to other instances', async () => {
+      const runtime = engine.createRuntime({
+        definition: {
+          id: 'payment',
+          initial: 'pending',
+          context: { orderId: 'order-1' },
+          states: {
+            pending: {
+              on: {
+                CAPTURED: {
+                  target: 'captured',
+                  actions: ({ context, sendTo }) => {
+                    sendTo('orders', context.orderId as string, {
+                      type: 'PAYMENT_CAPTURED',
+                      amount: 10,
+                    });
+                  },
+                },
+                DECLINED: {
+                  target: 'declined',
+                  actions: [
+                    ({ sendTo }) => sendTo('orders', 'order-1', { type: 'X' }),
+                    () => {
+                      throw new Error('boom');
+                    },
+                  ],
+                  onError: 'pending',
+                },
+              },
+            },
+            captured: {},
+            declined: {},
+          },
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'pay-1',
+      });
+
+      const declined = await runtime.send({ type: 'DECLINED' });
+      expect(declined.messages).toEqual([]);
+
+      const captured = await runtime.send({ type: 'CAPTURED' });
+      expect(captured.messages).toEqual([
+        {
+          tableName: 'orders',
+          id: 'order-1',
+          event: { type: 'PAYMENT_CAPTURED', amount: 10 },
+        },
+      ]);
+    });
+  });
+
+  describe('child workflows', () => {
+    const definition: DurableWorkflowDefinition = {
+      id: 'order',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: {
+          on: {
+            PLACE: {
+              target: 'fulfilling',
+              actions: ({ spawn }) => {
+                spawn('shipments', { id: 'ship-1' });
+                spawn('invoices', { id: 'inv-1', event: { type: 'ISSUE' } });
+              },
+            },
+          },
+        },
+        fulfilling: {
+          on: {
+            'done.child.inv-1': 'invoiced',
+            'done.child': 'shipped',
+          },
+        },
+        invoiced: {},
+        shipped: {},
+      },
+    };
+
+    it('should report spawned children and track them in the snapshot', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PLACE' });
+
+      expect(result.spawned).toEqual([
+        {
+          id: 'ship-1',
+          tableName: 'shipments',
+          event: { type: 'workflow.init' },
+        },
+        { id: 'inv-1', tableName: 'invoices', event: { type: 'ISSUE' } },
+      ]);
+      expect(runtime.dehydrate().children).toEqual([
+        { id: 'ship-1', tableName: 'shipments' },
+        { id: 'inv-1', tableName: 'invoices' },
+      ]);
+    });
+
+    it('should prefer a child-specific handler over the generic done.child handler', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      await runtime.send({ type: 'PLACE' });
+
+      const result = await runtime.send({ type: 'done.child.inv-1' });
+
+      expect(result.stateValue).toBe('invoiced');
+      expect(runtime.dehydrate().children).toEqual([
+        { id: 'ship-1', tableName: 'shipments' },
+      ]);
+    });
+
+    it('should fall back to done.child for other children', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      await runtime.send({ type: 'PLACE' });
+
+      const result = await runtime.send({ type: 'done.child.ship-1' });
+
+      expect(result.stateValue).toBe('shipped');
+    });
+
+    it('should ignore events once cancelled', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        snapshot: {
+          schema: 'durable-workflow-snapshot',
+          version: 1,
+          engine: 'js-state-machine',
+          state: 'idle',
+          status: 'cancelled',
+          context: {},
+        },
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PLACE' });
+
+      expect(result).toEqual({
+        stateValue: 'idle',
+        done: false,
+        transitions: [],
+      });
+    });
+  });
+
+  describe('action errors', () => {
+    const failingCharge = () => {
+      throw new Error('card declined');
+    };
+
+    it('should take the transition onError from the source state and capture the error', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'payment',
+        initial: 'pending',
+        context: { attempts: 0 },
+        states: {
+          pending: {
+            exit: ({ context }) => {
+              context.attempts = 1;
+            },
+            on: {
+              PAY: {
+                target: 'paid',
+                actions: failingCharge,
+                onError: 'declined',
+              },
+            },
+          },
+          paid: {},
+          declined: {},
+        },
+      };
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PAY' });
+
+      expect(result.stateValue).toBe('declined');
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'pending',
+          toState: 'declined',
+          transitionId: 'pending:PAY:0:onError:0',
+        },
+      ]);
+      expect(result.error).toEqual({
+        name: 'Error',
+        message: 'card declined',
+        state: 'pending',
+        eventType: 'PAY',
+        handled: true,
+      });
+      expect(runtime.getSnapshot().context).toEqual({
+        attempts: 1,
+        error: { name: 'Error', message: 'card declined' },
+      });
+    });
+
+    it('should bubble error.execution to state onError handlers', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'shipping',
+        initial: 'shipping',
+        context: {},
+        states: {
+          shipping: {
+            initial: 'packing',
+            onError: {
+              target: 'failed',
+              actions: ({ context, event }) => {
+                context.failedEvent = (event.event as { type: string }).type;
+              },
+            },
+            states: {
+              packing: { on: { PACK: { target: 'packed' } } },
+              packed: { entry: failingCharge },
+            },
+          },
+          failed: {},
+        },
+      };
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PACK' });
+
+      expect(result.stateValue).toBe('failed');
+      expect(runtime.getSnapshot().context).toMatchObject({
+        failedEvent: 'PACK',
+      });
+    });
+
+    it('should move to error status when no handler exists', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'payment',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: { on: { PAY: { target: 'paid', actions: failingCharge } } },
+          paid: {},
+        },
+      };
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PAY' });
+
+      expect(result.stateValue).toBe('pending');
+      expect(result.transitions).toEqual([]);
+      expect(result.error).toMatchObject({ handled: false, eventType: 'PAY' });
+      expect(runtime.dehydrate()).toMatchObject({
+        status: 'error',
+        timers: [],
+        context: { error: { name: 'Error', message: 'card declined' } },
+      });
+
+      const ignored = await runtime.send({ type: 'PAY' });
+      expect(ignored.transitions).toEqual([]);
+      expect(ignored.error).toBeUndefined();
+    });
+
+    it('should move to error status when the error handler itself throws', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'payment',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            on: {
+              PAY: {
+                target: 'paid',
+                actions: failingCharge,
+                onError: { target: 'declined', actions: failingCharge },
+              },
+            },
+          },
+          paid: {},
+          declined: {},
+        },
+      };
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PAY' });
+
+      expect(result.stateValue).toBe('pending');
+      expect(runtime.dehydrate().status).toBe('error');
+    });
+
+    it('should still throw errors raised by guards', async () => {
+      const definition: DurableWorkflowDefinition = {
+        id: 'payment',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            onError: 'declined',
+            on: {
+              PAY: {
+                target: 'declined',
+                guard: () => {
+                  throw new Error('guard exploded');
+                },
+              },
+            },
+          },
+          declined: {},
+        },
+      };
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await expect(runtime.send({ type: 'PAY' })).rejects.toThrow(
+        'guard exploded',
+      );
+    });
+  });
+
+  describe('compensation', () => {
+    const definition: DurableWorkflowDefinition = {
+      id: 'booking',
+      initial: 'idle',
+      context: { refunded: false },
+      states: {
+        idle: {
+          on: {
+            BOOK: {
+              target: 'booked',
+              compensate: ({ context, event, fromState, toState }) => {
+                context.refunded = `${event.reason}:${fromState}->${toState}`;
+              },
+            },
+          },
+        },
+        booked: { on: { CONFIRM: 'confirmed' } },
+        confirmed: {},
+      },
+    };
+
+    it('should run the compensation of a recorded transition in reverse', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      const result = await runtime.send({ type: 'BOOK' });
+
+      const ran = await runtime.compensate({
+        transitionId: result.transitions[0].transitionId!,
+        fromState: 'idle',
+        toState: 'booked',
+        event: { type: 'workflow.compensate', reason: 'abort' },
+      });
+
+      expect(ran).toBe(true);
+      expect(runtime.getSnapshot().context.refunded).toBe('abort:booked->idle');
+      expect(runtime.getSnapshot().stateValue).toBe('booked');
+    });
+
+    it('should skip transitions without a compensation', async () => {
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      await expect(
+        runtime.compensate({
+          transitionId: 'booked:CONFIRM:0',
+          fromState: 'booked',
+          toState: 'confirmed',
+          event: { type: 'workflow.compensate' },
+        }),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('retry policies', () => {
+    const start = new Date('2026-03-01T12:00:00.000Z');
+    let failures: number;
+
+    const paymentDefinition = (): DurableWorkflowDefinition => ({
+      id: 'payment',
+      initial: 'pending',
+      context: {},
+      states: {
+        pending: {
+          on: {
+            PAY: {
+              target: 'paid',
+              actions: {
+                fn: () => {
+                  if (failures > 0) {
+                    failures -= 1;
+                    throw new Error('gateway unavailable');
+                  }
+                },
+                retry: {
+                  attempts: 3,
+                  backoff: 'exponential',
+                  initialDelayMs: 1000,
+                },
+              },
+              onError: 'failed',
+            },
+          },
+        },
+        paid: { final: true },
+        failed: {},
+      },
+    });
+
+    const resume = (snapshot: Record<string, unknown>) =>
+      engine.createRuntime({
+        definition: paymentDefinition(),
+        snapshot,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: start });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should stay in the source state and schedule a retry timer', async () => {
+      failures = 1;
+      const runtime = engine.createRuntime({
+        definition: paymentDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+
+      const result = await runtime.send({ type: 'PAY', amount: 10 });
+
+      expect(result.stateValue).toBe('pending');
+      expect(result.error).toEqual({
+        name: 'Error',
+        message: 'gateway unavailable',
+        state: 'pending',
+        eventType: 'PAY',
+        handled: true,
+        retryAt: '2026-03-01T12:00:01.000Z',
+      });
+      expect(runtime.dehydrate().timers).toEqual([
+        {
+          event: 'workflow.retry.pending:PAY:0',
+          state: 'pending',
+          dueAt: '2026-03-01T12:00:01.000Z',
+          retryEvent: { type: 'PAY', amount: 10 },
+          attempt: 2,
+        },
+      ]);
+    });
+
+    it('should retry the original event from a persisted snapshot once due', async () => {
+      failures = 1;
+      const runtime = engine.createRuntime({
+        definition: paymentDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      await runtime.send({ type: 'PAY' });
+
+      const early = resume(
+        runtime.dehydrate() as unknown as Record<string, unknown>,
+      );
+      await expect(
+        early.send({ type: 'workflow.retry.pending:PAY:0' }),
+      ).resolves.toEqual(expect.objectContaining({ stateValue: 'pending' }));
+
+      jest.setSystemTime(new Date('2026-03-01T12:00:01.000Z'));
+      const restored = resume(
+        runtime.dehydrate() as unknown as Record<string, unknown>,
+      );
+      const result = await restored.send({
+        type: 'workflow.retry.pending:PAY:0',
+      });
+
+      expect(result.stateValue).toBe('paid');
+      expect(result.transitions).toEqual([
+        {
+          fromState: 'pending',
+          toState: 'paid',
+          transitionId: 'pending:PAY:0',
+        },
+      ]);
+      expect(restored.dehydrate().timers).toEqual([]);
+    });
+
+    it('should back off exponentially and take onError once attempts run out', async () => {
+      failures = 3;
+      let runtime = engine.createRuntime({
+        definition: paymentDefinition(),
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      await runtime.send({ type: 'PAY' });
+
+      jest.setSystemTime(new Date('2026-03-01T12:00:01.000Z'));
+      runtime = resume(
+        runtime.dehydrate() as unknown as Record<string, unknown>,
+      );
+      await runtime.send({ type: 'workflow.retry.pending:PAY:0' });
+      expect(runtime.dehydrate().timers).toEqual([
+        expect.objectContaining({
+          dueAt: '2026-03-01T12:00:03.000Z',
+          attempt: 3,
+        }),
+      ]);
+
+      jest.setSystemTime(new Date('2026-03-01T12:00:03.000Z'));
+      runtime = resume(
+        runtime.dehydrate() as unknown as Record<string, unknown>,
+      );
+      const result = await runtime.send({
+        type: 'workflow.retry.pending:PAY:0',
+      });
+
+      expect(result.stateValue).toBe('failed');
+      expect(result.error).toEqual({
+        name: 'Error',
+        message: 'gateway unavailable',
+        state: 'pending',
+        eventType: 'PAY',
+        handled: true,
+      });
+      expect(runtime.dehydrate().timers).toEqual([]);
+    });
+
+    it('should cancel a pending retry when the source state is exited', async () => {
+      failures = 1;
+      const definition = paymentDefinition();
+      definition.states.pending.on!.CANCEL = 'failed';
+      const runtime = engine.createRuntime({
+        definition,
+        maxTransitionDepth: 10,
+        workflowId: 'wf-1',
+      });
+      await runtime.send({ type: 'PAY' });
+
+      await runtime.send({ type: 'CANCEL' });
+
+      expect(runtime.dehydrate().timers).toEqual([]);
+    });
+  });
+});
+
+describe('NativeWorkflowEngine - snapshots', () => {
+  const definition: DurableWorkflowDefinition = {
+    id: 'simple',
+    initial: 'idle',
+    context: {},
+    states: {
+      idle: { on: { START: 'active' } },
+      active: { on: { FINISH: 'done' } },
+      done: { final: true },
+    },
+  };
+
+  it('should resume snapshots written by JavascriptStateMachineEngine', async () => {
+    const first = new JavascriptStateMachineEngine().createRuntime({
+      definition,
+      maxTransitionDepth: 10,
+      workflowId: 'wf-1',
+    });
+    await first.send({ type: 'START' });
+    const stored = first.dehydrate();
+
+    const second = new NativeWorkflowEngine().createRuntime({
+      definition,
+      snapshot: stored as unknown as Record<string, unknown>,
+      maxTransitionDepth: 10,
+      workflowId: 'wf-1',
+    });
+    const result = await second.send({ type: 'FINISH' });
+
+    expect(stored.engine).toBe('js-state-machine');
+    expect(result.done).toBe(true);
+    expect(second.dehydrate()).toMatchObject({
+      engine: 'native',
+      state: 'done',
+      sequence: 2,
+    });
+  });
+});
@@ -1,8 +1,17 @@
-import { WorkflowRegistry } from '../../src/services/workflow-registry.service';
+import {
+  WorkflowRegistry,
+  type WorkflowRegistryOptions,
+} from '../../src/services/workflow-registry.service';
 import { WorkflowNotRegisteredError } from '../../src/errors/workflow-not-registered.error';
 import { DuplicateRegistrationError } from '../../src/errors/duplicate-registration.error';
+import { WorkflowVersionNotRegisteredError } from '../../src/errors/workflow-version-not-registered.error';
+import { WorkflowDefinitionDiagnosticsError } from '../../src/errors/workflow-definition-diagnostics.error';
+import { Logger } from '@nestjs/common';
 import { DiscoveryService, Reflector } from '@nestjs/core';
-import type { DurableWorkflowDefinition } from '../../src/interfaces/durable-workflow-definition.interface';
+import type {
+  DurableWorkflowDefinition,
+  TransitionConfig,
+} from '../../src/interfaces/durable-workflow-definition.interface';
 
 const dummyMachine: DurableWorkflowDefinition = {
   id: 'test',
@@ -14,12 +23,12 @@ const dummyMachine: DurableWorkflowDefinition = {
 class FakeWorkflow {}
 class AnotherWorkflow {}
 
-function createRegistry(): WorkflowRegistry {
+function createRegistry(options?: WorkflowRegistryOptions): WorkflowRegistry {
   const mockDiscovery = {
     getProviders: () => [],
   } as unknown as DiscoveryService;
   const mockReflector = { get: () => undefined } as unknown as Reflector;
-  return new WorkflowRegistry(mockDiscovery, mockReflector);
+  return new WorkflowRegistry(mockDiscovery, mockReflector, options);
 }
 
 describe('WorkflowRegistry', () => {
@@ -63,6 +72,38 @@ describe('WorkflowRegistry', () => {
     ).toThrow('Duplicate workflow table name "orders".');
   });
 
+  it('should register definition versions and use the latest for new instances', () => {
+    const v1 = { ...dummyMachine, version: 1 };
+    const v2 = { ...dummyMachine, version: 2 };
+
+    registry.register('orders', [v2, v1], FakeWorkflow);
+
+    const result = registry.getOrThrow('orders');
+    expect(result.definitions).toEqual([v1, v2]);
+    expect(result.definition).toBe(v2);
+    expect(registry.getDefinition('orders')).toBe(v2);
+    expect(registry.getDefinition('orders', 1)).toBe(v1);
+  });
+
+  it('should throw WorkflowVersionNotRegisteredError for unknown versions', () => {
+    registry.register('orders', dummyMachine, FakeWorkflow);
+
+    expect(registry.getDefinition('orders', 1)).toBe(dummyMachine);
+    expect(() => registry.getDefinition('orders', 3)).toThrow(
+      WorkflowVersionNotRegisteredError,
+    );
+  });
+
+  it('should reject duplicate definition versions', () => {
+    expect(() =>
+      registry.register(
+        'orders',
+        [dummyMachine, { ...dummyMachine, version: 1 }],
+        FakeWorkflow,
+      ),
+    ).toThrow('Workflow "orders" registers version 1 more than once');
+  });
+
   it('should return all registrations via getAll', () => {
     registry.register('orders', dummyMachine, FakeWorkflow);
     registry.register('shipments', dummyMachine, AnotherWorkflow);
@@ -71,4 +112,116 @@ describe('WorkflowRegistry', () => {
     expect(all).toHaveLength(2);
     expect(all.map((r) => r.tableName).sort()).toEqual(['orders', 'shipments']);
   });
+
+  it('should resolve named guards and actions on registration', async () => {
+    const notify = jest.fn();
+    registry = createRegistry({
+      implementations: {
+        guards: {
+          above: ({ event }, params) =>
+            (event.amount as number) > (params.limit as number),
+        },
+        actions: { notify },
+      },
+    });
+
+    registry.register(
+      'orders',
+      {
+        id: 'declarative',
+        initial: 'idle',
+        context: {},
+        states: {
+          idle: {
+            on: {
+              PAY: {
+                target: 'paid',
+                guard: { type: 'above', params: { limit: 10 } },
+                actions: 'notify',
+              },
+            },
+          },
+          paid: {},
+        },
+      },
+      FakeWorkflow,
+    );
+
+    const definition = registry.getDefinition('orders');
+    const config = definition.states.idle.on!.PAY as TransitionConfig;
+    const input = {
+      context: {},
+      event: { type: 'PAY', amount: 20 },
+      fromState: 'idle',
+      toState: 'paid',
+    };
+    expect(await config.guard!(input)).toBe(true);
+    expect(typeof config.actions).toBe('function');
+  });
+
+  it('should reject definitions referencing unknown implementations', () => {
+    expect(() =>
+      registry.register(
+        'orders',
+        {
+          ...dummyMachine,
+          states: { idle: { entry: 'notify' } },
+        },
+        FakeWorkflow,
+      ),
+    ).toThrow(
+      'Workflow definition test: state "idle" references unknown action "notify"',
+    );
+  });
+
+  describe('definition analysis', () => {
+    const unreachable: DurableWorkflowDefinition = {
+      id: 'test',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: { on: { START: 'done' } },
+        done: { final: true },
+        orphan: { on: { START: 'done' } },
+      },
+    };
+
+    it('should log diagnostics as warnings by default', () => {
+      const warn = jest
+        .spyOn(Logger.prototype, 'warn')
+        .mockImplementation(() => undefined);
+
+      registry.register('orders', unreachable, FakeWorkflow);
+
+      expect(warn).toHaveBeenCalledWith(
+        'Workflow definition test: state "orphan" unreachable-state: no transition leads to this state',
+      );
+      warn.mockRestore();
+    });
+
+    it('should reject the latest version with strictDefinitions', () => {
+      const strict = createRegistry({ strictDefinitions: true });
+
+      expect(() =>
+        strict.register('orders', unreachable, FakeWorkflow),
+      ).toThrow(WorkflowDefinitionDiagnosticsError);
+      expect(() =>
+        strict.register(
+          'orders',
+          [
+            { ...unreachable, version: 1 },
+            {
+              ...unreachable,
+              version: 2,
+              states: {
+                idle: { on: { START: 'done' } },
+                done: { final: true },
+              },
+            },
+          ],
+          FakeWorkflow,
+        ),
+      ).not.toThrow();
+    });
+  });
 });